@@ -0,0 +1,95 @@
+import { writeFileSync } from 'node:fs';
+import {
+  PLAYER_PROFILES, DEFAULT_SIMULATION_OPTIONS, SimulationResult, simulateRun, resultsToCsv, resultsToJson,
+} from '../src/utils/balanceSimulator';
+
+// Headless balance simulator. Runs the game engine with simulated players and
+// writes progression curves as CSV or JSON.
+//
+//   npm run simulate -- --profiles casual,expert --runs 5 --format json --out sim.json
+
+const USAGE = `Usage: npm run simulate -- [options]
+
+  --profiles <ids>   comma-separated profiles (default: all)
+                     ${PLAYER_PROFILES.map(profile => `${profile.id}: ${profile.description}`).join('\n                     ')}
+  --runs <n>         runs per profile, seeded seed..seed+n-1 (default: 1)
+  --seed <n>         first seed (default: ${DEFAULT_SIMULATION_OPTIONS.seed})
+  --mode <mode>      normal, speed or survival (default: normal)
+  --max-zone <n>     stop once this zone is reached (default: ${DEFAULT_SIMULATION_OPTIONS.maxZone})
+  --max-hours <n>    simulated play time per run (default: ${DEFAULT_SIMULATION_OPTIONS.maxSeconds / 3600})
+  --format <fmt>     csv or json (default: csv)
+  --out <file>       write to a file instead of stdout
+`;
+
+const fail = (message: string): never => {
+  console.error(`${message}\n\n${USAGE}`);
+  process.exit(1);
+};
+
+const parseArgs = (argv: string[]): Map<string, string> => {
+  const args = new Map<string, string>();
+  for (let i = 0; i < argv.length; i++) {
+    const flag = argv[i];
+    if (flag === '--help' || flag === '-h') {
+      console.log(USAGE);
+      process.exit(0);
+    }
+    if (!flag.startsWith('--') || i + 1 >= argv.length) fail(`Unexpected argument: ${flag}`);
+    args.set(flag.slice(2), argv[++i]);
+  }
+  return args;
+};
+
+const toNumber = (args: Map<string, string>, name: string, fallback: number): number => {
+  const raw = args.get(name);
+  if (raw === undefined) return fallback;
+  const value = Number(raw);
+  if (!Number.isFinite(value) || value <= 0) fail(`--${name} must be a positive number`);
+  return value;
+};
+
+// Node passes [node, script, ...args]; piping the bundle through stdin makes the script '-'
+const args = parseArgs(process.argv.slice(2));
+
+const profileIds = args.get('profiles')?.split(',') ?? PLAYER_PROFILES.map(profile => profile.id);
+const profiles = profileIds.map(id => PLAYER_PROFILES.find(profile => profile.id === id) ?? fail(`Unknown profile: ${id}`));
+
+const mode = args.get('mode') ?? 'normal';
+if (mode !== 'normal' && mode !== 'speed' && mode !== 'survival') fail(`Unknown mode: ${mode}`);
+
+const format = args.get('format') ?? 'csv';
+if (format !== 'csv' && format !== 'json') fail(`Unknown format: ${format}`);
+
+const runs = Math.floor(toNumber(args, 'runs', 1));
+const firstSeed = Math.floor(toNumber(args, 'seed', DEFAULT_SIMULATION_OPTIONS.seed));
+const maxZone = Math.floor(toNumber(args, 'max-zone', DEFAULT_SIMULATION_OPTIONS.maxZone));
+const maxSeconds = toNumber(args, 'max-hours', DEFAULT_SIMULATION_OPTIONS.maxSeconds / 3600) * 3600;
+
+const results: SimulationResult[] = [];
+profiles.forEach(profile => {
+  for (let run = 0; run < runs; run++) {
+    results.push(simulateRun(profile, {
+      seed: firstSeed + run,
+      mode: mode as SimulationResult['mode'],
+      maxZone,
+      maxSeconds,
+    }));
+  }
+});
+
+const output = format === 'json' ? resultsToJson(results) : resultsToCsv(results);
+const outFile = args.get('out');
+if (outFile) {
+  writeFileSync(outFile, output);
+} else {
+  process.stdout.write(output);
+}
+
+// Summary on stderr so it never ends up in the data
+const minutes = (seconds: number | null) => seconds === null ? 'never' : `${Math.round(seconds / 60)} min`;
+results.forEach(result => {
+  console.error(
+    `${result.profile} #${result.seed}: zone ${result.finalZone} after ${minutes(result.elapsed)}, ` +
+    `${result.deaths} deaths, premium ${minutes(result.timeToPremium)} (${result.stoppedBy})`
+  );
+});
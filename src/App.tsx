@@ -3,22 +3,39 @@ import { useGameState } from './hooks/useGameState';
 import { Combat } from './components/Combat';
 import { Shop } from './components/Shop';
 import { Inventory } from './components/Inventory';
+import { Crafting } from './components/Crafting';
 import { PlayerStats } from './components/PlayerStats';
 import { Research } from './components/Research';
 import { Achievements } from './components/Achievements';
 import { CollectionBook } from './components/CollectionBook';
 import { Statistics } from './components/Statistics';
 import { GameModeSelector } from './components/GameModeSelector';
+import { SaveSlots } from './components/SaveSlots';
+import { QuestionPacks } from './components/QuestionPacks';
+import { DifficultySettings } from './components/DifficultySettings';
 import { FloatingText, ParticleEffect, ScreenShake } from './components/VisualEffects';
-import { Shield, Package, User, Play, RotateCcw, Brain, Crown, Trophy, Book, BarChart3, Settings } from 'lucide-react';
+import { getEquippedItems } from './utils/equipment';
+import { Shield, Package, User, Play, RotateCcw, Brain, Crown, Trophy, Book, BarChart3, Settings, AlertTriangle, X, Save, Library, Gauge, Hammer } from 'lucide-react';
 
-type GameView = 'stats' | 'shop' | 'inventory' | 'research';
-type ModalView = 'achievements' | 'collection' | 'statistics' | 'gameMode' | null;
+type GameView = 'stats' | 'shop' | 'inventory' | 'crafting' | 'research';
+type ModalView = 'achievements' | 'collection' | 'statistics' | 'gameMode' | 'saves' | 'packs' | 'difficulty' | null;
 
 function App() {
   const {
     gameState,
     isLoading,
+    saveNotice,
+    dismissSaveNotice,
+    saveStatus,
+    saveSlots,
+    activeSlotId,
+    createSaveSlot,
+    switchSaveSlot,
+    duplicateSaveSlot,
+    renameSaveSlot,
+    deleteSaveSlot,
+    exportSaveSlot,
+    importSaveFile,
     visualEffects,
     clearVisualEffect,
     equipWeapon,
@@ -27,12 +44,39 @@ function App() {
     upgradeArmor,
     sellWeapon,
     sellArmor,
+    equipGear,
+    unequipSlot,
+    upgradeGear,
+    buyProtectionScroll,
+    sellGear,
+    sellItems,
+    toggleItemLock,
+    saveLoadout,
+    overwriteLoadout,
+    equipLoadout,
+    deleteLoadout,
+    buyBagExpansion,
+    claimStashItem,
+    discardStashItem,
+    addLootRule,
+    removeLootRule,
+    toggleLootRule,
+    salvageItem,
+    rerollAffixes,
+    ascendItem,
+    fuseItems,
+    craftItem,
     upgradeResearch,
     openChest,
     startCombat,
     attack,
     resetGame,
     setGameMode,
+    updateDifficultySettings,
+    activeQuestions,
+    toggleQuestionPack,
+    importQuestionPack,
+    removeQuestionPack,
   } = useGameState();
 
   const [currentView, setCurrentView] = useState<GameView>('stats');
@@ -56,6 +100,10 @@ function App() {
           enemy={gameState.currentEnemy}
           playerStats={gameState.playerStats}
           onAttack={attack}
+          questionPool={activeQuestions}
+          questionHistory={gameState.questionHistory}
+          difficultySettings={gameState.difficulty}
+          rngSeed={gameState.rng.seed}
           combatLog={gameState.combatLog}
           gameMode={gameState.gameMode}
           knowledgeStreak={gameState.knowledgeStreak}
@@ -69,6 +117,7 @@ function App() {
           <div className="space-y-6">
             <PlayerStats
               playerStats={gameState.playerStats}
+              equippedItems={getEquippedItems(gameState.inventory)}
               zone={gameState.zone}
               coins={gameState.coins}
               gems={gameState.gems}
@@ -132,6 +181,30 @@ function App() {
                   <Settings className="w-4 h-4" />
                   Game Mode
                 </button>
+
+                <button
+                  onClick={() => setCurrentModal('packs')}
+                  className="px-4 py-2 rounded-lg font-semibold text-white bg-gradient-to-r from-teal-600 to-teal-500 hover:from-teal-500 hover:to-teal-400 transition-all duration-200 flex items-center gap-2 text-sm"
+                >
+                  <Library className="w-4 h-4" />
+                  Question Packs
+                </button>
+
+                <button
+                  onClick={() => setCurrentModal('difficulty')}
+                  className="px-4 py-2 rounded-lg font-semibold text-white bg-gradient-to-r from-cyan-600 to-cyan-500 hover:from-cyan-500 hover:to-cyan-400 transition-all duration-200 flex items-center gap-2 text-sm"
+                >
+                  <Gauge className="w-4 h-4" />
+                  Difficulty
+                </button>
+
+                <button
+                  onClick={() => setCurrentModal('saves')}
+                  className="px-4 py-2 rounded-lg font-semibold text-white bg-gradient-to-r from-indigo-600 to-indigo-500 hover:from-indigo-500 hover:to-indigo-400 transition-all duration-200 flex items-center gap-2 text-sm"
+                >
+                  <Save className="w-4 h-4" />
+                  Save Slots
+                </button>
                 
                 <button
                   onClick={resetGame}
@@ -150,13 +223,49 @@ function App() {
         return (
           <Inventory
             inventory={gameState.inventory}
+            playerStats={gameState.playerStats}
+            research={gameState.research}
+            lootRules={gameState.lootRules}
+            loadouts={gameState.loadouts}
             gems={gameState.gems}
+            protectionScrolls={gameState.protectionScrolls}
             onEquipWeapon={equipWeapon}
             onEquipArmor={equipArmor}
             onUpgradeWeapon={upgradeWeapon}
             onUpgradeArmor={upgradeArmor}
             onSellWeapon={sellWeapon}
             onSellArmor={sellArmor}
+            onEquipGear={equipGear}
+            onUnequip={unequipSlot}
+            onUpgradeGear={upgradeGear}
+            onBuyProtectionScroll={buyProtectionScroll}
+            onSellGear={sellGear}
+            onSellItems={sellItems}
+            onToggleLock={toggleItemLock}
+            onBuyBagExpansion={buyBagExpansion}
+            onClaimStashItem={claimStashItem}
+            onDiscardStashItem={discardStashItem}
+            onAddLootRule={addLootRule}
+            onRemoveLootRule={removeLootRule}
+            onToggleLootRule={toggleLootRule}
+            onSaveLoadout={saveLoadout}
+            onOverwriteLoadout={overwriteLoadout}
+            onEquipLoadout={equipLoadout}
+            onDeleteLoadout={deleteLoadout}
+          />
+        );
+      case 'crafting':
+        return (
+          <Crafting
+            inventory={gameState.inventory}
+            research={gameState.research}
+            collectionBook={gameState.collectionBook}
+            materials={gameState.materials}
+            onSalvage={salvageItem}
+            onReroll={rerollAffixes}
+            onAscend={ascendItem}
+            onFuse={fuseItems}
+            onCraft={craftItem}
           />
         );
       case 'research':
@@ -188,6 +297,8 @@ function App() {
             collectionBook={gameState.collectionBook}
             allWeapons={gameState.inventory.weapons}
             allArmor={gameState.inventory.armor}
+            allGear={gameState.inventory.gear}
+            equippedItems={getEquippedItems(gameState.inventory)}
             onClose={() => setCurrentModal(null)}
           />
         );
@@ -195,6 +306,7 @@ function App() {
         return (
           <Statistics
             statistics={gameState.statistics}
+            questionHistory={gameState.questionHistory}
             onClose={() => setCurrentModal(null)}
           />
         );
@@ -206,6 +318,40 @@ function App() {
             onClose={() => setCurrentModal(null)}
           />
         );
+      case 'packs':
+        return (
+          <QuestionPacks
+            settings={gameState.questionPacks}
+            onTogglePack={toggleQuestionPack}
+            onImportPack={importQuestionPack}
+            onRemovePack={removeQuestionPack}
+            onClose={() => setCurrentModal(null)}
+          />
+        );
+      case 'difficulty':
+        return (
+          <DifficultySettings
+            settings={gameState.difficulty}
+            zone={gameState.zone}
+            onUpdate={updateDifficultySettings}
+            onClose={() => setCurrentModal(null)}
+          />
+        );
+      case 'saves':
+        return (
+          <SaveSlots
+            slots={saveSlots}
+            activeSlotId={activeSlotId}
+            onCreateSlot={createSaveSlot}
+            onSwitchSlot={switchSaveSlot}
+            onDuplicateSlot={duplicateSaveSlot}
+            onRenameSlot={renameSaveSlot}
+            onDeleteSlot={deleteSaveSlot}
+            onExportSlot={exportSaveSlot}
+            onImportFile={importSaveFile}
+            onClose={() => setCurrentModal(null)}
+          />
+        );
       default:
         return null;
     }
@@ -263,7 +409,7 @@ function App() {
               className="flex items-center gap-1 text-indigo-300 hover:text-indigo-200 transition-colors"
             >
               <Book className="w-4 h-4" />
-              <span>{gameState.collectionBook.totalWeaponsFound + gameState.collectionBook.totalArmorFound}</span>
+              <span>{gameState.collectionBook.totalWeaponsFound + gameState.collectionBook.totalArmorFound + gameState.collectionBook.totalGearFound}</span>
             </button>
             
             <button
@@ -273,6 +419,20 @@ function App() {
               <BarChart3 className="w-4 h-4" />
               <span>{Math.round((gameState.statistics.correctAnswers / Math.max(gameState.statistics.totalQuestionsAnswered, 1)) * 100)}%</span>
             </button>
+
+            <button
+              onClick={() => setCurrentModal('saves')}
+              className="flex items-center gap-1 text-gray-300 hover:text-white transition-colors"
+            >
+              <Save className="w-4 h-4" />
+              <span className="hidden sm:inline">
+                {saveStatus.saving
+                  ? 'Saving...'
+                  : saveStatus.lastSavedAt
+                  ? `Saved ${saveStatus.lastSavedAt.toLocaleTimeString()}`
+                  : 'Not saved yet'}
+              </span>
+            </button>
           </div>
           
           {/* Navigation */}
@@ -282,6 +442,7 @@ function App() {
               { id: 'research', label: 'Research', icon: Brain },
               { id: 'shop', label: 'Shop', icon: Package },
               { id: 'inventory', label: 'Inventory', icon: Shield },
+              { id: 'crafting', label: 'Forge', icon: Hammer },
             ].map(({ id, label, icon: Icon }) => (
               <button
                 key={id}
@@ -306,6 +467,27 @@ function App() {
       {/* Main Content */}
       <div className="container mx-auto px-3 sm:px-4 py-4 sm:py-8">
         <div className="max-w-4xl mx-auto">
+          {saveNotice && (
+            <div className={`mb-4 p-3 rounded-lg border flex items-start gap-2 text-sm ${
+              saveNotice.type === 'migrated'
+                ? 'bg-blue-900/60 border-blue-500 text-blue-200'
+                : 'bg-red-900/60 border-red-500 text-red-200'
+            }`}>
+              <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+              <p className="flex-1">
+                {saveNotice.message}
+                {saveNotice.backupKey && (
+                  <span className="block text-xs opacity-75 mt-1">Backup key: {saveNotice.backupKey}</span>
+                )}
+              </p>
+              <button
+                onClick={dismissSaveNotice}
+                className="text-gray-300 hover:text-white transition-colors"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+          )}
           {renderCurrentView()}
         </div>
       </div>
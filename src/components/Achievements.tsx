@@ -1,15 +1,25 @@
 import React, { useState } from 'react';
-import { Achievement } from '../types/game';
-import { Trophy, Lock, Star, Gift, X } from 'lucide-react';
+import { Achievement, AchievementTier } from '../types/game';
+import { Trophy, Lock, Star, Gift, X, Link } from 'lucide-react';
 
 interface AchievementsProps {
   achievements: Achievement[];
   onClose: () => void;
 }
 
+const tierStyles: Record<AchievementTier, string> = {
+  bronze: 'bg-orange-800/60 text-orange-300 border-orange-600/50',
+  silver: 'bg-gray-600/60 text-gray-200 border-gray-400/50',
+  gold: 'bg-yellow-700/60 text-yellow-200 border-yellow-500/50',
+};
+
 export const Achievements: React.FC<AchievementsProps> = ({ achievements, onClose }) => {
   const [filter, setFilter] = useState<'all' | 'unlocked' | 'locked'>('all');
 
+  const namesById = new Map(achievements.map(a => [a.id, a.name]));
+  const getMissingPrerequisites = (achievement: Achievement) =>
+    (achievement.prerequisites ?? []).filter(id => !achievements.find(a => a.id === id)?.unlocked);
+
   const filteredAchievements = achievements.filter(achievement => {
     if (filter === 'unlocked') return achievement.unlocked;
     if (filter === 'locked') return !achievement.unlocked;
@@ -73,7 +83,11 @@ export const Achievements: React.FC<AchievementsProps> = ({ achievements, onClos
 
         {/* Achievements Grid */}
         <div className="grid grid-cols-1 md:grid-cols-2 gap-3 sm:gap-4">
-          {filteredAchievements.map((achievement) => (
+          {filteredAchievements.map((achievement) => {
+            // Hidden achievements give nothing away until they are earned
+            const secret = achievement.hidden && !achievement.unlocked;
+            const missingPrerequisites = achievement.unlocked ? [] : getMissingPrerequisites(achievement);
+            return (
             <div
               key={achievement.id}
               className={`p-3 sm:p-4 rounded-lg border-2 transition-all ${
@@ -91,8 +105,13 @@ export const Achievements: React.FC<AchievementsProps> = ({ achievements, onClos
                     <h3 className={`font-bold text-sm sm:text-base ${
                       achievement.unlocked ? 'text-yellow-400' : 'text-gray-400'
                     }`}>
-                      {achievement.name}
+                      {secret ? 'Hidden Achievement' : achievement.name}
                     </h3>
+                    {achievement.tier && (
+                      <span className={`px-1.5 py-0.5 rounded border text-[10px] font-semibold uppercase ${tierStyles[achievement.tier]}`}>
+                        {achievement.tier}
+                      </span>
+                    )}
                     {achievement.unlocked && (
                       <Star className="w-4 h-4 text-yellow-400 animate-pulse" />
                     )}
@@ -100,33 +119,42 @@ export const Achievements: React.FC<AchievementsProps> = ({ achievements, onClos
                   <p className={`text-xs sm:text-sm mb-2 ${
                     achievement.unlocked ? 'text-white' : 'text-gray-500'
                   }`}>
-                    {achievement.description}
+                    {secret ? 'Keep playing to discover this one.' : achievement.description}
                   </p>
+
+                  {missingPrerequisites.length > 0 && (
+                    <p className="flex items-center gap-1 text-xs text-gray-400 mb-2">
+                      <Link className="w-3 h-3" />
+                      Requires {missingPrerequisites.map(id => namesById.get(id) ?? id).join(', ')}
+                    </p>
+                  )}
                   
                   {/* Progress Bar */}
-                  <div className="mb-2">
-                    <div className="flex justify-between text-xs mb-1">
-                      <span className={achievement.unlocked ? 'text-green-400' : 'text-gray-400'}>
-                        Progress: {achievement.progress}/{achievement.maxProgress}
-                      </span>
-                      <span className={achievement.unlocked ? 'text-green-400' : 'text-gray-400'}>
-                        {Math.round((achievement.progress / achievement.maxProgress) * 100)}%
-                      </span>
-                    </div>
-                    <div className="w-full bg-gray-700 rounded-full h-2">
-                      <div 
-                        className={`h-2 rounded-full transition-all duration-300 ${
-                          achievement.unlocked 
-                            ? 'bg-gradient-to-r from-green-500 to-green-400' 
-                            : 'bg-gradient-to-r from-gray-600 to-gray-500'
-                        }`}
-                        style={{ width: `${(achievement.progress / achievement.maxProgress) * 100}%` }}
-                      />
+                  {!secret && (
+                    <div className="mb-2">
+                      <div className="flex justify-between text-xs mb-1">
+                        <span className={achievement.unlocked ? 'text-green-400' : 'text-gray-400'}>
+                          Progress: {achievement.progress}/{achievement.maxProgress}
+                        </span>
+                        <span className={achievement.unlocked ? 'text-green-400' : 'text-gray-400'}>
+                          {Math.round((achievement.progress / achievement.maxProgress) * 100)}%
+                        </span>
+                      </div>
+                      <div className="w-full bg-gray-700 rounded-full h-2">
+                        <div 
+                          className={`h-2 rounded-full transition-all duration-300 ${
+                            achievement.unlocked 
+                              ? 'bg-gradient-to-r from-green-500 to-green-400' 
+                              : 'bg-gradient-to-r from-gray-600 to-gray-500'
+                          }`}
+                          style={{ width: `${(achievement.progress / achievement.maxProgress) * 100}%` }}
+                        />
+                      </div>
                     </div>
-                  </div>
+                  )}
 
                   {/* Rewards */}
-                  {achievement.reward && (
+                  {achievement.reward && !secret && (
                     <div className="flex items-center gap-2 text-xs">
                       <Gift className="w-3 h-3 text-purple-400" />
                       <div className="flex gap-2">
@@ -152,7 +180,8 @@ export const Achievements: React.FC<AchievementsProps> = ({ achievements, onClos
                 </div>
               </div>
             </div>
-          ))}
+            );
+          })}
         </div>
 
         {filteredAchievements.length === 0 && (
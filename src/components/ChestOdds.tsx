@@ -0,0 +1,60 @@
+import React from 'react';
+import { ItemKind } from '../types/game';
+import { getRarityColor, RARITY_ORDER } from '../utils/gameUtils';
+import { ITEM_KIND_LABELS } from '../utils/equipment';
+import { ChestDefinition, getKindOdds, getRarityOdds } from '../utils/chests';
+
+interface ChestOddsProps {
+  chest: ChestDefinition;
+}
+
+// Two decimals so small chances such as 0.35% do not round away to nothing
+const formatChance = (chance: number) => `${Number((chance * 100).toFixed(2))}%`;
+
+const formatRange = ({ min, max }: { min: number; max: number }) => (min === max ? `${min}` : `${min}-${max}`);
+
+export const ChestOdds: React.FC<ChestOddsProps> = ({ chest }) => {
+  const freeOdds = getRarityOdds(chest);
+  const freeSlots = chest.itemCount.max - chest.guaranteedSlots.length;
+  const columns = [
+    ...chest.guaranteedSlots.map((minRarity, index) => ({
+      label: `Item ${index + 1} (${minRarity}+)`,
+      odds: getRarityOdds(chest, minRarity),
+    })),
+    ...(freeSlots > 0 ? [{ label: chest.guaranteedSlots.length > 0 ? 'Other items' : 'Each item', odds: freeOdds }] : []),
+  ];
+  const kindOdds = getKindOdds();
+
+  return (
+    <div className="mt-3 p-2 bg-black/40 rounded border border-yellow-600/30 text-xs space-y-2">
+      <p className="text-gray-300">
+        {formatRange(chest.itemCount)} items · {formatRange(chest.gems)} bonus gems (before streak bonus)
+      </p>
+      <table className="w-full text-left">
+        <thead>
+          <tr className="text-gray-400">
+            <th className="font-normal">Rarity</th>
+            {columns.map(column => (
+              <th key={column.label} className="font-normal text-right capitalize">{column.label}</th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {RARITY_ORDER.map(rarity => (
+            <tr key={rarity}>
+              <td className={`capitalize ${getRarityColor(rarity)}`}>{rarity === 'mythical' ? 'Mythical (Chroma)' : rarity}</td>
+              {columns.map(column => (
+                <td key={column.label} className="text-right text-white">{formatChance(column.odds[rarity])}</td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <p className="text-gray-400">
+        Item type: {(Object.keys(kindOdds) as ItemKind[])
+          .map(kind => `${ITEM_KIND_LABELS[kind]} ${formatChance(kindOdds[kind])}`)
+          .join(' · ')}
+      </p>
+    </div>
+  );
+};
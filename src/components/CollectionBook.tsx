@@ -1,12 +1,18 @@
 import React, { useState } from 'react';
-import { CollectionBook as CollectionBookType, Weapon, Armor } from '../types/game';
-import { Book, Sword, Shield, Star, X, Trophy } from 'lucide-react';
+import { CollectionBook as CollectionBookType, Weapon, Armor, Gear, Item } from '../types/game';
+import { Book, Sword, Shield, Star, X, Trophy, Sparkles, Crown, Layers } from 'lucide-react';
 import { getRarityColor, getRarityBorder } from '../utils/gameUtils';
+import { AFFIX_DEFINITIONS, describeAffix, getItemDisplayName } from '../utils/affixes';
+import { ItemAffixes } from './ItemAffixes';
+import { ITEM_KIND_LABELS, describeItemStats, getItemKind } from '../utils/equipment';
+import { ITEM_SETS, countSetPieces, describeSetBonus } from '../utils/itemSets';
 
 interface CollectionBookProps {
   collectionBook: CollectionBookType;
   allWeapons: Weapon[];
   allArmor: Armor[];
+  allGear: Gear[];
+  equippedItems: Item[];
   onClose: () => void;
 }
 
@@ -14,9 +20,11 @@ export const CollectionBook: React.FC<CollectionBookProps> = ({
   collectionBook, 
   allWeapons, 
   allArmor, 
+  allGear,
+  equippedItems,
   onClose 
 }) => {
-  const [activeTab, setActiveTab] = useState<'weapons' | 'armor' | 'stats'>('weapons');
+  const [activeTab, setActiveTab] = useState<'weapons' | 'armor' | 'gear' | 'affixes' | 'sets' | 'stats'>('weapons');
 
   const discoveredWeapons = allWeapons.filter(weapon => 
     collectionBook.weapons[weapon.name] || false
@@ -26,7 +34,18 @@ export const CollectionBook: React.FC<CollectionBookProps> = ({
     collectionBook.armor[armor.name] || false
   );
 
-  const totalItems = collectionBook.totalWeaponsFound + collectionBook.totalArmorFound;
+  const discoveredGear = allGear.filter(gear =>
+    collectionBook.gear[gear.name] || false
+  );
+
+  const discoveredAffixCount = AFFIX_DEFINITIONS.filter(affix => collectionBook.affixes[affix.id]).length;
+
+  const isPieceDiscovered = (name: string) =>
+    !!(collectionBook.weapons[name] || collectionBook.armor[name] || collectionBook.gear[name]);
+  const equippedNames = equippedItems.map(item => item.name);
+  const completedSetCount = ITEM_SETS.filter(set => set.pieces.every(isPieceDiscovered)).length;
+
+  const totalItems = collectionBook.totalWeaponsFound + collectionBook.totalArmorFound + collectionBook.totalGearFound;
   const totalRarityItems = Object.values(collectionBook.rarityStats).reduce((a, b) => a + b, 0);
 
   const renderRarityStats = () => (
@@ -40,6 +59,7 @@ export const CollectionBook: React.FC<CollectionBookProps> = ({
           <div className="text-sm text-gray-300 mt-1">
             <p>Weapons: {collectionBook.totalWeaponsFound}</p>
             <p>Armor: {collectionBook.totalArmorFound}</p>
+            <p>Gear: {collectionBook.totalGearFound}</p>
           </div>
         </div>
 
@@ -78,7 +98,7 @@ export const CollectionBook: React.FC<CollectionBookProps> = ({
     </div>
   );
 
-  const renderItemGrid = (items: (Weapon | Armor)[], type: 'weapon' | 'armor') => (
+  const renderItemGrid = (items: Item[], type: 'weapon' | 'armor' | 'gear') => (
     <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3">
       {items.map((item, index) => (
         <div
@@ -88,30 +108,103 @@ export const CollectionBook: React.FC<CollectionBookProps> = ({
           <div className="flex items-center gap-2 mb-2">
             {type === 'weapon' ? (
               <Sword className="w-4 h-4 text-orange-400" />
-            ) : (
+            ) : type === 'armor' ? (
               <Shield className="w-4 h-4 text-blue-400" />
+            ) : (
+              <Crown className="w-4 h-4 text-emerald-400" />
             )}
             <h4 className={`font-semibold text-sm ${getRarityColor(item.rarity)}`}>
-              {item.name}
+              {getItemDisplayName(item)}
             </h4>
           </div>
           <div className="text-xs text-gray-300 space-y-1">
-            <p className="capitalize">{item.rarity} Rarity</p>
-            <p>
-              {type === 'weapon' 
-                ? `ATK: ${(item as Weapon).baseAtk}` 
-                : `DEF: ${(item as Armor).baseDef}`
-              }
-            </p>
+            <p className="capitalize">{item.rarity} {ITEM_KIND_LABELS[getItemKind(item)]}</p>
+            <p>{describeItemStats(item)}</p>
             {item.isChroma && (
               <p className="text-red-400 font-semibold">✨ Chroma Variant</p>
             )}
+            <ItemAffixes affixes={item.affixes} />
           </div>
         </div>
       ))}
     </div>
   );
 
+  // Undiscovered affixes stay hidden, but the player can see how many are left
+  const renderAffixGrid = () => (
+    <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3">
+      {AFFIX_DEFINITIONS.map(affix => {
+        const discovered = collectionBook.affixes[affix.id] || false;
+        return (
+          <div
+            key={affix.id}
+            className={`p-3 rounded-lg border-2 bg-black/40 ${discovered ? 'border-emerald-400' : 'border-gray-600'}`}
+          >
+            <div className="flex items-center gap-2 mb-1">
+              <Sparkles className={`w-4 h-4 ${discovered ? 'text-emerald-400' : 'text-gray-500'}`} />
+              <h4 className={`font-semibold text-sm ${discovered ? 'text-white' : 'text-gray-500'}`}>
+                {discovered ? affix.name : '???'}
+              </h4>
+            </div>
+            <div className="text-xs text-gray-300 space-y-1">
+              <p className="capitalize">{affix.kind} - {affix.slots.join(' / ')}</p>
+              {discovered && <p className="text-emerald-300">{describeAffix({ ...affix, value: affix.baseValue })} (base)</p>}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+
+  // Set pieces count as discovered once any copy has been catalogued
+  const renderSetGrid = () => (
+    <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+      {ITEM_SETS.map(set => {
+        const discovered = set.pieces.filter(isPieceDiscovered).length;
+        const equipped = countSetPieces(set, equippedNames);
+        return (
+          <div key={set.id} className="p-3 rounded-lg border-2 border-amber-500/50 bg-black/40">
+            <div className="flex items-center justify-between mb-2">
+              <div className="flex items-center gap-2">
+                <Layers className="w-4 h-4 text-amber-400" />
+                <h4 className="font-semibold text-sm text-white">{set.name}</h4>
+              </div>
+              <span className="text-xs text-gray-300">{discovered}/{set.pieces.length} found</span>
+            </div>
+            <div className="w-full bg-gray-700 rounded-full h-2 mb-2">
+              <div
+                className="h-2 rounded-full bg-amber-400"
+                style={{ width: `${(discovered / set.pieces.length) * 100}%` }}
+              />
+            </div>
+            <div className="flex flex-wrap gap-1 mb-2">
+              {set.pieces.map(piece => (
+                <span
+                  key={piece}
+                  className={`px-2 py-0.5 rounded text-xs ${
+                    equippedNames.includes(piece)
+                      ? 'bg-amber-600 text-white'
+                      : isPieceDiscovered(piece) ? 'bg-gray-700 text-gray-200' : 'bg-gray-800 text-gray-500'
+                  }`}
+                >
+                  {isPieceDiscovered(piece) ? piece : '???'}
+                </span>
+              ))}
+            </div>
+            <div className="text-xs space-y-1">
+              {set.bonuses.map(bonus => (
+                <p key={bonus.pieces} className={equipped >= bonus.pieces ? 'text-amber-300' : 'text-gray-400'}>
+                  ({bonus.pieces}) {describeSetBonus(bonus)}
+                </p>
+              ))}
+              <p className="text-gray-300">Equipped: {equipped}</p>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+
   return (
     <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 p-4">
       <div className="bg-gradient-to-br from-indigo-900 to-purple-900 p-4 sm:p-6 rounded-lg border border-indigo-500/50 max-w-6xl w-full max-h-[80vh] overflow-y-auto">
@@ -138,6 +231,9 @@ export const CollectionBook: React.FC<CollectionBookProps> = ({
           {[
             { key: 'weapons', label: 'Weapons', count: discoveredWeapons.length, icon: Sword },
             { key: 'armor', label: 'Armor', count: discoveredArmor.length, icon: Shield },
+            { key: 'gear', label: 'Gear', count: discoveredGear.length, icon: Crown },
+            { key: 'affixes', label: 'Affixes', count: discoveredAffixCount, icon: Sparkles },
+            { key: 'sets', label: 'Sets', count: completedSetCount, icon: Layers },
             { key: 'stats', label: 'Statistics', icon: Trophy }
           ].map(({ key, label, count, icon: Icon }) => (
             <button
@@ -196,6 +292,41 @@ export const CollectionBook: React.FC<CollectionBookProps> = ({
             </div>
           )}
 
+          {activeTab === 'gear' && (
+            <div>
+              <h3 className="text-white font-bold text-lg mb-4">
+                Discovered Gear ({discoveredGear.length})
+              </h3>
+              {discoveredGear.length > 0 ? (
+                renderItemGrid(discoveredGear, 'gear')
+              ) : (
+                <div className="text-center py-12">
+                  <Crown className="w-16 h-16 text-gray-500 mx-auto mb-4" />
+                  <p className="text-gray-400 text-lg">No gear discovered yet</p>
+                  <p className="text-gray-500 text-sm">Helms, boots, rings, amulets and off-hands drop from chests and enemies!</p>
+                </div>
+              )}
+            </div>
+          )}
+
+          {activeTab === 'affixes' && (
+            <div>
+              <h3 className="text-white font-bold text-lg mb-4">
+                Discovered Affixes ({discoveredAffixCount}/{AFFIX_DEFINITIONS.length})
+              </h3>
+              {renderAffixGrid()}
+            </div>
+          )}
+
+          {activeTab === 'sets' && (
+            <div>
+              <h3 className="text-white font-bold text-lg mb-4">
+                Item Sets ({completedSetCount}/{ITEM_SETS.length} complete)
+              </h3>
+              {renderSetGrid()}
+            </div>
+          )}
+
           {activeTab === 'stats' && renderRarityStats()}
         </div>
       </div>
@@ -1,7 +1,12 @@
-import React, { useState, useEffect } from 'react';
-import { Enemy } from '../types/game';
-import { Sword, Shield, Heart, Brain, Clock, Zap } from 'lucide-react';
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { Enemy, QuestionHistory, QuestionAnswer, QuestionResponse, DifficultySettings, AffixBonuses } from '../types/game';
+import { deriveRng } from '../utils/rng';
+import { Sword, Shield, Heart, Brain, Clock, Zap, Crown, Flame, Swords, ShieldPlus } from 'lucide-react';
 import { TriviaQuestion, getQuestionByZone } from '../utils/triviaQuestions';
+import { GradeResult, gradeAnswer, getTimeLimit, describeCorrectAnswer } from '../utils/questionGrading';
+import { isQuickAnswer } from '../utils/answerBonus';
+import { QuestionInput } from './QuestionInput';
+import { ENEMY_ABILITY_INFO, SHIELD_BLOCK } from '../utils/enemies';
 
 interface CombatProps {
   enemy: Enemy;
@@ -10,8 +15,13 @@ interface CombatProps {
     maxHp: number;
     atk: number;
     def: number;
+    bonuses: AffixBonuses;
   };
-  onAttack: (hit: boolean, category?: string) => void;
+  onAttack: (hit: boolean, answer?: QuestionAnswer) => boolean; // false once the fight is over
+  questionPool: TriviaQuestion[];
+  questionHistory: QuestionHistory;
+  difficultySettings: DifficultySettings;
+  rngSeed: number;
   combatLog: string[];
   gameMode: {
     current: 'normal' | 'speed' | 'survival';
@@ -30,27 +40,65 @@ export const Combat: React.FC<CombatProps> = ({
   enemy, 
   playerStats, 
   onAttack, 
+  questionPool,
+  questionHistory,
+  difficultySettings,
+  rngSeed,
   combatLog, 
   gameMode,
   knowledgeStreak 
 }) => {
   const [currentQuestion, setCurrentQuestion] = useState<TriviaQuestion | null>(null);
-  const [selectedAnswer, setSelectedAnswer] = useState<number | null>(null);
+  const [submittedResponse, setSubmittedResponse] = useState<QuestionResponse | undefined>(undefined);
   const [isAnswering, setIsAnswering] = useState(false);
   const [timeLeft, setTimeLeft] = useState(5);
   const [showResult, setShowResult] = useState(false);
-  const [lastAnswerCorrect, setLastAnswerCorrect] = useState<boolean | null>(null);
+  const [lastGrade, setLastGrade] = useState<GradeResult | null>(null);
+  const [lastAnswer, setLastAnswer] = useState<QuestionAnswer | null>(null);
+
+  // Ids asked this fight; the saved history only catches up once an answer is applied
+  const askedIdsRef = useRef<string[]>([]);
+  const questionShownAtRef = useRef(Date.now());
 
   const questionTime = gameMode.speedModeActive ? 3 : 5;
+  // Affixes can add seconds on top of the per-question limit
+  const getQuestionTimeLimit = (question: TriviaQuestion) =>
+    getTimeLimit(question, questionTime) + playerStats.bonuses.bonusTime;
+  const timeLimit = currentQuestion ? getQuestionTimeLimit(currentQuestion) : questionTime;
+
+  // Everything a pick reads changes between turns (history, difficulty, time bonuses);
+  // reading it through a ref means only a new fight or an answer asks a new question
+  const pickInputs = { zone: enemy.zone, questionPool, questionHistory, difficultySettings, rngSeed, getQuestionTimeLimit };
+  const pickInputsRef = useRef(pickInputs);
+  pickInputsRef.current = pickInputs;
+
+  const showNextQuestion = useCallback(() => {
+    const inputs = pickInputsRef.current;
+    // Combat cannot advance the saved RNG, so questions come from a stream keyed
+    // by the seed and how far the player has got; a replay asks the same questions
+    const question = getQuestionByZone(inputs.zone, inputs.questionPool, {
+      rng: deriveRng(inputs.rngSeed, 'question', inputs.questionHistory.turn, askedIdsRef.current.join(',')),
+      history: inputs.questionHistory,
+      avoidIds: askedIdsRef.current,
+      difficultySettings: inputs.difficultySettings,
+    });
+    askedIdsRef.current = [...askedIdsRef.current.slice(-4), question.id];
+    questionShownAtRef.current = Date.now();
 
-  useEffect(() => {
-    const question = getQuestionByZone(enemy.zone);
     setCurrentQuestion(question);
-    setSelectedAnswer(null);
-    setTimeLeft(questionTime);
+    setSubmittedResponse(undefined);
+    setIsAnswering(false);
+    setTimeLeft(inputs.getQuestionTimeLimit(question));
     setShowResult(false);
-    setLastAnswerCorrect(null);
-  }, [enemy, questionTime]);
+    setLastGrade(null);
+    setLastAnswer(null);
+  }, []);
+
+  // Keyed on the fight, not the enemy object the engine replaces on every hit;
+  // showNextQuestion never changes
+  useEffect(() => {
+    showNextQuestion();
+  }, [enemy.id, showNextQuestion]);
 
   useEffect(() => {
     if (!currentQuestion || isAnswering || showResult) return;
@@ -68,26 +116,31 @@ export const Combat: React.FC<CombatProps> = ({
     return () => clearInterval(timer);
   }, [currentQuestion, isAnswering, showResult]);
 
-  const handleAnswer = (answerIndex: number | null) => {
+  const handleAnswer = (response: QuestionResponse) => {
     if (isAnswering || !currentQuestion) return;
 
     setIsAnswering(true);
-    setSelectedAnswer(answerIndex);
+    setSubmittedResponse(response);
 
-    const isCorrect = answerIndex === currentQuestion.correctAnswer;
-    setLastAnswerCorrect(isCorrect);
+    const grade = gradeAnswer(currentQuestion, response);
+    setLastGrade(grade);
     setShowResult(true);
 
+    const answer: QuestionAnswer = {
+      questionId: currentQuestion.id,
+      category: currentQuestion.category,
+      difficulty: currentQuestion.difficulty,
+      responseTime: response === null
+        ? timeLimit
+        : Math.min(timeLimit, (Date.now() - questionShownAtRef.current) / 1000),
+      timeLimit,
+      credit: grade.credit,
+    };
+    setLastAnswer(answer);
+
     setTimeout(() => {
-      onAttack(isCorrect, currentQuestion.category);
-      
-      const newQuestion = getQuestionByZone(enemy.zone);
-      setCurrentQuestion(newQuestion);
-      setSelectedAnswer(null);
-      setIsAnswering(false);
-      setTimeLeft(questionTime);
-      setShowResult(false);
-      setLastAnswerCorrect(null);
+      // The killing blow or a defeat closes this screen; there is no next question to ask
+      if (onAttack(grade.credit > 0, answer)) showNextQuestion();
     }, 2000);
   };
 
@@ -109,6 +162,14 @@ export const Combat: React.FC<CombatProps> = ({
     }
   };
 
+  const getIntentDisplay = () => {
+    switch (enemy.intent) {
+      case 'double-strike': return { label: 'Double Strike', icon: Swords, color: 'text-red-400' };
+      case 'shield': return { label: `Shield (blocks ${SHIELD_BLOCK * 100}%)`, icon: ShieldPlus, color: 'text-blue-400' };
+      default: return { label: 'Attack', icon: Sword, color: 'text-orange-400' };
+    }
+  };
+
   if (!currentQuestion) {
     return (
       <div className="bg-gradient-to-br from-red-900 via-purple-900 to-black p-3 sm:p-6 rounded-lg shadow-2xl">
@@ -120,6 +181,9 @@ export const Combat: React.FC<CombatProps> = ({
     );
   }
 
+  const intent = getIntentDisplay();
+  const IntentIcon = intent.icon;
+
   return (
     <div className="bg-gradient-to-br from-red-900 via-purple-900 to-black p-3 sm:p-6 rounded-lg shadow-2xl">
       <div className="text-center mb-4 sm:mb-6">
@@ -129,7 +193,15 @@ export const Combat: React.FC<CombatProps> = ({
             <Zap className="w-5 h-5 text-yellow-400 animate-pulse" />
           )}
         </div>
-        <p className="text-red-300 text-base sm:text-lg font-semibold">{enemy.name}</p>
+        <p className="text-red-300 text-base sm:text-lg font-semibold flex items-center justify-center gap-2">
+          {enemy.isBoss && <Crown className="w-5 h-5 text-yellow-400" />}
+          {enemy.name}
+          {enemy.isBoss && enemy.phases[enemy.phase] && (
+            <span className="text-xs px-2 py-0.5 rounded bg-yellow-700 text-yellow-100">
+              BOSS - {enemy.phases[enemy.phase].name}
+            </span>
+          )}
+        </p>
         
         {/* Game Mode Info */}
         <div className="flex items-center justify-center gap-4 mt-2 text-sm">
@@ -202,6 +274,38 @@ export const Combat: React.FC<CombatProps> = ({
               {enemy.def}
             </span>
           </div>
+
+          {/* Intent and active effects */}
+          <div className="flex flex-wrap items-center gap-2 mt-2 text-xs sm:text-sm">
+            <span className={`flex items-center gap-1 ${intent.color}`}>
+              <IntentIcon className="w-3 h-3 sm:w-4 sm:h-4" />
+              Next: {intent.label}
+            </span>
+            {enemy.enraged && (
+              <span className="flex items-center gap-1 px-2 py-0.5 rounded bg-red-800 text-red-200">
+                <Flame className="w-3 h-3" />
+                Enraged
+              </span>
+            )}
+          </div>
+
+          {enemy.abilities.length > 0 && (
+            <div className="mt-2 space-y-1">
+              {enemy.abilities.map(ability => (
+                <p key={ability} className="text-xs text-gray-400">
+                  <span className="text-purple-300 font-semibold">{ENEMY_ABILITY_INFO[ability].name}:</span>{' '}
+                  {ENEMY_ABILITY_INFO[ability].description}
+                </p>
+              ))}
+            </div>
+          )}
+
+          {(enemy.weakness || enemy.resistance) && (
+            <div className="flex flex-wrap gap-2 sm:gap-4 mt-2 text-xs">
+              {enemy.weakness && <span className="text-green-400">Weak to {enemy.weakness}</span>}
+              {enemy.resistance && <span className="text-gray-400">Resists {enemy.resistance}</span>}
+            </div>
+          )}
         </div>
       </div>
 
@@ -234,57 +338,47 @@ export const Combat: React.FC<CombatProps> = ({
             {currentQuestion.question}
           </p>
 
-          {/* Answer Options */}
-          <div className="grid grid-cols-1 gap-2 sm:gap-3">
-            {currentQuestion.options.map((option, index) => {
-              let buttonClass = 'bg-gray-700 hover:bg-gray-600 text-white';
-              
-              if (showResult) {
-                if (index === currentQuestion.correctAnswer) {
-                  buttonClass = 'bg-green-600 text-white';
-                } else if (index === selectedAnswer && selectedAnswer !== currentQuestion.correctAnswer) {
-                  buttonClass = 'bg-red-600 text-white';
-                } else {
-                  buttonClass = 'bg-gray-600 text-gray-400';
-                }
-              } else if (selectedAnswer === index) {
-                buttonClass = 'bg-blue-600 text-white';
-              }
-
-              return (
-                <button
-                  key={index}
-                  onClick={() => handleAnswer(index)}
-                  disabled={isAnswering || showResult}
-                  className={`p-2 sm:p-3 rounded-lg font-semibold transition-all duration-200 text-left text-xs sm:text-sm ${buttonClass} ${
-                    !isAnswering && !showResult ? 'hover:scale-102' : 'cursor-not-allowed'
-                  }`}
-                >
-                  <span className="font-bold mr-2">{String.fromCharCode(65 + index)}.</span>
-                  {option}
-                </button>
-              );
-            })}
-          </div>
+          <QuestionInput
+            key={currentQuestion.id}
+            question={currentQuestion}
+            submitted={submittedResponse}
+            disabled={isAnswering || showResult}
+            onSubmit={handleAnswer}
+            rngSeed={rngSeed}
+          />
         </div>
 
         {/* Result Feedback */}
         {showResult && (
           <div className={`text-center p-3 sm:p-4 rounded-lg ${
-            lastAnswerCorrect 
+            lastGrade?.correct
               ? 'bg-green-900/50 border border-green-500' 
-              : 'bg-red-900/50 border border-red-500'
+              : lastGrade && lastGrade.credit > 0
+                ? 'bg-yellow-900/50 border border-yellow-500'
+                : 'bg-red-900/50 border border-red-500'
           }`}>
             <p className={`font-bold text-sm sm:text-base ${
-              lastAnswerCorrect ? 'text-green-400' : 'text-red-400'
+              lastGrade?.correct ? 'text-green-400' : lastGrade && lastGrade.credit > 0 ? 'text-yellow-400' : 'text-red-400'
             }`}>
-              {lastAnswerCorrect 
+              {lastGrade?.correct
                 ? '🎉 Correct! You deal damage!' 
-                : '❌ Wrong! The enemy attacks you!'}
+                : lastGrade && lastGrade.credit > 0
+                  ? `🤏 Partly right! You deal ${Math.round(lastGrade.credit * 100)}% damage.`
+                  : '❌ Wrong! The enemy attacks you!'}
             </p>
-            {!lastAnswerCorrect && (
+            {lastGrade?.correct && lastAnswer && isQuickAnswer(lastAnswer) && (
+              <p className="text-yellow-300 text-xs sm:text-sm mt-1">
+                ⚡ Quick answer! Bonus damage and a higher crit chance.
+              </p>
+            )}
+            {!lastGrade?.correct && (
               <p className="text-gray-300 text-xs sm:text-sm mt-1">
-                Correct answer: {String.fromCharCode(65 + currentQuestion.correctAnswer)}. {currentQuestion.options[currentQuestion.correctAnswer]}
+                Correct answer: {describeCorrectAnswer(currentQuestion)}
+              </p>
+            )}
+            {currentQuestion.explanation && (
+              <p className="text-gray-400 text-xs sm:text-sm mt-1 italic">
+                {currentQuestion.explanation}
               </p>
             )}
           </div>
@@ -297,7 +391,7 @@ export const Combat: React.FC<CombatProps> = ({
           <p className={`text-xs font-semibold ${
             gameMode.speedModeActive ? 'text-yellow-400' : 'text-red-400'
           }`}>
-            ⚠️ Only {questionTime} seconds to answer!
+            ⚠️ Only {timeLimit} seconds to answer!
           </p>
         </div>
       </div>
@@ -0,0 +1,227 @@
+import React, { useState } from 'react';
+import { CollectionBook, Inventory, Item, Materials, Research } from '../types/game';
+import { Hammer, Recycle, Dices, ArrowUpCircle, Combine, Sparkles } from 'lucide-react';
+import { getRarityColor, getRarityBorder, RARITY_ORDER } from '../utils/gameUtils';
+import { getItemDisplayName } from '../utils/affixes';
+import {
+  ITEM_KIND_LABELS, canDiscardItem, describeItemStats, getAllItems, getItemKind, isItemEquipped, isItemLocked,
+} from '../utils/equipment';
+import {
+  MATERIAL_NAMES, RECIPES, FUSE_COUNT, canAfford, canAscend, canFuse, canReroll, describeMaterials,
+  getCraftableTemplates, getFusionMaterials, getRecipeCost, getSalvageYield,
+} from '../utils/crafting';
+import { hasRoomForItem } from '../utils/inventoryCapacity';
+import { ItemAffixes } from './ItemAffixes';
+
+interface CraftingProps {
+  inventory: Inventory;
+  research: Research;
+  collectionBook: CollectionBook;
+  materials: Materials;
+  onSalvage: (itemId: string) => void;
+  onReroll: (itemId: string) => void;
+  onAscend: (itemId: string) => void;
+  onFuse: (itemId: string) => void;
+  onCraft: (name: string) => void;
+}
+
+export const Crafting: React.FC<CraftingProps> = ({
+  inventory,
+  research,
+  collectionBook,
+  materials,
+  onSalvage,
+  onReroll,
+  onAscend,
+  onFuse,
+  onCraft,
+}) => {
+  const [activeTab, setActiveTab] = useState<'forge' | 'craft'>('forge');
+  const [showSalvageConfirm, setShowSalvageConfirm] = useState<string | null>(null);
+
+  const items = getAllItems(inventory);
+  const craftable = getCraftableTemplates(collectionBook);
+  const hasRoom = hasRoomForItem(inventory, research);
+
+  const handleSalvage = (itemId: string) => {
+    onSalvage(itemId);
+    setShowSalvageConfirm(null);
+  };
+
+  const recipeButton = (
+    label: string,
+    icon: React.ElementType,
+    cost: Partial<Materials>,
+    enabled: boolean,
+    onClick: () => void
+  ) => {
+    const Icon = icon;
+    const affordable = enabled && canAfford(materials, cost);
+    return (
+      <button
+        onClick={onClick}
+        disabled={!affordable}
+        className={`py-1.5 px-2 rounded text-xs font-semibold transition-all flex items-center justify-center gap-1 ${
+          affordable ? 'bg-amber-600 text-white hover:bg-amber-500' : 'bg-gray-600 text-gray-400 cursor-not-allowed'
+        }`}
+      >
+        <Icon className="w-3 h-3" />
+        {label} ({describeMaterials(cost)})
+      </button>
+    );
+  };
+
+  const renderItem = (item: Item) => {
+    const equipped = isItemEquipped(inventory, item.id);
+    const discardable = canDiscardItem(inventory, item.id);
+    const copies = getFusionMaterials(inventory, item).length;
+
+    return (
+      <div key={item.id} className={`p-3 rounded-lg border-2 ${getRarityBorder(item.rarity)} bg-black/40`}>
+        <div className="flex items-center justify-between mb-1">
+          <h4 className={`font-semibold text-sm ${getRarityColor(item.rarity)}`}>{getItemDisplayName(item)}</h4>
+          {equipped && <span className="text-xs bg-green-600 text-white px-2 py-0.5 rounded">Equipped</span>}
+          {isItemLocked(inventory, item.id) && <span className="text-xs bg-yellow-600 text-white px-2 py-0.5 rounded">Locked</span>}
+        </div>
+        <div className="text-xs text-gray-300 space-y-1 mb-2">
+          <p className="capitalize">{item.rarity} {ITEM_KIND_LABELS[getItemKind(item)]} - Level {item.level}</p>
+          <p>{describeItemStats(item)}</p>
+          <ItemAffixes affixes={item.affixes} />
+        </div>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-1">
+          {canReroll(item) && recipeButton(
+            'Reroll', Dices, getRecipeCost('reroll', item.rarity), true, () => onReroll(item.id)
+          )}
+          {canAscend(item) && recipeButton(
+            'Ascend', ArrowUpCircle, getRecipeCost('ascend', item.rarity), true, () => onAscend(item.id)
+          )}
+          {item.rarity !== 'mythical' && recipeButton(
+            `Fuse ${Math.min(copies, FUSE_COUNT)}/${FUSE_COUNT}`,
+            Combine,
+            getRecipeCost('fuse', item.rarity),
+            canFuse(inventory, item),
+            () => onFuse(item.id)
+          )}
+          <button
+            onClick={() => setShowSalvageConfirm(item.id)}
+            disabled={!discardable}
+            className={`py-1.5 px-2 rounded text-xs font-semibold transition-all flex items-center justify-center gap-1 ${
+              discardable ? 'bg-red-600 text-white hover:bg-red-500' : 'bg-gray-600 text-gray-400 cursor-not-allowed'
+            }`}
+          >
+            <Recycle className="w-3 h-3" />
+            Salvage (+{describeMaterials(getSalvageYield(item))})
+          </button>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="bg-gradient-to-br from-amber-900 via-orange-900 to-stone-900 p-4 sm:p-6 rounded-lg shadow-2xl">
+      <div className="text-center mb-4 sm:mb-6">
+        <h2 className="text-xl sm:text-2xl font-bold text-white mb-2">Forge</h2>
+        <p className="text-amber-300 text-xs sm:text-sm">Salvage unwanted items into materials, then spend them on recipes</p>
+      </div>
+
+      {/* Materials */}
+      <div className="grid grid-cols-2 sm:grid-cols-5 gap-2 mb-4 sm:mb-6">
+        {RARITY_ORDER.map(rarity => (
+          <div key={rarity} className="bg-black/30 p-2 rounded-lg text-center">
+            <p className={`text-xs font-semibold ${getRarityColor(rarity)}`}>{MATERIAL_NAMES[rarity]}</p>
+            <p className="text-lg font-bold text-white">{materials[rarity]}</p>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex gap-2 mb-4">
+        {[
+          { key: 'forge', label: 'Reforge & Salvage', icon: Hammer },
+          { key: 'craft', label: 'Craft', icon: Sparkles },
+        ].map(({ key, label, icon: Icon }) => (
+          <button
+            key={key}
+            onClick={() => setActiveTab(key as 'forge' | 'craft')}
+            className={`flex items-center gap-2 px-3 py-2 rounded-lg text-sm font-semibold transition-all ${
+              activeTab === key ? 'bg-amber-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+            }`}
+          >
+            <Icon className="w-4 h-4" />
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {activeTab === 'forge' && (
+        <div>
+          <div className="text-xs text-gray-300 mb-3 space-y-0.5">
+            {(['reroll', 'ascend', 'fuse'] as const).map(recipe => (
+              <p key={recipe}><span className="text-amber-300 font-semibold">{RECIPES[recipe].name}:</span> {RECIPES[recipe].description}</p>
+            ))}
+          </div>
+          {items.length > 0 ? (
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              {items.map(renderItem)}
+            </div>
+          ) : (
+            <div className="text-center py-8">
+              <Hammer className="w-12 h-12 text-gray-500 mx-auto mb-3" />
+              <p className="text-gray-400">No items to work with</p>
+              <p className="text-gray-500 text-sm">Open chests and defeat enemies to find items!</p>
+            </div>
+          )}
+        </div>
+      )}
+
+      {activeTab === 'craft' && (
+        <div>
+          <p className="text-xs text-gray-300 mb-3">{RECIPES.craft.description}</p>
+          {!hasRoom && <p className="text-xs text-red-300 mb-3">Your bag and stash are full. Make room before crafting.</p>}
+          {craftable.length > 0 ? (
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              {craftable.map(template => (
+                <div key={template.name} className={`p-3 rounded-lg border-2 ${getRarityBorder(template.rarity)} bg-black/40`}>
+                  <h4 className={`font-semibold text-sm ${getRarityColor(template.rarity)}`}>{template.name}</h4>
+                  <p className="text-xs text-gray-300 capitalize mb-2">{template.rarity} {ITEM_KIND_LABELS[template.kind]}</p>
+                  {recipeButton('Craft', Hammer, getRecipeCost('craft', template.rarity), hasRoom, () => onCraft(template.name))}
+                </div>
+              ))}
+            </div>
+          ) : (
+            <div className="text-center py-8">
+              <Sparkles className="w-12 h-12 text-gray-500 mx-auto mb-3" />
+              <p className="text-gray-400">Nothing to craft yet</p>
+              <p className="text-gray-500 text-sm">Discover items to add their recipes to your Collection Book</p>
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Salvage Confirmation Modal */}
+      {showSalvageConfirm && (
+        <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 p-4">
+          <div className="bg-gray-800 p-4 sm:p-6 rounded-lg border border-gray-600 max-w-sm w-full">
+            <h3 className="text-white font-bold text-lg mb-4 text-center">Confirm Salvage</h3>
+            <p className="text-gray-300 text-center mb-6 text-sm sm:text-base">
+              This item will be destroyed. This action cannot be undone.
+            </p>
+            <div className="flex gap-3">
+              <button
+                onClick={() => handleSalvage(showSalvageConfirm)}
+                className="flex-1 py-2 bg-red-600 text-white rounded-lg hover:bg-red-500 transition-colors text-sm sm:text-base"
+              >
+                Salvage
+              </button>
+              <button
+                onClick={() => setShowSalvageConfirm(null)}
+                className="flex-1 py-2 bg-gray-600 text-white rounded-lg hover:bg-gray-500 transition-colors text-sm sm:text-base"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
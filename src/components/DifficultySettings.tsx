@@ -0,0 +1,202 @@
+import React from 'react';
+import { DifficultySettings as DifficultySettingsType, DifficultyMode, DifficultyRules, QuestionDifficulty } from '../types/game';
+import { Gauge, X, Lock, TrendingUp, MapPin, RotateCcw } from 'lucide-react';
+import { DEFAULT_DIFFICULTY_RULES, DIFFICULTY_LEVELS, chooseDifficulty, summarizePerformance } from '../utils/adaptiveDifficulty';
+import { getDifficultyForZone } from '../utils/triviaQuestions';
+
+interface DifficultySettingsProps {
+  settings: DifficultySettingsType;
+  zone: number;
+  onUpdate: (changes: {
+    mode?: DifficultyMode;
+    lockedDifficulty?: QuestionDifficulty;
+    rules?: Partial<DifficultyRules>;
+  }) => void;
+  onClose: () => void;
+}
+
+const modes = [
+  {
+    id: 'adaptive' as const,
+    name: 'Adaptive',
+    description: 'Recent accuracy and answer speed move questions up or down, and weak categories come up more often.',
+    icon: TrendingUp,
+  },
+  {
+    id: 'zone' as const,
+    name: 'By Zone',
+    description: 'Easy in zones 1-3, medium in zones 4-7 and hard from zone 8.',
+    icon: MapPin,
+  },
+  {
+    id: 'locked' as const,
+    name: 'Locked',
+    description: 'Every question uses one difficulty. Useful in the classroom.',
+    icon: Lock,
+  },
+];
+
+// Accuracies and timer shares are stored as 0-1 and edited as percentages
+const ruleFields: { key: keyof DifficultyRules; label: string; min: number; max: number; percent?: boolean }[] = [
+  { key: 'sampleSize', label: 'Recent answers considered', min: 3, max: 50 },
+  { key: 'minSamples', label: 'Answers before adapting', min: 1, max: 50 },
+  { key: 'raiseAccuracy', label: 'Step up at accuracy (%)', min: 0, max: 100, percent: true },
+  { key: 'lowerAccuracy', label: 'Step down at accuracy (%)', min: 0, max: 100, percent: true },
+  { key: 'fastAnswerRatio', label: 'Fast answer (% of timer)', min: 0, max: 100, percent: true },
+  { key: 'slowAnswerRatio', label: 'Slow answer (% of timer)', min: 0, max: 100, percent: true },
+  { key: 'maxShift', label: 'Max steps from zone difficulty', min: 0, max: 2 },
+  { key: 'weakCategoryBias', label: 'Weak category bias', min: 0, max: 10 },
+];
+
+const getDifficultyColor = (difficulty: QuestionDifficulty) => {
+  switch (difficulty) {
+    case 'easy': return 'text-green-400';
+    case 'medium': return 'text-yellow-400';
+    case 'hard': return 'text-red-400';
+  }
+};
+
+export const DifficultySettings: React.FC<DifficultySettingsProps> = ({
+  settings,
+  zone,
+  onUpdate,
+  onClose,
+}) => {
+  const zoneDifficulty = getDifficultyForZone(zone);
+  const currentDifficulty = chooseDifficulty(zoneDifficulty, settings);
+  const recent = summarizePerformance(settings.recentAnswers.slice(-settings.rules.sampleSize));
+
+  const handleRuleChange = (key: keyof DifficultyRules, value: string, field: typeof ruleFields[number]) => {
+    const parsed = Number(value);
+    if (value === '' || !Number.isFinite(parsed)) return;
+    const clamped = Math.max(field.min, Math.min(field.max, parsed));
+    onUpdate({ rules: { [key]: field.percent ? clamped / 100 : clamped } });
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 p-4">
+      <div className="bg-gradient-to-br from-slate-900 to-cyan-900 p-4 sm:p-6 rounded-lg border border-cyan-500/50 max-w-2xl w-full max-h-[80vh] overflow-y-auto">
+        <div className="flex justify-between items-center mb-6">
+          <div className="flex items-center gap-3">
+            <Gauge className="w-6 h-6 sm:w-8 sm:h-8 text-cyan-400" />
+            <div>
+              <h2 className="text-white font-bold text-lg sm:text-xl">Question Difficulty</h2>
+              <p className="text-cyan-300 text-sm">
+                Next questions: <span className={`font-semibold ${getDifficultyColor(currentDifficulty)}`}>{currentDifficulty}</span>
+                {currentDifficulty !== zoneDifficulty && ` (zone ${zone} default: ${zoneDifficulty})`}
+              </p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-white transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 mb-6">
+          {modes.map(mode => {
+            const Icon = mode.icon;
+            const selected = settings.mode === mode.id;
+            return (
+              <button
+                key={mode.id}
+                onClick={() => onUpdate({ mode: mode.id })}
+                className={`p-3 rounded-lg border-2 text-left transition-all ${
+                  selected ? 'border-cyan-400 bg-cyan-900/50' : 'border-cyan-500/20 bg-black/30 hover:border-cyan-500/50'
+                }`}
+              >
+                <div className="flex items-center gap-2 mb-1">
+                  <Icon className="w-4 h-4 text-cyan-400" />
+                  <span className="text-white font-semibold text-sm">{mode.name}</span>
+                </div>
+                <p className="text-gray-300 text-xs">{mode.description}</p>
+              </button>
+            );
+          })}
+        </div>
+
+        {settings.mode === 'locked' && (
+          <div className="bg-black/30 p-4 rounded-lg mb-6">
+            <h3 className="text-white font-semibold mb-3">Locked Difficulty</h3>
+            <div className="flex gap-2">
+              {DIFFICULTY_LEVELS.map(level => (
+                <button
+                  key={level}
+                  onClick={() => onUpdate({ lockedDifficulty: level })}
+                  className={`flex-1 py-2 rounded-lg font-semibold text-sm capitalize transition-colors ${
+                    settings.lockedDifficulty === level
+                      ? 'bg-cyan-600 text-white'
+                      : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                  }`}
+                >
+                  {level}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {settings.mode === 'adaptive' && (
+          <>
+            <div className="bg-black/30 p-4 rounded-lg mb-6">
+              <h3 className="text-white font-semibold mb-3">Recent Performance</h3>
+              {recent.samples < settings.rules.minSamples ? (
+                <p className="text-gray-400 text-sm">
+                  Answer {settings.rules.minSamples - recent.samples} more questions before difficulty starts adapting.
+                </p>
+              ) : (
+                <div className="grid grid-cols-3 gap-4 text-center">
+                  <div>
+                    <p className="text-xl font-bold text-white">{recent.samples}</p>
+                    <p className="text-xs text-gray-400">Answers</p>
+                  </div>
+                  <div>
+                    <p className="text-xl font-bold text-green-400">{Math.round(recent.accuracy * 100)}%</p>
+                    <p className="text-xs text-gray-400">Accuracy</p>
+                  </div>
+                  <div>
+                    <p className="text-xl font-bold text-yellow-400">{Math.round(recent.averageTimeRatio * 100)}%</p>
+                    <p className="text-xs text-gray-400">Of timer used</p>
+                  </div>
+                </div>
+              )}
+            </div>
+
+            <div className="bg-black/30 p-4 rounded-lg">
+              <div className="flex justify-between items-center mb-3">
+                <h3 className="text-white font-semibold">Rules</h3>
+                <button
+                  onClick={() => onUpdate({ rules: DEFAULT_DIFFICULTY_RULES })}
+                  className="text-xs text-cyan-300 hover:text-cyan-200 flex items-center gap-1"
+                >
+                  <RotateCcw className="w-3 h-3" />
+                  Defaults
+                </button>
+              </div>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                {ruleFields.map(field => {
+                  const value = settings.rules[field.key];
+                  return (
+                    <label key={field.key} className="flex items-center justify-between gap-2 text-sm text-gray-300">
+                      {field.label}
+                      <input
+                        type="number"
+                        min={field.min}
+                        max={field.max}
+                        value={field.percent ? Math.round(value * 100) : value}
+                        onChange={event => handleRuleChange(field.key, event.target.value, field)}
+                        className="w-20 px-2 py-1 rounded bg-gray-800 text-white border border-gray-600 text-right"
+                      />
+                    </label>
+                  );
+                })}
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,100 @@
+import React, { useState } from 'react';
+import { Item } from '../types/game';
+import { Gem, ScrollText } from 'lucide-react';
+import { describeItemStats } from '../utils/equipment';
+import {
+  ENHANCEMENT_MILESTONES, PROTECTION_SCROLL_COST, failureLosesLevel, getEnhancement, getEnhancementCap, getExpectedCost,
+  getSuccessChance, isAtEnhancementCap, shiftItemLevel,
+} from '../utils/enhancement';
+
+interface EnhancePanelProps {
+  item: Item;
+  gems: number;
+  protectionScrolls: number;
+  onEnhance: (protect: boolean) => void;
+  onBuyProtectionScroll: () => void;
+  onClose: () => void;
+}
+
+export const EnhancePanel: React.FC<EnhancePanelProps> = ({
+  item,
+  gems,
+  protectionScrolls,
+  onEnhance,
+  onBuyProtectionScroll,
+  onClose,
+}) => {
+  const [protect, setProtect] = useState(false);
+
+  const enhancement = getEnhancement(item);
+  const cap = getEnhancementCap(item);
+  const atRisk = failureLosesLevel(enhancement);
+  const useScroll = protect && atRisk;
+  const canEnhance = !isAtEnhancementCap(item) && gems >= item.upgradeCost && (!useScroll || protectionScrolls > 0);
+
+  // Preview the climb to the next milestone, or to the cap once they are all behind
+  const nextMilestone = ENHANCEMENT_MILESTONES.find(milestone => milestone.enhancement > enhancement && milestone.enhancement <= cap);
+  const target = nextMilestone?.enhancement ?? cap;
+
+  return (
+    <div className="mt-2 p-2 bg-purple-900/50 rounded border border-purple-500 text-xs space-y-1">
+      {isAtEnhancementCap(item) ? (
+        <p className="text-purple-200">Maximum enhancement reached (+{cap})</p>
+      ) : (
+        <>
+          <p className="text-white font-semibold">+{enhancement} → +{enhancement + 1} (max +{cap})</p>
+          <p className="text-gray-300">{describeItemStats(item)} → <span className="text-green-400">{describeItemStats(shiftItemLevel(item, 1))}</span></p>
+          <p className="text-gray-300">
+            Success: <span className="text-white">{Math.round(getSuccessChance(enhancement) * 100)}%</span>
+            {' · '}Cost: <span className="text-purple-300">{item.upgradeCost} gems</span>
+          </p>
+          <p className={atRisk ? 'text-red-300' : 'text-gray-400'}>
+            {atRisk ? `Failure drops the item to +${enhancement - 1}` : 'Failure only costs gems'}
+          </p>
+          {target > enhancement && (
+            <p className="text-gray-300">
+              Expected to reach +{target}: <span className="text-purple-300">~{getExpectedCost(item, target, protect)} gems</span>
+              {nextMilestone && ` (milestone: +${Math.round(nextMilestone.statBonus * 100)}% stats)`}
+            </p>
+          )}
+          {atRisk && (
+            <div className="flex items-center justify-between gap-2">
+              <label className="flex items-center gap-1 text-gray-200">
+                <input type="checkbox" checked={protect} onChange={event => setProtect(event.target.checked)} />
+                <ScrollText className="w-3 h-3" />
+                Protect ({protectionScrolls} scrolls)
+              </label>
+              <button
+                onClick={onBuyProtectionScroll}
+                disabled={gems < PROTECTION_SCROLL_COST}
+                className={`px-2 py-1 rounded font-semibold flex items-center gap-1 ${
+                  gems >= PROTECTION_SCROLL_COST
+                    ? 'bg-purple-600 text-white hover:bg-purple-500'
+                    : 'bg-gray-600 text-gray-400 cursor-not-allowed'
+                }`}
+              >
+                Buy <Gem className="w-3 h-3" /> {PROTECTION_SCROLL_COST}
+              </button>
+            </div>
+          )}
+        </>
+      )}
+      <div className="flex gap-1 pt-1">
+        {!isAtEnhancementCap(item) && (
+          <button
+            onClick={() => onEnhance(useScroll)}
+            disabled={!canEnhance}
+            className={`px-2 py-1 rounded font-semibold ${
+              canEnhance ? 'bg-purple-600 text-white hover:bg-purple-500' : 'bg-gray-600 text-gray-400 cursor-not-allowed'
+            }`}
+          >
+            Enhance
+          </button>
+        )}
+        <button onClick={onClose} className="px-2 py-1 bg-gray-600 text-white rounded hover:bg-gray-500">
+          Close
+        </button>
+      </div>
+    </div>
+  );
+};
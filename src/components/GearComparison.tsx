@@ -0,0 +1,77 @@
+import React from 'react';
+import { Inventory, Item, PlayerStats, Research } from '../types/game';
+import { getRarityColor } from '../utils/gameUtils';
+import { getItemDisplayName } from '../utils/affixes';
+import { EQUIPMENT_SLOTS, describeItemStats, equipItem, getEquippedItem, getTargetSlot } from '../utils/equipment';
+import { calculatePlayerStats } from '../utils/gameEngine';
+
+interface GearComparisonProps {
+  item: Item;
+  inventory: Inventory;
+  playerStats: PlayerStats;
+  research: Research;
+}
+
+const STAT_LABELS = [
+  { key: 'atk', label: 'ATK' },
+  { key: 'def', label: 'DEF' },
+  { key: 'maxHp', label: 'HP' },
+] as const;
+
+export const StatDeltas: React.FC<{ before: PlayerStats; after: PlayerStats }> = ({ before, after }) => (
+  <div className="flex flex-wrap gap-3">
+    {STAT_LABELS.map(({ key, label }) => {
+      const delta = after[key] - before[key];
+      return (
+        <span key={key} className="text-gray-300">
+          {label} {before[key]} → <span className="text-white font-semibold">{after[key]}</span>
+          {delta !== 0 && (
+            <span className={delta > 0 ? 'text-green-400' : 'text-red-400'}> ({delta > 0 ? '+' : ''}{delta})</span>
+          )}
+        </span>
+      );
+    })}
+  </div>
+);
+
+// Final stats go through the same calculation as the real thing, so research and set bonuses are included
+export const GearComparison: React.FC<GearComparisonProps> = ({ item, inventory, playerStats, research }) => {
+  const slot = getTargetSlot(inventory, item);
+  const equipped = getEquippedItem(inventory, slot);
+  const slotLabel = EQUIPMENT_SLOTS.find(definition => definition.slot === slot)?.label ?? slot;
+
+  if (equipped?.id === item.id) {
+    return (
+      <div className="mt-2 p-2 bg-blue-900/40 rounded border border-blue-500 text-xs text-gray-300">
+        Currently equipped in {slotLabel}
+      </div>
+    );
+  }
+
+  const before = calculatePlayerStats(playerStats, inventory, research);
+  const after = calculatePlayerStats(playerStats, equipItem(inventory, item, slot), research);
+
+  return (
+    <div className="mt-2 p-2 bg-blue-900/40 rounded border border-blue-500 text-xs space-y-1">
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <p className="text-gray-400">Equipped ({slotLabel})</p>
+          {equipped ? (
+            <>
+              <p className={`font-semibold truncate ${getRarityColor(equipped.rarity)}`}>{getItemDisplayName(equipped)}</p>
+              <p className="text-gray-300">{describeItemStats(equipped)}</p>
+            </>
+          ) : (
+            <p className="text-gray-500">Nothing</p>
+          )}
+        </div>
+        <div>
+          <p className="text-gray-400">This item</p>
+          <p className={`font-semibold truncate ${getRarityColor(item.rarity)}`}>{getItemDisplayName(item)}</p>
+          <p className="text-gray-300">{describeItemStats(item)}</p>
+        </div>
+      </div>
+      <StatDeltas before={before} after={after} />
+    </div>
+  );
+};
@@ -1,40 +1,191 @@
 import React, { useState } from 'react';
-import { Inventory as InventoryType, Weapon, Armor } from '../types/game';
-import { Sword, Shield, Gem, Star, Coins, Trash2, Sparkles } from 'lucide-react';
-import { getRarityColor, getRarityBorder, getRarityGlow } from '../utils/gameUtils';
+import {
+  Inventory as InventoryType, Weapon, Armor, Gear, GearSlot, EquipmentSlot, Item, ItemRarity, Loadout, LootRule,
+  LootRuleAction, LootRuleDraft, PlayerStats, Research,
+} from '../types/game';
+import {
+  Sword, Shield, Gem, Star, Coins, Trash2, Sparkles, Crown, Lock, Unlock, Search, CheckSquare, Package, Scale,
+} from 'lucide-react';
+import { getRarityColor, getRarityBorder, getRarityGlow, RARITY_ORDER } from '../utils/gameUtils';
+import { getItemDisplayName } from '../utils/affixes';
+import {
+  EQUIPMENT_SLOTS, GEAR_SLOTS, ITEM_KIND_LABELS, canDiscardItem, describeItemStats, findItem, getEquippedSlot,
+  getSlotsForKind, isItemLocked,
+} from '../utils/equipment';
+import {
+  DEFAULT_ITEM_FILTER, ITEM_SORT_LABELS, ItemFilter, ItemSortKey, filterAndSortItems, getItemsBelowRarity, getTotalSellPrice,
+} from '../utils/inventoryFilters';
+import {
+  BAG_EXPANSION_SLOTS, canExpandBag, getBagCount, getBagExpansionCost, getFreeSlots, getInventoryCapacity,
+} from '../utils/inventoryCapacity';
+import { ItemAffixes } from './ItemAffixes';
+import { EnhancePanel } from './EnhancePanel';
+import { StashPanel } from './StashPanel';
+import { LootRulesPanel } from './LootRulesPanel';
+import { GearComparison } from './GearComparison';
+import { LoadoutsPanel } from './LoadoutsPanel';
+import { getEnhancement, getEnhancementCap } from '../utils/enhancement';
 
 interface InventoryProps {
   inventory: InventoryType;
+  playerStats: PlayerStats;
+  research: Research;
+  lootRules: LootRule[];
+  loadouts: Loadout[];
   gems: number;
+  protectionScrolls: number;
   onEquipWeapon: (weapon: Weapon) => void;
   onEquipArmor: (armor: Armor) => void;
-  onUpgradeWeapon: (weaponId: string) => void;
-  onUpgradeArmor: (armorId: string) => void;
+  onUpgradeWeapon: (weaponId: string, protect: boolean) => void;
+  onUpgradeArmor: (armorId: string, protect: boolean) => void;
   onSellWeapon: (weaponId: string) => void;
   onSellArmor: (armorId: string) => void;
+  onEquipGear: (gear: Gear, slot: GearSlot) => void;
+  onUnequip: (slot: EquipmentSlot) => void;
+  onUpgradeGear: (gearId: string, protect: boolean) => void;
+  onBuyProtectionScroll: () => void;
+  onSellGear: (gearId: string) => void;
+  onSellItems: (itemIds: string[]) => void;
+  onToggleLock: (itemId: string) => void;
+  onBuyBagExpansion: () => void;
+  onClaimStashItem: (itemId: string) => void;
+  onDiscardStashItem: (itemId: string, action: LootRuleAction) => void;
+  onAddLootRule: (rule: LootRuleDraft) => void;
+  onRemoveLootRule: (ruleId: string) => void;
+  onToggleLootRule: (ruleId: string) => void;
+  onSaveLoadout: (name: string) => void;
+  onOverwriteLoadout: (loadoutId: string) => void;
+  onEquipLoadout: (loadoutId: string) => void;
+  onDeleteLoadout: (loadoutId: string) => void;
 }
 
 export const Inventory: React.FC<InventoryProps> = ({
   inventory,
+  playerStats,
+  research,
+  lootRules,
+  loadouts,
   gems,
+  protectionScrolls,
   onEquipWeapon,
   onEquipArmor,
   onUpgradeWeapon,
   onUpgradeArmor,
   onSellWeapon,
   onSellArmor,
+  onEquipGear,
+  onUnequip,
+  onUpgradeGear,
+  onBuyProtectionScroll,
+  onSellGear,
+  onSellItems,
+  onToggleLock,
+  onBuyBagExpansion,
+  onClaimStashItem,
+  onDiscardStashItem,
+  onAddLootRule,
+  onRemoveLootRule,
+  onToggleLootRule,
+  onSaveLoadout,
+  onOverwriteLoadout,
+  onEquipLoadout,
+  onDeleteLoadout,
 }) => {
   const [showSellConfirm, setShowSellConfirm] = useState<string | null>(null);
+  const [showEnhance, setShowEnhance] = useState<string | null>(null);
+  const [filter, setFilter] = useState<ItemFilter>(DEFAULT_ITEM_FILTER);
+  const [sort, setSort] = useState<ItemSortKey>('newest');
+  const [selectMode, setSelectMode] = useState(false);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [sellBelowRarity, setSellBelowRarity] = useState<ItemRarity>('rare');
+  const [showBulkConfirm, setShowBulkConfirm] = useState<'selected' | 'below' | null>(null);
+  const [hoveredId, setHoveredId] = useState<string | null>(null);
+  const [compareId, setCompareId] = useState<string | null>(null);
 
-  const handleSell = (id: string, type: 'weapon' | 'armor') => {
+  const toggleEnhance = (id: string) => setShowEnhance(current => (current === id ? null : id));
+
+  const visibleWeapons = filterAndSortItems(inventory.weapons, filter, sort);
+  const visibleArmor = filterAndSortItems(inventory.armor, filter, sort);
+  const visibleGear = filterAndSortItems(inventory.gear, filter, sort);
+
+  // Items can leave the inventory while selected, so look each one up again
+  const selectedItems = selected
+    .map(id => findItem(inventory, id))
+    .filter((item): item is Item => !!item && canDiscardItem(inventory, item.id));
+  const itemsBelow = getItemsBelowRarity(inventory, sellBelowRarity);
+
+  const toggleSelected = (id: string) =>
+    setSelected(current => (current.includes(id) ? current.filter(other => other !== id) : [...current, id]));
+
+  const handleBulkSell = () => {
+    const items = showBulkConfirm === 'selected' ? selectedItems : itemsBelow;
+    onSellItems(items.map(item => item.id));
+    setSelected([]);
+    setShowBulkConfirm(null);
+  };
+
+  const renderSelectBox = (item: Item) => selectMode && (
+    <input
+      type="checkbox"
+      checked={selected.includes(item.id)}
+      disabled={!canDiscardItem(inventory, item.id)}
+      onChange={() => toggleSelected(item.id)}
+    />
+  );
+
+  // Hovering previews the comparison; the button keeps it open on touch screens
+  const compareHandlers = (item: Item) => ({
+    onMouseEnter: () => setHoveredId(item.id),
+    onMouseLeave: () => setHoveredId(current => (current === item.id ? null : current)),
+  });
+
+  const renderCompareToggle = (item: Item) => (
+    <button
+      onClick={() => setCompareId(current => (current === item.id ? null : item.id))}
+      title="Compare with equipped"
+      className={compareId === item.id ? 'text-blue-300' : 'text-gray-400 hover:text-blue-300'}
+    >
+      <Scale className="w-3 h-3" />
+    </button>
+  );
+
+  const renderComparison = (item: Item) => (hoveredId === item.id || compareId === item.id) && (
+    <GearComparison item={item} inventory={inventory} playerStats={playerStats} research={research} />
+  );
+
+  const renderLockButton = (item: Item) => {
+    const locked = isItemLocked(inventory, item.id);
+    return (
+      <button
+        onClick={() => onToggleLock(item.id)}
+        title={locked ? 'Unlock' : 'Lock'}
+        className={`px-2 py-1 text-xs rounded font-semibold transition-all flex items-center gap-1 justify-center ${
+          locked ? 'bg-yellow-600 text-white hover:bg-yellow-500' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+        }`}
+      >
+        {locked ? <Lock className="w-2 h-2 sm:w-3 sm:h-3" /> : <Unlock className="w-2 h-2 sm:w-3 sm:h-3" />}
+      </button>
+    );
+  };
+
+  const handleSell = (id: string, type: 'weapon' | 'armor' | 'gear') => {
     if (type === 'weapon') {
       onSellWeapon(id);
-    } else {
+    } else if (type === 'armor') {
       onSellArmor(id);
+    } else {
+      onSellGear(id);
     }
     setShowSellConfirm(null);
   };
 
+  const capacity = getInventoryCapacity(inventory, research);
+  const bagCount = getBagCount(inventory);
+  const expansionCost = getBagExpansionCost(inventory.bagExpansions);
+  const canBuyExpansion = canExpandBag(inventory) && gems >= expansionCost;
+
+  const slotLabel = (slot: EquipmentSlot) => EQUIPMENT_SLOTS.find(definition => definition.slot === slot)?.label ?? slot;
+
   return (
     <div className="bg-gradient-to-br from-indigo-900 via-purple-900 to-pink-900 p-4 sm:p-6 rounded-lg shadow-2xl">
       <div className="text-center mb-4 sm:mb-6">
@@ -43,6 +194,23 @@ export const Inventory: React.FC<InventoryProps> = ({
           <Gem className="w-4 h-4 sm:w-5 sm:h-5" />
           <span className="font-semibold text-sm sm:text-base">{gems} Gems</span>
         </div>
+        <div className="flex items-center justify-center gap-2 mt-2">
+          <Package className="w-4 h-4 text-gray-300" />
+          <span className={`text-sm font-semibold ${bagCount >= capacity ? 'text-red-400' : 'text-gray-200'}`}>
+            Bag {bagCount}/{capacity}
+          </span>
+          {canExpandBag(inventory) && (
+            <button
+              onClick={onBuyBagExpansion}
+              disabled={!canBuyExpansion}
+              className={`px-2 py-1 text-xs rounded font-semibold transition-all flex items-center gap-1 ${
+                canBuyExpansion ? 'bg-purple-600 text-white hover:bg-purple-500' : 'bg-gray-600 text-gray-400 cursor-not-allowed'
+              }`}
+            >
+              +{BAG_EXPANSION_SLOTS} slots <Gem className="w-3 h-3" /> {expansionCost}
+            </button>
+          )}
+        </div>
       </div>
 
       {/* Currently Equipped */}
@@ -56,14 +224,21 @@ export const Inventory: React.FC<InventoryProps> = ({
             <div className="space-y-2">
               <div className="flex items-center gap-2">
                 <p className={`font-semibold text-sm sm:text-base ${getRarityColor(inventory.currentWeapon.rarity)}`}>
-                  {inventory.currentWeapon.name}
+                  {getItemDisplayName(inventory.currentWeapon)}
                 </p>
                 {inventory.currentWeapon.isChroma && (
                   <Sparkles className="w-4 h-4 text-red-400 animate-pulse" />
                 )}
               </div>
-              <p className="text-white text-sm sm:text-base">ATK: {inventory.currentWeapon.baseAtk + (inventory.currentWeapon.level - 1) * 10}</p>
-              <p className="text-gray-300 text-xs sm:text-sm">Level {inventory.currentWeapon.level}</p>
+              <p className="text-white text-sm sm:text-base">{describeItemStats(inventory.currentWeapon)}</p>
+              <p className="text-gray-300 text-xs sm:text-sm">+{getEnhancement(inventory.currentWeapon)} / +{getEnhancementCap(inventory.currentWeapon)}</p>
+              <ItemAffixes affixes={inventory.currentWeapon.affixes} />
+              <button
+                onClick={() => onUnequip('weapon')}
+                className="px-2 py-1 text-xs rounded font-semibold bg-gray-600 text-white hover:bg-gray-500 transition-all"
+              >
+                Unequip
+              </button>
             </div>
           ) : (
             <p className="text-gray-400 text-sm">No weapon equipped</p>
@@ -79,14 +254,21 @@ export const Inventory: React.FC<InventoryProps> = ({
             <div className="space-y-2">
               <div className="flex items-center gap-2">
                 <p className={`font-semibold text-sm sm:text-base ${getRarityColor(inventory.currentArmor.rarity)}`}>
-                  {inventory.currentArmor.name}
+                  {getItemDisplayName(inventory.currentArmor)}
                 </p>
                 {inventory.currentArmor.isChroma && (
                   <Sparkles className="w-4 h-4 text-red-400 animate-pulse" />
                 )}
               </div>
-              <p className="text-white text-sm sm:text-base">DEF: {inventory.currentArmor.baseDef + (inventory.currentArmor.level - 1) * 5}</p>
-              <p className="text-gray-300 text-xs sm:text-sm">Level {inventory.currentArmor.level}</p>
+              <p className="text-white text-sm sm:text-base">{describeItemStats(inventory.currentArmor)}</p>
+              <p className="text-gray-300 text-xs sm:text-sm">+{getEnhancement(inventory.currentArmor)} / +{getEnhancementCap(inventory.currentArmor)}</p>
+              <ItemAffixes affixes={inventory.currentArmor.affixes} />
+              <button
+                onClick={() => onUnequip('armor')}
+                className="px-2 py-1 text-xs rounded font-semibold bg-gray-600 text-white hover:bg-gray-500 transition-all"
+              >
+                Unequip
+              </button>
             </div>
           ) : (
             <p className="text-gray-400 text-sm">No armor equipped</p>
@@ -94,39 +276,212 @@ export const Inventory: React.FC<InventoryProps> = ({
         </div>
       </div>
 
+      {/* Accessory Slots */}
+      <div className="grid grid-cols-2 lg:grid-cols-3 gap-2 sm:gap-3 mb-4 sm:mb-6">
+        {GEAR_SLOTS.map(slot => {
+          const gear = inventory.equipment[slot];
+          return (
+            <div key={slot} className="bg-black/30 p-2 sm:p-3 rounded-lg border border-emerald-500/50">
+              <h4 className="text-gray-300 text-xs font-semibold mb-1">{slotLabel(slot)}</h4>
+              {gear ? (
+                <div className="space-y-1">
+                  <div className="flex items-center gap-1">
+                    <p className={`font-semibold text-xs sm:text-sm truncate ${getRarityColor(gear.rarity)}`}>
+                      {getItemDisplayName(gear)}
+                    </p>
+                    {gear.isChroma && <Sparkles className="w-3 h-3 text-red-400 animate-pulse" />}
+                  </div>
+                  <p className="text-white text-xs">{describeItemStats(gear)}</p>
+                  <p className="text-gray-400 text-xs">+{getEnhancement(gear)} / +{getEnhancementCap(gear)}</p>
+                  <ItemAffixes affixes={gear.affixes} />
+                  <button
+                    onClick={() => onUnequip(slot)}
+                    className="px-2 py-1 text-xs rounded font-semibold bg-gray-600 text-white hover:bg-gray-500 transition-all"
+                  >
+                    Unequip
+                  </button>
+                </div>
+              ) : (
+                <p className="text-gray-500 text-xs">Empty</p>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <LoadoutsPanel
+        loadouts={loadouts}
+        inventory={inventory}
+        playerStats={playerStats}
+        research={research}
+        onSave={onSaveLoadout}
+        onOverwrite={onOverwriteLoadout}
+        onEquip={onEquipLoadout}
+        onDelete={onDeleteLoadout}
+      />
+
+      {inventory.stash.length > 0 && (
+        <StashPanel
+          stash={inventory.stash}
+          freeSlots={getFreeSlots(inventory, research)}
+          onClaim={onClaimStashItem}
+          onDiscard={onDiscardStashItem}
+        />
+      )}
+
+      <LootRulesPanel rules={lootRules} onAdd={onAddLootRule} onRemove={onRemoveLootRule} onToggle={onToggleLootRule} />
+
+      {/* Sorting, Filters and Bulk Selling */}
+      <div className="bg-black/30 p-3 rounded-lg mb-4 sm:mb-6 space-y-2">
+        <div className="flex flex-wrap items-center gap-2">
+          <div className="flex items-center gap-1 bg-gray-800 rounded px-2 py-1 flex-1 min-w-[8rem]">
+            <Search className="w-3 h-3 text-gray-400" />
+            <input
+              type="text"
+              value={filter.search}
+              onChange={event => setFilter({ ...filter, search: event.target.value })}
+              placeholder="Search items..."
+              className="bg-transparent text-white text-xs outline-none w-full"
+            />
+          </div>
+          <select
+            value={sort}
+            onChange={event => setSort(event.target.value as ItemSortKey)}
+            className="bg-gray-800 text-white text-xs rounded px-2 py-1"
+          >
+            {(Object.keys(ITEM_SORT_LABELS) as ItemSortKey[]).map(key => (
+              <option key={key} value={key}>Sort: {ITEM_SORT_LABELS[key]}</option>
+            ))}
+          </select>
+          <select
+            value={filter.rarity}
+            onChange={event => setFilter({ ...filter, rarity: event.target.value as ItemFilter['rarity'] })}
+            className="bg-gray-800 text-white text-xs rounded px-2 py-1 capitalize"
+          >
+            <option value="all">All rarities</option>
+            {RARITY_ORDER.map(rarity => (
+              <option key={rarity} value={rarity}>{rarity}</option>
+            ))}
+          </select>
+          <label className="flex items-center gap-1 text-xs text-gray-200">
+            <input
+              type="checkbox"
+              checked={filter.chromaOnly}
+              onChange={event => setFilter({ ...filter, chromaOnly: event.target.checked })}
+            />
+            Chroma only
+          </label>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <button
+            onClick={() => {
+              setSelectMode(!selectMode);
+              setSelected([]);
+            }}
+            className={`px-2 py-1 text-xs rounded font-semibold transition-all flex items-center gap-1 ${
+              selectMode ? 'bg-purple-600 text-white hover:bg-purple-500' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+            }`}
+          >
+            <CheckSquare className="w-3 h-3" />
+            {selectMode ? 'Done selecting' : 'Select'}
+          </button>
+          {selectMode && (
+            <button
+              onClick={() => setShowBulkConfirm('selected')}
+              disabled={selectedItems.length === 0}
+              className={`px-2 py-1 text-xs rounded font-semibold transition-all ${
+                selectedItems.length > 0 ? 'bg-red-600 text-white hover:bg-red-500' : 'bg-gray-600 text-gray-400 cursor-not-allowed'
+              }`}
+            >
+              Sell selected ({selectedItems.length})
+            </button>
+          )}
+          <div className="flex items-center gap-1 ml-auto">
+            <span className="text-xs text-gray-300">Sell all below</span>
+            <select
+              value={sellBelowRarity}
+              onChange={event => setSellBelowRarity(event.target.value as ItemRarity)}
+              className="bg-gray-800 text-white text-xs rounded px-2 py-1 capitalize"
+            >
+              {RARITY_ORDER.slice(1).map(rarity => (
+                <option key={rarity} value={rarity}>{rarity}</option>
+              ))}
+            </select>
+            <button
+              onClick={() => setShowBulkConfirm('below')}
+              disabled={itemsBelow.length === 0}
+              className={`px-2 py-1 text-xs rounded font-semibold transition-all ${
+                itemsBelow.length > 0 ? 'bg-red-600 text-white hover:bg-red-500' : 'bg-gray-600 text-gray-400 cursor-not-allowed'
+              }`}
+            >
+              Sell ({itemsBelow.length})
+            </button>
+          </div>
+        </div>
+
+        {/* Bulk Sell Confirmation */}
+        {showBulkConfirm && (
+          <div className="p-2 bg-red-900/50 rounded border border-red-500">
+            <p className="text-red-300 text-xs mb-2">
+              Sell {(showBulkConfirm === 'selected' ? selectedItems : itemsBelow).length} items for{' '}
+              {getTotalSellPrice(showBulkConfirm === 'selected' ? selectedItems : itemsBelow)} coins?
+              Equipped and locked items are kept.
+            </p>
+            <div className="flex gap-1">
+              <button
+                onClick={handleBulkSell}
+                className="px-2 py-1 text-xs bg-red-600 text-white rounded hover:bg-red-500"
+              >
+                Yes
+              </button>
+              <button
+                onClick={() => setShowBulkConfirm(null)}
+                className="px-2 py-1 text-xs bg-gray-600 text-white rounded hover:bg-gray-500"
+              >
+                No
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+
       {/* Weapons */}
       <div className="mb-4 sm:mb-6">
         <h3 className="text-white font-semibold mb-3 flex items-center gap-2 text-sm sm:text-base">
           <Sword className="w-4 h-4 sm:w-5 sm:h-5 text-orange-400" />
-          Weapons ({inventory.weapons.length})
+          Weapons ({visibleWeapons.length}/{inventory.weapons.length})
         </h3>
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-2 sm:gap-3 max-h-48 sm:max-h-64 overflow-y-auto">
-          {inventory.weapons.map((weapon) => (
+          {visibleWeapons.map((weapon) => (
             <div 
               key={weapon.id} 
+              {...compareHandlers(weapon)}
               className={`bg-black/40 p-2 sm:p-3 rounded-lg border-2 ${getRarityBorder(weapon.rarity)} ${getRarityGlow(weapon.rarity)} ${weapon.isChroma ? 'animate-pulse' : ''}`}
             >
               <div className="flex justify-between items-start mb-2">
                 <div className="flex-1 min-w-0">
                   <div className="flex items-center gap-2">
+                    {renderSelectBox(weapon)}
                     <p className={`font-semibold text-xs sm:text-sm truncate ${getRarityColor(weapon.rarity)}`}>
-                      {weapon.name}
+                      {getItemDisplayName(weapon)}
                     </p>
                     {weapon.isChroma && (
                       <Sparkles className="w-3 h-3 text-red-400 animate-pulse" />
                     )}
+                    {renderCompareToggle(weapon)}
                   </div>
                   <p className="text-white text-xs sm:text-sm">
-                    ATK: {weapon.baseAtk + (weapon.level - 1) * 10}
+                    {describeItemStats(weapon)}
                   </p>
                   <div className="flex items-center gap-1 text-xs text-gray-300">
                     <Star className="w-2 h-2 sm:w-3 sm:h-3" />
-                    Level {weapon.level}
+                    +{getEnhancement(weapon)} / +{getEnhancementCap(weapon)}
                   </div>
                   <div className="flex items-center gap-1 text-xs text-yellow-400">
                     <Coins className="w-2 h-2 sm:w-3 sm:h-3" />
                     Sell: {weapon.sellPrice}
                   </div>
+                  <ItemAffixes affixes={weapon.affixes} />
                 </div>
                 <div className="flex flex-col gap-1 ml-2">
                   <button
@@ -141,12 +496,11 @@ export const Inventory: React.FC<InventoryProps> = ({
                     {inventory.currentWeapon?.id === weapon.id ? 'Equipped' : 'Equip'}
                   </button>
                   <button
-                    onClick={() => onUpgradeWeapon(weapon.id)}
-                    disabled={gems < weapon.upgradeCost}
+                    onClick={() => toggleEnhance(weapon.id)}
                     className={`px-2 py-1 text-xs rounded font-semibold transition-all flex items-center gap-1 justify-center ${
                       gems >= weapon.upgradeCost
                         ? 'bg-purple-600 text-white hover:bg-purple-500'
-                        : 'bg-gray-600 text-gray-400 cursor-not-allowed'
+                        : 'bg-gray-600 text-gray-300 hover:bg-gray-500'
                     }`}
                   >
                     <Gem className="w-2 h-2 sm:w-3 sm:h-3" />
@@ -154,18 +508,32 @@ export const Inventory: React.FC<InventoryProps> = ({
                   </button>
                   <button
                     onClick={() => setShowSellConfirm(weapon.id)}
-                    disabled={inventory.currentWeapon?.id === weapon.id}
+                    disabled={!canDiscardItem(inventory, weapon.id)}
                     className={`px-2 py-1 text-xs rounded font-semibold transition-all flex items-center gap-1 justify-center ${
-                      inventory.currentWeapon?.id === weapon.id
+                      !canDiscardItem(inventory, weapon.id)
                         ? 'bg-gray-600 text-gray-400 cursor-not-allowed'
                         : 'bg-red-600 text-white hover:bg-red-500'
                     }`}
                   >
                     <Trash2 className="w-2 h-2 sm:w-3 sm:h-3" />
                   </button>
+                  {renderLockButton(weapon)}
                 </div>
               </div>
               
+              {renderComparison(weapon)}
+
+              {showEnhance === weapon.id && (
+                <EnhancePanel
+                  item={weapon}
+                  gems={gems}
+                  protectionScrolls={protectionScrolls}
+                  onEnhance={protect => onUpgradeWeapon(weapon.id, protect)}
+                  onBuyProtectionScroll={onBuyProtectionScroll}
+                  onClose={() => setShowEnhance(null)}
+                />
+              )}
+
               {/* Sell Confirmation */}
               {showSellConfirm === weapon.id && (
                 <div className="mt-2 p-2 bg-red-900/50 rounded border border-red-500">
@@ -195,35 +563,39 @@ export const Inventory: React.FC<InventoryProps> = ({
       <div>
         <h3 className="text-white font-semibold mb-3 flex items-center gap-2 text-sm sm:text-base">
           <Shield className="w-4 h-4 sm:w-5 sm:h-5 text-blue-400" />
-          Armor ({inventory.armor.length})
+          Armor ({visibleArmor.length}/{inventory.armor.length})
         </h3>
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-2 sm:gap-3 max-h-48 sm:max-h-64 overflow-y-auto">
-          {inventory.armor.map((armor) => (
+          {visibleArmor.map((armor) => (
             <div 
               key={armor.id} 
+              {...compareHandlers(armor)}
               className={`bg-black/40 p-2 sm:p-3 rounded-lg border-2 ${getRarityBorder(armor.rarity)} ${getRarityGlow(armor.rarity)} ${armor.isChroma ? 'animate-pulse' : ''}`}
             >
               <div className="flex justify-between items-start mb-2">
                 <div className="flex-1 min-w-0">
                   <div className="flex items-center gap-2">
+                    {renderSelectBox(armor)}
                     <p className={`font-semibold text-xs sm:text-sm truncate ${getRarityColor(armor.rarity)}`}>
-                      {armor.name}
+                      {getItemDisplayName(armor)}
                     </p>
                     {armor.isChroma && (
                       <Sparkles className="w-3 h-3 text-red-400 animate-pulse" />
                     )}
+                    {renderCompareToggle(armor)}
                   </div>
                   <p className="text-white text-xs sm:text-sm">
-                    DEF: {armor.baseDef + (armor.level - 1) * 5}
+                    {describeItemStats(armor)}
                   </p>
                   <div className="flex items-center gap-1 text-xs text-gray-300">
                     <Star className="w-2 h-2 sm:w-3 sm:h-3" />
-                    Level {armor.level}
+                    +{getEnhancement(armor)} / +{getEnhancementCap(armor)}
                   </div>
                   <div className="flex items-center gap-1 text-xs text-yellow-400">
                     <Coins className="w-2 h-2 sm:w-3 sm:h-3" />
                     Sell: {armor.sellPrice}
                   </div>
+                  <ItemAffixes affixes={armor.affixes} />
                 </div>
                 <div className="flex flex-col gap-1 ml-2">
                   <button
@@ -238,12 +610,11 @@ export const Inventory: React.FC<InventoryProps> = ({
                     {inventory.currentArmor?.id === armor.id ? 'Equipped' : 'Equip'}
                   </button>
                   <button
-                    onClick={() => onUpgradeArmor(armor.id)}
-                    disabled={gems < armor.upgradeCost}
+                    onClick={() => toggleEnhance(armor.id)}
                     className={`px-2 py-1 text-xs rounded font-semibold transition-all flex items-center gap-1 justify-center ${
                       gems >= armor.upgradeCost
                         ? 'bg-purple-600 text-white hover:bg-purple-500'
-                        : 'bg-gray-600 text-gray-400 cursor-not-allowed'
+                        : 'bg-gray-600 text-gray-300 hover:bg-gray-500'
                     }`}
                   >
                     <Gem className="w-2 h-2 sm:w-3 sm:h-3" />
@@ -251,18 +622,32 @@ export const Inventory: React.FC<InventoryProps> = ({
                   </button>
                   <button
                     onClick={() => setShowSellConfirm(armor.id)}
-                    disabled={inventory.currentArmor?.id === armor.id}
+                    disabled={!canDiscardItem(inventory, armor.id)}
                     className={`px-2 py-1 text-xs rounded font-semibold transition-all flex items-center gap-1 justify-center ${
-                      inventory.currentArmor?.id === armor.id
+                      !canDiscardItem(inventory, armor.id)
                         ? 'bg-gray-600 text-gray-400 cursor-not-allowed'
                         : 'bg-red-600 text-white hover:bg-red-500'
                     }`}
                   >
                     <Trash2 className="w-2 h-2 sm:w-3 sm:h-3" />
                   </button>
+                  {renderLockButton(armor)}
                 </div>
               </div>
               
+              {renderComparison(armor)}
+
+              {showEnhance === armor.id && (
+                <EnhancePanel
+                  item={armor}
+                  gems={gems}
+                  protectionScrolls={protectionScrolls}
+                  onEnhance={protect => onUpgradeArmor(armor.id, protect)}
+                  onBuyProtectionScroll={onBuyProtectionScroll}
+                  onClose={() => setShowEnhance(null)}
+                />
+              )}
+
               {/* Sell Confirmation */}
               {showSellConfirm === armor.id && (
                 <div className="mt-2 p-2 bg-red-900/50 rounded border border-red-500">
@@ -287,6 +672,128 @@ export const Inventory: React.FC<InventoryProps> = ({
           ))}
         </div>
       </div>
+
+      {/* Gear */}
+      <div className="mt-4 sm:mt-6">
+        <h3 className="text-white font-semibold mb-3 flex items-center gap-2 text-sm sm:text-base">
+          <Crown className="w-4 h-4 sm:w-5 sm:h-5 text-emerald-400" />
+          Gear ({visibleGear.length}/{inventory.gear.length})
+        </h3>
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-2 sm:gap-3 max-h-48 sm:max-h-64 overflow-y-auto">
+          {visibleGear.map((gear) => {
+            const equippedSlot = getEquippedSlot(inventory, gear);
+            return (
+              <div
+                key={gear.id}
+                {...compareHandlers(gear)}
+                className={`bg-black/40 p-2 sm:p-3 rounded-lg border-2 ${getRarityBorder(gear.rarity)} ${getRarityGlow(gear.rarity)} ${gear.isChroma ? 'animate-pulse' : ''}`}
+              >
+                <div className="flex justify-between items-start mb-2">
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2">
+                      {renderSelectBox(gear)}
+                      <p className={`font-semibold text-xs sm:text-sm truncate ${getRarityColor(gear.rarity)}`}>
+                        {getItemDisplayName(gear)}
+                      </p>
+                      {gear.isChroma && (
+                        <Sparkles className="w-3 h-3 text-red-400 animate-pulse" />
+                      )}
+                      {renderCompareToggle(gear)}
+                    </div>
+                    <p className="text-gray-300 text-xs">{ITEM_KIND_LABELS[gear.kind]}</p>
+                    <p className="text-white text-xs sm:text-sm">{describeItemStats(gear)}</p>
+                    <div className="flex items-center gap-1 text-xs text-gray-300">
+                      <Star className="w-2 h-2 sm:w-3 sm:h-3" />
+                      +{getEnhancement(gear)} / +{getEnhancementCap(gear)}
+                    </div>
+                    <div className="flex items-center gap-1 text-xs text-yellow-400">
+                      <Coins className="w-2 h-2 sm:w-3 sm:h-3" />
+                      Sell: {gear.sellPrice}
+                    </div>
+                    <ItemAffixes affixes={gear.affixes} />
+                  </div>
+                  <div className="flex flex-col gap-1 ml-2">
+                    {/* Rings get a button per hand */}
+                    {(getSlotsForKind(gear.kind) as GearSlot[]).map(slot => (
+                      <button
+                        key={slot}
+                        onClick={() => onEquipGear(gear, slot)}
+                        disabled={equippedSlot === slot}
+                        className={`px-2 py-1 text-xs rounded font-semibold transition-all whitespace-nowrap ${
+                          equippedSlot === slot
+                            ? 'bg-gray-600 text-gray-400 cursor-not-allowed'
+                            : 'bg-emerald-600 text-white hover:bg-emerald-500'
+                        }`}
+                      >
+                        {equippedSlot === slot
+                          ? 'Equipped'
+                          : gear.kind === 'ring' ? `Equip ${slotLabel(slot)}` : 'Equip'}
+                      </button>
+                    ))}
+                    <button
+                      onClick={() => toggleEnhance(gear.id)}
+                      className={`px-2 py-1 text-xs rounded font-semibold transition-all flex items-center gap-1 justify-center ${
+                        gems >= gear.upgradeCost
+                          ? 'bg-purple-600 text-white hover:bg-purple-500'
+                          : 'bg-gray-600 text-gray-300 hover:bg-gray-500'
+                      }`}
+                    >
+                      <Gem className="w-2 h-2 sm:w-3 sm:h-3" />
+                      {gear.upgradeCost}
+                    </button>
+                    <button
+                      onClick={() => setShowSellConfirm(gear.id)}
+                      disabled={!canDiscardItem(inventory, gear.id)}
+                      className={`px-2 py-1 text-xs rounded font-semibold transition-all flex items-center gap-1 justify-center ${
+                        !canDiscardItem(inventory, gear.id)
+                          ? 'bg-gray-600 text-gray-400 cursor-not-allowed'
+                          : 'bg-red-600 text-white hover:bg-red-500'
+                      }`}
+                    >
+                      <Trash2 className="w-2 h-2 sm:w-3 sm:h-3" />
+                    </button>
+                    {renderLockButton(gear)}
+                  </div>
+                </div>
+
+                {renderComparison(gear)}
+
+                {showEnhance === gear.id && (
+                  <EnhancePanel
+                    item={gear}
+                    gems={gems}
+                    protectionScrolls={protectionScrolls}
+                    onEnhance={protect => onUpgradeGear(gear.id, protect)}
+                    onBuyProtectionScroll={onBuyProtectionScroll}
+                    onClose={() => setShowEnhance(null)}
+                  />
+                )}
+
+                {/* Sell Confirmation */}
+                {showSellConfirm === gear.id && (
+                  <div className="mt-2 p-2 bg-red-900/50 rounded border border-red-500">
+                    <p className="text-red-300 text-xs mb-2">Sell for {gear.sellPrice} coins?</p>
+                    <div className="flex gap-1">
+                      <button
+                        onClick={() => handleSell(gear.id, 'gear')}
+                        className="px-2 py-1 text-xs bg-red-600 text-white rounded hover:bg-red-500"
+                      >
+                        Yes
+                      </button>
+                      <button
+                        onClick={() => setShowSellConfirm(null)}
+                        className="px-2 py-1 text-xs bg-gray-600 text-white rounded hover:bg-gray-500"
+                      >
+                        No
+                      </button>
+                    </div>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,21 @@
+import React from 'react';
+import { ItemAffix } from '../types/game';
+import { describeAffix } from '../utils/affixes';
+
+interface ItemAffixesProps {
+  affixes: ItemAffix[];
+}
+
+export const ItemAffixes: React.FC<ItemAffixesProps> = ({ affixes }) => {
+  if (affixes.length === 0) return null;
+
+  return (
+    <ul className="space-y-0.5 mt-1">
+      {affixes.map(affix => (
+        <li key={affix.id} className="text-xs text-emerald-300">
+          {describeAffix(affix)}
+        </li>
+      ))}
+    </ul>
+  );
+};
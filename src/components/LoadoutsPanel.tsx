@@ -0,0 +1,115 @@
+import React, { useState } from 'react';
+import { Inventory, Loadout, PlayerStats, Research } from '../types/game';
+import { Bookmark, Save, Trash2 } from 'lucide-react';
+import { EQUIPMENT_SLOTS } from '../utils/equipment';
+import { calculatePlayerStats } from '../utils/gameEngine';
+import { MAX_LOADOUTS, applyLoadout, getMissingSlots, isLoadoutWorn } from '../utils/loadouts';
+import { StatDeltas } from './GearComparison';
+
+interface LoadoutsPanelProps {
+  loadouts: Loadout[];
+  inventory: Inventory;
+  playerStats: PlayerStats;
+  research: Research;
+  onSave: (name: string) => void;
+  onOverwrite: (loadoutId: string) => void;
+  onEquip: (loadoutId: string) => void;
+  onDelete: (loadoutId: string) => void;
+}
+
+export const LoadoutsPanel: React.FC<LoadoutsPanelProps> = ({
+  loadouts,
+  inventory,
+  playerStats,
+  research,
+  onSave,
+  onOverwrite,
+  onEquip,
+  onDelete,
+}) => {
+  const [name, setName] = useState('');
+  const canSave = name.trim().length > 0 && loadouts.length < MAX_LOADOUTS;
+
+  const slotLabel = (slot: string) => EQUIPMENT_SLOTS.find(definition => definition.slot === slot)?.label ?? slot;
+  const current = calculatePlayerStats(playerStats, inventory, research);
+
+  return (
+    <div className="bg-black/30 p-3 rounded-lg mb-4 sm:mb-6">
+      <h3 className="text-white font-semibold mb-2 flex items-center gap-2 text-sm sm:text-base">
+        <Bookmark className="w-4 h-4 sm:w-5 sm:h-5 text-blue-400" />
+        Loadouts ({loadouts.length}/{MAX_LOADOUTS})
+      </h3>
+
+      {loadouts.length > 0 && (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-2 mb-2">
+          {loadouts.map(loadout => {
+            const worn = isLoadoutWorn(inventory, loadout);
+            const missing = getMissingSlots(inventory, loadout);
+            return (
+              <div key={loadout.id} className={`p-2 rounded border text-xs ${worn ? 'border-green-500 bg-green-900/20' : 'border-gray-600 bg-black/30'}`}>
+                <div className="flex items-center justify-between gap-2 mb-1">
+                  <p className="text-white font-semibold truncate">{loadout.name}</p>
+                  <div className="flex gap-1">
+                    <button
+                      onClick={() => onEquip(loadout.id)}
+                      disabled={worn}
+                      className={`px-2 py-1 rounded font-semibold ${
+                        worn ? 'bg-gray-600 text-gray-400 cursor-not-allowed' : 'bg-blue-600 text-white hover:bg-blue-500'
+                      }`}
+                    >
+                      {worn ? 'Worn' : 'Equip'}
+                    </button>
+                    <button
+                      onClick={() => onOverwrite(loadout.id)}
+                      title="Save current equipment to this loadout"
+                      className="px-2 py-1 rounded bg-gray-700 text-gray-300 hover:bg-gray-600"
+                    >
+                      <Save className="w-3 h-3" />
+                    </button>
+                    <button
+                      onClick={() => onDelete(loadout.id)}
+                      title="Delete loadout"
+                      className="px-2 py-1 rounded bg-gray-700 text-gray-300 hover:bg-red-600 hover:text-white"
+                    >
+                      <Trash2 className="w-3 h-3" />
+                    </button>
+                  </div>
+                </div>
+                {!worn && (
+                  <StatDeltas before={current} after={calculatePlayerStats(playerStats, applyLoadout(inventory, loadout), research)} />
+                )}
+                {missing.length > 0 && (
+                  <p className="text-red-300 mt-1">Missing: {missing.map(slotLabel).join(', ')}</p>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={name}
+          maxLength={24}
+          onChange={event => setName(event.target.value)}
+          placeholder="Name, e.g. Boss fights"
+          className="bg-gray-800 text-white text-xs rounded px-2 py-1 flex-1"
+        />
+        <button
+          onClick={() => {
+            onSave(name);
+            setName('');
+          }}
+          disabled={!canSave}
+          className={`px-2 py-1 text-xs rounded font-semibold flex items-center gap-1 ${
+            canSave ? 'bg-blue-600 text-white hover:bg-blue-500' : 'bg-gray-600 text-gray-400 cursor-not-allowed'
+          }`}
+        >
+          <Save className="w-3 h-3" />
+          Save current
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,98 @@
+import React, { useState } from 'react';
+import { ItemRarity, LootRule, LootRuleAction, LootRuleDraft } from '../types/game';
+import { Filter, Plus, Trash2 } from 'lucide-react';
+import { RARITY_ORDER } from '../utils/gameUtils';
+import { LOOT_RULE_ACTIONS, LOOT_RULE_CATEGORIES, describeLootRule } from '../utils/lootRules';
+
+interface LootRulesPanelProps {
+  rules: LootRule[];
+  onAdd: (rule: LootRuleDraft) => void;
+  onRemove: (ruleId: string) => void;
+  onToggle: (ruleId: string) => void;
+}
+
+const DEFAULT_DRAFT: LootRuleDraft = { action: 'sell', category: 'any', maxRarity: 'common', belowPower: null };
+
+export const LootRulesPanel: React.FC<LootRulesPanelProps> = ({ rules, onAdd, onRemove, onToggle }) => {
+  const [draft, setDraft] = useState<LootRuleDraft>(DEFAULT_DRAFT);
+
+  return (
+    <div className="bg-black/30 p-3 rounded-lg mb-4 sm:mb-6">
+      <h3 className="text-white font-semibold mb-1 flex items-center gap-2 text-sm sm:text-base">
+        <Filter className="w-4 h-4 sm:w-5 sm:h-5 text-purple-400" />
+        Loot Rules
+      </h3>
+      <p className="text-xs text-gray-300 mb-2">
+        Drops are checked against these rules in order as they arrive. Chroma items are always kept.
+      </p>
+
+      {rules.length > 0 && (
+        <div className="space-y-1 mb-2">
+          {rules.map(rule => (
+            <div key={rule.id} className="flex items-center justify-between gap-2 bg-black/30 rounded px-2 py-1">
+              <label className={`flex items-center gap-2 text-xs ${rule.enabled ? 'text-white' : 'text-gray-500'}`}>
+                <input type="checkbox" checked={rule.enabled} onChange={() => onToggle(rule.id)} />
+                {describeLootRule(rule)}
+              </label>
+              <button
+                onClick={() => onRemove(rule.id)}
+                title="Remove rule"
+                className="px-2 py-1 text-xs rounded bg-gray-700 text-gray-300 hover:bg-red-600 hover:text-white"
+              >
+                <Trash2 className="w-3 h-3" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value={draft.action}
+          onChange={event => setDraft({ ...draft, action: event.target.value as LootRuleAction })}
+          className="bg-gray-800 text-white text-xs rounded px-2 py-1"
+        >
+          {(Object.keys(LOOT_RULE_ACTIONS) as LootRuleAction[]).map(action => (
+            <option key={action} value={action}>{LOOT_RULE_ACTIONS[action]}</option>
+          ))}
+        </select>
+        <select
+          value={draft.maxRarity}
+          onChange={event => setDraft({ ...draft, maxRarity: event.target.value as ItemRarity })}
+          className="bg-gray-800 text-white text-xs rounded px-2 py-1 capitalize"
+        >
+          {RARITY_ORDER.map(rarity => (
+            <option key={rarity} value={rarity}>{rarity === 'common' ? rarity : `${rarity} and lower`}</option>
+          ))}
+        </select>
+        <select
+          value={draft.category}
+          onChange={event => setDraft({ ...draft, category: event.target.value as LootRule['category'] })}
+          className="bg-gray-800 text-white text-xs rounded px-2 py-1"
+        >
+          {(Object.keys(LOOT_RULE_CATEGORIES) as LootRule['category'][]).map(category => (
+            <option key={category} value={category}>{LOOT_RULE_CATEGORIES[category]}</option>
+          ))}
+        </select>
+        <input
+          type="number"
+          min={1}
+          value={draft.belowPower ?? ''}
+          onChange={event => setDraft({ ...draft, belowPower: event.target.value ? Math.max(1, Number(event.target.value)) : null })}
+          placeholder="under power (any)"
+          className="bg-gray-800 text-white text-xs rounded px-2 py-1 w-32"
+        />
+        <button
+          onClick={() => {
+            onAdd(draft);
+            setDraft(DEFAULT_DRAFT);
+          }}
+          className="px-2 py-1 text-xs rounded font-semibold flex items-center gap-1 bg-purple-600 text-white hover:bg-purple-500"
+        >
+          <Plus className="w-3 h-3" />
+          Add rule
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -1,5 +1,8 @@
 import React from 'react';
-import { Heart, Sword, Shield, MapPin, Coins, Gem } from 'lucide-react';
+import { Heart, Sword, Shield, MapPin, Coins, Gem, Sparkles, Layers } from 'lucide-react';
+import { AffixBonuses, Item } from '../types/game';
+import { describeAffixBonuses } from '../utils/affixes';
+import { getActiveSetBonuses, describeSetBonus } from '../utils/itemSets';
 
 interface PlayerStatsProps {
   playerStats: {
@@ -7,13 +10,18 @@ interface PlayerStatsProps {
     maxHp: number;
     atk: number;
     def: number;
+    bonuses: AffixBonuses;
   };
+  equippedItems: Item[];
   zone: number;
   coins: number;
   gems: number;
 }
 
-export const PlayerStats: React.FC<PlayerStatsProps> = ({ playerStats, zone, coins, gems }) => {
+export const PlayerStats: React.FC<PlayerStatsProps> = ({ playerStats, equippedItems, zone, coins, gems }) => {
+  const itemBonuses = describeAffixBonuses(playerStats.bonuses);
+  const setBonuses = getActiveSetBonuses(equippedItems);
+
   return (
     <div className="bg-gradient-to-br from-slate-800 via-slate-900 to-black p-4 sm:p-6 rounded-lg shadow-2xl border border-slate-600">
       <h2 className="text-xl sm:text-2xl font-bold text-white mb-4 text-center">Hero Status</h2>
@@ -53,6 +61,38 @@ export const PlayerStats: React.FC<PlayerStatsProps> = ({ playerStats, zone, coi
           </div>
         </div>
 
+        {/* Item Bonuses */}
+        {itemBonuses.length > 0 && (
+          <div className="bg-black/30 p-3 rounded-lg">
+            <div className="flex items-center gap-2 mb-1">
+              <Sparkles className="w-4 h-4 sm:w-5 sm:h-5 text-emerald-400" />
+              <span className="text-white font-semibold text-sm sm:text-base">Item Bonuses</span>
+            </div>
+            <ul className="space-y-0.5">
+              {itemBonuses.map(line => (
+                <li key={line} className="text-xs sm:text-sm text-emerald-300">{line}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {/* Set Bonuses */}
+        {setBonuses.length > 0 && (
+          <div className="bg-black/30 p-3 rounded-lg">
+            <div className="flex items-center gap-2 mb-1">
+              <Layers className="w-4 h-4 sm:w-5 sm:h-5 text-amber-400" />
+              <span className="text-white font-semibold text-sm sm:text-base">Set Bonuses</span>
+            </div>
+            <ul className="space-y-0.5">
+              {setBonuses.map(({ set, bonus }) => (
+                <li key={`${set.id}-${bonus.pieces}`} className="text-xs sm:text-sm text-amber-300">
+                  {set.name} ({bonus.pieces}): {describeSetBonus(bonus)}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
         {/* Zone */}
         <div className="bg-black/30 p-3 rounded-lg">
           <div className="flex items-center gap-2 mb-1">
@@ -0,0 +1,271 @@
+import React, { useState } from 'react';
+import {
+  TriviaQuestion, QuestionResponse, MultipleChoiceQuestion, ImageQuestion, TrueFalseQuestion,
+  NumericQuestion, OrderingQuestion, MultiSelectQuestion,
+} from '../types/game';
+import { ArrowUp, ArrowDown, Check } from 'lucide-react';
+import { Rng, deriveRng } from '../utils/rng';
+
+interface QuestionInputProps {
+  question: TriviaQuestion;
+  // Once set the answer is locked in and the renderer shows how it was graded
+  submitted?: QuestionResponse;
+  disabled: boolean;
+  onSubmit: (response: QuestionResponse) => void;
+  rngSeed: number; // seeds the starting order of ordering questions
+}
+
+interface KindProps<Q extends TriviaQuestion> {
+  question: Q;
+  submitted?: QuestionResponse;
+  disabled: boolean;
+  onSubmit: (response: QuestionResponse) => void;
+}
+
+const optionButtonClass = (disabled: boolean, colors: string) =>
+  `p-2 sm:p-3 rounded-lg font-semibold transition-all duration-200 text-left text-xs sm:text-sm ${colors} ${
+    !disabled ? 'hover:scale-102' : 'cursor-not-allowed'
+  }`;
+
+const SubmitButton: React.FC<{ disabled: boolean; onClick: () => void }> = ({ disabled, onClick }) => (
+  <button
+    onClick={onClick}
+    disabled={disabled}
+    className={`mt-3 w-full py-2 rounded-lg font-semibold text-sm flex items-center justify-center gap-2 transition-colors ${
+      disabled ? 'bg-gray-600 text-gray-400 cursor-not-allowed' : 'bg-purple-600 text-white hover:bg-purple-500'
+    }`}
+  >
+    <Check className="w-4 h-4" />
+    Submit
+  </button>
+);
+
+const ChoiceInput: React.FC<KindProps<MultipleChoiceQuestion | ImageQuestion>> = ({ question, submitted, disabled, onSubmit }) => {
+  const selected = submitted?.kind === 'choice' ? submitted.index : null;
+
+  return (
+    <>
+      {question.kind === 'image' && (
+        <img
+          src={question.image.src}
+          alt={question.image.alt}
+          className="mx-auto mb-4 max-h-40 rounded-lg border border-gray-600 bg-white/5"
+        />
+      )}
+      <div className="grid grid-cols-1 gap-2 sm:gap-3">
+        {question.options.map((option, index) => {
+          let colors = 'bg-gray-700 hover:bg-gray-600 text-white';
+          if (submitted !== undefined) {
+            if (index === question.correctAnswer) {
+              colors = 'bg-green-600 text-white';
+            } else if (index === selected) {
+              colors = 'bg-red-600 text-white';
+            } else {
+              colors = 'bg-gray-600 text-gray-400';
+            }
+          }
+
+          return (
+            <button
+              key={index}
+              onClick={() => onSubmit({ kind: 'choice', index })}
+              disabled={disabled}
+              className={optionButtonClass(disabled, colors)}
+            >
+              <span className="font-bold mr-2">{String.fromCharCode(65 + index)}.</span>
+              {option}
+            </button>
+          );
+        })}
+      </div>
+    </>
+  );
+};
+
+const TrueFalseInput: React.FC<KindProps<TrueFalseQuestion>> = ({ question, submitted, disabled, onSubmit }) => {
+  const selected = submitted?.kind === 'true-false' ? submitted.value : null;
+
+  return (
+    <div className="grid grid-cols-2 gap-2 sm:gap-3">
+      {[true, false].map(value => {
+        let colors = 'bg-gray-700 hover:bg-gray-600 text-white';
+        if (submitted !== undefined) {
+          if (value === question.answer) {
+            colors = 'bg-green-600 text-white';
+          } else if (value === selected) {
+            colors = 'bg-red-600 text-white';
+          } else {
+            colors = 'bg-gray-600 text-gray-400';
+          }
+        }
+
+        return (
+          <button
+            key={String(value)}
+            onClick={() => onSubmit({ kind: 'true-false', value })}
+            disabled={disabled}
+            className={`${optionButtonClass(disabled, colors)} text-center`}
+          >
+            {value ? 'True' : 'False'}
+          </button>
+        );
+      })}
+    </div>
+  );
+};
+
+const NumericInput: React.FC<KindProps<NumericQuestion>> = ({ question, disabled, onSubmit }) => {
+  const [value, setValue] = useState('');
+  const parsed = Number(value.replace(',', '.'));
+  const canSubmit = !disabled && value.trim() !== '' && Number.isFinite(parsed);
+
+  const submit = () => {
+    if (canSubmit) onSubmit({ kind: 'numeric', value: parsed });
+  };
+
+  return (
+    <div>
+      <div className="flex items-center gap-2">
+        <input
+          type="text"
+          inputMode="decimal"
+          autoFocus
+          value={value}
+          onChange={event => setValue(event.target.value)}
+          onKeyDown={event => event.key === 'Enter' && submit()}
+          disabled={disabled}
+          placeholder="Your answer"
+          className="flex-1 px-3 py-2 rounded-lg bg-gray-800 text-white border border-gray-600 text-sm sm:text-base"
+        />
+        {question.unit && <span className="text-gray-300 text-sm">{question.unit}</span>}
+      </div>
+      <SubmitButton disabled={!canSubmit} onClick={submit} />
+    </div>
+  );
+};
+
+// Never start in the solved order
+const shuffleItems = (items: string[], rng: Rng): string[] => {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = rng.int(0, i);
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled.every((item, index) => item === items[index])
+    ? [...shuffled.slice(1), shuffled[0]]
+    : shuffled;
+};
+
+const OrderingInput: React.FC<KindProps<OrderingQuestion> & { rngSeed: number }> = ({
+  question,
+  submitted,
+  disabled,
+  onSubmit,
+  rngSeed,
+}) => {
+  // Combat remounts this per question id, so the same seed and question always start in the same order
+  const [order, setOrder] = useState(() => shuffleItems(question.items, deriveRng(rngSeed, 'ordering', question.id)));
+
+  const move = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= order.length) return;
+    const next = [...order];
+    [next[index], next[target]] = [next[target], next[index]];
+    setOrder(next);
+  };
+
+  return (
+    <div>
+      <div className="space-y-2">
+        {order.map((item, index) => {
+          let colors = 'bg-gray-700 text-white';
+          if (submitted !== undefined) {
+            colors = question.items[index] === item ? 'bg-green-600 text-white' : 'bg-red-600 text-white';
+          }
+
+          return (
+            <div key={item} className={`flex items-center gap-2 p-2 rounded-lg text-xs sm:text-sm font-semibold ${colors}`}>
+              <span className="font-bold w-5">{index + 1}.</span>
+              <span className="flex-1">{item}</span>
+              <button
+                onClick={() => move(index, -1)}
+                disabled={disabled || index === 0}
+                className="p-1 rounded hover:bg-white/10 disabled:opacity-30"
+              >
+                <ArrowUp className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => move(index, 1)}
+                disabled={disabled || index === order.length - 1}
+                className="p-1 rounded hover:bg-white/10 disabled:opacity-30"
+              >
+                <ArrowDown className="w-4 h-4" />
+              </button>
+            </div>
+          );
+        })}
+      </div>
+      <SubmitButton disabled={disabled} onClick={() => onSubmit({ kind: 'ordering', order })} />
+    </div>
+  );
+};
+
+const MultiSelectInput: React.FC<KindProps<MultiSelectQuestion>> = ({ question, submitted, disabled, onSubmit }) => {
+  const [picked, setPicked] = useState<number[]>([]);
+
+  const toggle = (index: number) => {
+    setPicked(prev => prev.includes(index) ? prev.filter(i => i !== index) : [...prev, index]);
+  };
+
+  return (
+    <div>
+      <p className="text-xs text-gray-400 mb-2">Select all that apply.</p>
+      <div className="grid grid-cols-1 gap-2 sm:gap-3">
+        {question.options.map((option, index) => {
+          const isPicked = picked.includes(index);
+          let colors = isPicked ? 'bg-blue-600 text-white' : 'bg-gray-700 hover:bg-gray-600 text-white';
+          if (submitted !== undefined) {
+            const isCorrect = question.correctAnswers.includes(index);
+            if (isCorrect) {
+              colors = isPicked ? 'bg-green-600 text-white' : 'bg-green-900 text-green-200 border border-green-500';
+            } else {
+              colors = isPicked ? 'bg-red-600 text-white' : 'bg-gray-600 text-gray-400';
+            }
+          }
+
+          return (
+            <button
+              key={index}
+              onClick={() => toggle(index)}
+              disabled={disabled}
+              className={optionButtonClass(disabled, colors)}
+            >
+              <span className="font-bold mr-2">{isPicked ? '☑' : '☐'}</span>
+              {option}
+            </button>
+          );
+        })}
+      </div>
+      <SubmitButton
+        disabled={disabled || picked.length === 0}
+        onClick={() => onSubmit({ kind: 'multi-select', indices: picked })}
+      />
+    </div>
+  );
+};
+
+export const QuestionInput: React.FC<QuestionInputProps> = ({ question, rngSeed, ...props }) => {
+  switch (question.kind) {
+    case 'multiple-choice':
+    case 'image':
+      return <ChoiceInput question={question} {...props} />;
+    case 'true-false':
+      return <TrueFalseInput question={question} {...props} />;
+    case 'numeric':
+      return <NumericInput question={question} {...props} />;
+    case 'ordering':
+      return <OrderingInput question={question} rngSeed={rngSeed} {...props} />;
+    case 'multi-select':
+      return <MultiSelectInput question={question} {...props} />;
+  }
+};
@@ -0,0 +1,144 @@
+import React, { useRef, useState } from 'react';
+import { QuestionPackSettings } from '../types/game';
+import { Library, X, Upload, Trash2, ToggleLeft, ToggleRight } from 'lucide-react';
+import { getAllPacks, isBuiltInPack } from '../utils/questionPacks';
+
+interface QuestionPacksProps {
+  settings: QuestionPackSettings;
+  onTogglePack: (packId: string) => void;
+  onImportPack: (text: string) => string[];
+  onRemovePack: (packId: string) => void;
+  onClose: () => void;
+}
+
+export const QuestionPacks: React.FC<QuestionPacksProps> = ({
+  settings,
+  onTogglePack,
+  onImportPack,
+  onRemovePack,
+  onClose,
+}) => {
+  const [importErrors, setImportErrors] = useState<string[]>([]);
+  const [importedName, setImportedName] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const packs = getAllPacks(settings);
+  const enabledCount = packs.filter(pack => !settings.disabledPackIds.includes(pack.id)).length;
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    const errors = onImportPack(await file.text());
+    setImportErrors(errors);
+    setImportedName(errors.length === 0 ? file.name : null);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 p-4">
+      <div className="bg-gradient-to-br from-slate-900 to-teal-900 p-4 sm:p-6 rounded-lg border border-teal-500/50 max-w-2xl w-full max-h-[80vh] overflow-y-auto">
+        <div className="flex justify-between items-center mb-6">
+          <div className="flex items-center gap-3">
+            <Library className="w-6 h-6 sm:w-8 sm:h-8 text-teal-400" />
+            <div>
+              <h2 className="text-white font-bold text-lg sm:text-xl">Question Packs</h2>
+              <p className="text-teal-300 text-sm">{enabledCount} of {packs.length} packs active</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-white transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="mb-4 px-3 py-2 rounded-lg font-semibold text-white bg-gradient-to-r from-teal-600 to-teal-500 hover:from-teal-500 hover:to-teal-400 transition-all flex items-center gap-2 text-sm"
+        >
+          <Upload className="w-4 h-4" />
+          Import Pack
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          onChange={handleImport}
+          className="hidden"
+        />
+
+        {importedName && (
+          <p className="mb-4 text-sm text-green-400">Imported {importedName}.</p>
+        )}
+        {importErrors.length > 0 && (
+          <div className="mb-4 p-3 bg-red-900/50 rounded border border-red-500">
+            <p className="text-red-300 text-sm font-semibold mb-1">This pack could not be imported:</p>
+            <ul className="text-red-300 text-xs list-disc list-inside space-y-0.5">
+              {importErrors.slice(0, 8).map(error => (
+                <li key={error}>{error}</li>
+              ))}
+              {importErrors.length > 8 && <li>...and {importErrors.length - 8} more</li>}
+            </ul>
+          </div>
+        )}
+
+        <div className="space-y-3">
+          {packs.map(pack => {
+            const enabled = !settings.disabledPackIds.includes(pack.id);
+            const builtIn = isBuiltInPack(pack.id);
+            return (
+              <div
+                key={pack.id}
+                className={`bg-black/30 p-3 sm:p-4 rounded-lg border ${
+                  enabled ? 'border-teal-500/60' : 'border-gray-600/40 opacity-70'
+                }`}
+              >
+                <div className="flex justify-between items-start gap-3">
+                  <div className="flex-1 min-w-0">
+                    <p className="text-white font-semibold text-sm sm:text-base">
+                      {pack.name}
+                      <span className="ml-2 text-xs text-gray-400">v{pack.version}</span>
+                      {!builtIn && <span className="ml-2 text-xs text-teal-300">custom</span>}
+                    </p>
+                    {pack.description && (
+                      <p className="text-gray-300 text-xs sm:text-sm mt-1">{pack.description}</p>
+                    )}
+                    <p className="text-gray-400 text-xs mt-1">
+                      {pack.questions.length} questions · {pack.categories.join(', ')}
+                      {pack.author && ` · by ${pack.author}`}
+                    </p>
+                  </div>
+                  <div className="flex gap-1">
+                    <button
+                      onClick={() => onTogglePack(pack.id)}
+                      disabled={enabled && enabledCount <= 1}
+                      title={enabled ? 'Disable' : 'Enable'}
+                      className={`p-1.5 rounded transition-colors ${
+                        enabled && enabledCount <= 1
+                          ? 'text-gray-500 cursor-not-allowed'
+                          : enabled ? 'text-teal-400 hover:text-teal-300' : 'text-gray-400 hover:text-white'
+                      }`}
+                    >
+                      {enabled ? <ToggleRight className="w-6 h-6" /> : <ToggleLeft className="w-6 h-6" />}
+                    </button>
+                    {!builtIn && (
+                      <button
+                        onClick={() => onRemovePack(pack.id)}
+                        title="Remove"
+                        className="p-1.5 rounded bg-red-600 text-white hover:bg-red-500 self-center"
+                      >
+                        <Trash2 className="w-3 h-3 sm:w-4 sm:h-4" />
+                      </button>
+                    )}
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,233 @@
+import React, { useRef, useState } from 'react';
+import { Save, X, Plus, Copy, Pencil, Trash2, Download, Upload, Play, Check } from 'lucide-react';
+import { SaveSlotMeta, SaveFile, getSaveFileName } from '../utils/saveSlots';
+
+interface SaveSlotsProps {
+  slots: SaveSlotMeta[];
+  activeSlotId: string | null;
+  onCreateSlot: (name?: string) => Promise<void>;
+  onSwitchSlot: (slotId: string) => Promise<void>;
+  onDuplicateSlot: (slotId: string) => Promise<void>;
+  onRenameSlot: (slotId: string, name: string) => void;
+  onDeleteSlot: (slotId: string) => Promise<void>;
+  onExportSlot: (slotId: string) => Promise<SaveFile | null>;
+  onImportFile: (text: string) => Promise<string[]>;
+  onClose: () => void;
+}
+
+const formatPlayTime = (seconds: number): string => {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  return `${hours}h ${minutes}m`;
+};
+
+export const SaveSlots: React.FC<SaveSlotsProps> = ({
+  slots,
+  activeSlotId,
+  onCreateSlot,
+  onSwitchSlot,
+  onDuplicateSlot,
+  onRenameSlot,
+  onDeleteSlot,
+  onExportSlot,
+  onImportFile,
+  onClose,
+}) => {
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+  const [showDeleteConfirm, setShowDeleteConfirm] = useState<string | null>(null);
+  const [importMessage, setImportMessage] = useState<{ ok: boolean; text: string } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const startRename = (slot: SaveSlotMeta) => {
+    setRenamingId(slot.id);
+    setRenameValue(slot.name);
+  };
+
+  const commitRename = () => {
+    if (renamingId) onRenameSlot(renamingId, renameValue);
+    setRenamingId(null);
+  };
+
+  const handleExport = async (slot: SaveSlotMeta) => {
+    const saveFile = await onExportSlot(slot.id);
+    if (!saveFile) return;
+
+    const blob = new Blob([JSON.stringify(saveFile, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = getSaveFileName(slot);
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    const issues = await onImportFile(await file.text());
+    setImportMessage(issues.length > 0
+      ? { ok: false, text: `Import failed: ${issues.join('; ')}` }
+      : { ok: true, text: `Imported ${file.name} as a new slot.` });
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 p-4">
+      <div className="bg-gradient-to-br from-slate-900 to-indigo-900 p-4 sm:p-6 rounded-lg border border-indigo-500/50 max-w-2xl w-full max-h-[80vh] overflow-y-auto">
+        <div className="flex justify-between items-center mb-6">
+          <div className="flex items-center gap-3">
+            <Save className="w-6 h-6 sm:w-8 sm:h-8 text-indigo-400" />
+            <div>
+              <h2 className="text-white font-bold text-lg sm:text-xl">Save Slots</h2>
+              <p className="text-indigo-300 text-sm">{slots.length} saved adventures</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-white transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex flex-wrap gap-2 mb-4">
+          <button
+            onClick={() => onCreateSlot()}
+            className="px-3 py-2 rounded-lg font-semibold text-white bg-gradient-to-r from-green-600 to-green-500 hover:from-green-500 hover:to-green-400 transition-all flex items-center gap-2 text-sm"
+          >
+            <Plus className="w-4 h-4" />
+            New Slot
+          </button>
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="px-3 py-2 rounded-lg font-semibold text-white bg-gradient-to-r from-indigo-600 to-indigo-500 hover:from-indigo-500 hover:to-indigo-400 transition-all flex items-center gap-2 text-sm"
+          >
+            <Upload className="w-4 h-4" />
+            Import Save
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            onChange={handleImport}
+            className="hidden"
+          />
+        </div>
+
+        {importMessage && (
+          <p className={`mb-4 text-sm ${importMessage.ok ? 'text-green-400' : 'text-red-400'}`}>
+            {importMessage.text}
+          </p>
+        )}
+
+        <div className="space-y-3">
+          {slots.map(slot => {
+            const isActive = slot.id === activeSlotId;
+            return (
+              <div
+                key={slot.id}
+                className={`bg-black/30 p-3 sm:p-4 rounded-lg border ${
+                  isActive ? 'border-green-500/70' : 'border-indigo-500/30'
+                }`}
+              >
+                <div className="flex justify-between items-start gap-3">
+                  <div className="flex-1 min-w-0">
+                    {renamingId === slot.id ? (
+                      <div className="flex items-center gap-2">
+                        <input
+                          value={renameValue}
+                          onChange={e => setRenameValue(e.target.value)}
+                          onKeyDown={e => e.key === 'Enter' && commitRename()}
+                          autoFocus
+                          className="flex-1 px-2 py-1 rounded bg-gray-800 text-white text-sm border border-indigo-500"
+                        />
+                        <button onClick={commitRename} className="text-green-400 hover:text-green-300">
+                          <Check className="w-4 h-4" />
+                        </button>
+                      </div>
+                    ) : (
+                      <p className="text-white font-semibold text-sm sm:text-base truncate">
+                        {slot.name}
+                        {isActive && <span className="ml-2 text-xs text-green-400">(playing)</span>}
+                      </p>
+                    )}
+                    <div className="flex flex-wrap gap-x-4 text-xs text-gray-300 mt-1">
+                      <span>Zone {slot.zone}</span>
+                      <span>{formatPlayTime(slot.playTime)}</span>
+                      <span>Last played {new Date(slot.lastPlayed).toLocaleString()}</span>
+                    </div>
+                  </div>
+                  <div className="flex gap-1">
+                    {!isActive && (
+                      <button
+                        onClick={() => onSwitchSlot(slot.id)}
+                        title="Load"
+                        className="p-1.5 rounded bg-green-600 text-white hover:bg-green-500"
+                      >
+                        <Play className="w-3 h-3 sm:w-4 sm:h-4" />
+                      </button>
+                    )}
+                    <button
+                      onClick={() => startRename(slot)}
+                      title="Rename"
+                      className="p-1.5 rounded bg-gray-600 text-white hover:bg-gray-500"
+                    >
+                      <Pencil className="w-3 h-3 sm:w-4 sm:h-4" />
+                    </button>
+                    <button
+                      onClick={() => onDuplicateSlot(slot.id)}
+                      title="Duplicate"
+                      className="p-1.5 rounded bg-indigo-600 text-white hover:bg-indigo-500"
+                    >
+                      <Copy className="w-3 h-3 sm:w-4 sm:h-4" />
+                    </button>
+                    <button
+                      onClick={() => handleExport(slot)}
+                      title="Export"
+                      className="p-1.5 rounded bg-blue-600 text-white hover:bg-blue-500"
+                    >
+                      <Download className="w-3 h-3 sm:w-4 sm:h-4" />
+                    </button>
+                    <button
+                      onClick={() => setShowDeleteConfirm(slot.id)}
+                      title="Delete"
+                      className="p-1.5 rounded bg-red-600 text-white hover:bg-red-500"
+                    >
+                      <Trash2 className="w-3 h-3 sm:w-4 sm:h-4" />
+                    </button>
+                  </div>
+                </div>
+
+                {/* Delete Confirmation */}
+                {showDeleteConfirm === slot.id && (
+                  <div className="mt-2 p-2 bg-red-900/50 rounded border border-red-500">
+                    <p className="text-red-300 text-xs mb-2">Delete "{slot.name}"? This cannot be undone.</p>
+                    <div className="flex gap-1">
+                      <button
+                        onClick={() => {
+                          onDeleteSlot(slot.id);
+                          setShowDeleteConfirm(null);
+                        }}
+                        className="px-2 py-1 text-xs bg-red-600 text-white rounded hover:bg-red-500"
+                      >
+                        Yes
+                      </button>
+                      <button
+                        onClick={() => setShowDeleteConfirm(null)}
+                        className="px-2 py-1 text-xs bg-gray-600 text-white rounded hover:bg-gray-500"
+                      >
+                        No
+                      </button>
+                    </div>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
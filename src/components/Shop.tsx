@@ -1,11 +1,15 @@
 import React, { useState } from 'react';
-import { ChestReward, Weapon, Armor } from '../types/game';
-import { Package, Coins, Gem, Sparkles, X } from 'lucide-react';
+import { ChestReward } from '../types/game';
+import { Package, Coins, Gem, Sparkles, X, Percent } from 'lucide-react';
 import { getRarityColor, getRarityBorder, getRarityGlow } from '../utils/gameUtils';
+import { getItemDisplayName } from '../utils/affixes';
+import { describeItemStats } from '../utils/equipment';
+import { ChestId, getAvailableChests } from '../utils/chests';
+import { ChestOdds } from './ChestOdds';
 
 interface ShopProps {
   coins: number;
-  onOpenChest: (cost: number) => ChestReward | null;
+  onOpenChest: (chestId: ChestId) => ChestReward | null;
   isPremium: boolean;
 }
 
@@ -13,21 +17,16 @@ export const Shop: React.FC<ShopProps> = ({ coins, onOpenChest, isPremium }) =>
   const [lastReward, setLastReward] = useState<ChestReward | null>(null);
   const [isOpening, setIsOpening] = useState(false);
   const [showRewardModal, setShowRewardModal] = useState(false);
+  const [showOdds, setShowOdds] = useState<ChestId | null>(null);
 
-  const chests = [
-    { name: 'Basic Chest', cost: 50, description: 'Common rewards' },
-    { name: 'Rare Chest', cost: 150, description: 'Better rewards' },
-    { name: 'Epic Chest', cost: 400, description: 'Great rewards' },
-    { name: 'Legendary Chest', cost: 1000, description: 'Amazing rewards' },
-    ...(isPremium ? [{ name: 'Mythical Chest', cost: 2500, description: 'Guaranteed Chroma items!' }] : []),
-  ];
+  const chests = getAvailableChests(isPremium);
 
-  const handleOpenChest = async (cost: number) => {
+  const handleOpenChest = async (chestId: ChestId) => {
     setIsOpening(true);
     setLastReward(null);
     
     setTimeout(() => {
-      const reward = onOpenChest(cost);
+      const reward = onOpenChest(chestId);
       setLastReward(reward);
       setIsOpening(false);
       if (reward) {
@@ -58,19 +57,19 @@ export const Shop: React.FC<ShopProps> = ({ coins, onOpenChest, isPremium }) =>
 
       <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 sm:gap-4 mb-4 sm:mb-6">
         {chests.map((chest, index) => (
-          <div key={chest.name} className={`bg-black/30 p-3 sm:p-4 rounded-lg border ${
-            chest.name === 'Mythical Chest' 
+          <div key={chest.id} className={`bg-black/30 p-3 sm:p-4 rounded-lg border ${
+            chest.id === 'mythical' 
               ? 'border-red-600/50 shadow-lg shadow-red-600/20' 
               : 'border-yellow-600/30'
           }`}>
             <div className="flex items-center gap-2 sm:gap-3 mb-3">
               <Package className={`w-5 h-5 sm:w-6 sm:h-6 ${
-                chest.name === 'Mythical Chest' ? 'text-red-400' : 'text-yellow-400'
+                chest.id === 'mythical' ? 'text-red-400' : 'text-yellow-400'
               }`} />
               <div className="flex-1 min-w-0">
                 <div className="flex items-center gap-2">
                   <h3 className="text-white font-semibold text-sm sm:text-base truncate">{chest.name}</h3>
-                  {chest.name === 'Mythical Chest' && (
+                  {chest.id === 'mythical' && (
                     <Sparkles className="w-4 h-4 text-red-400 animate-pulse" />
                   )}
                 </div>
@@ -83,11 +82,18 @@ export const Shop: React.FC<ShopProps> = ({ coins, onOpenChest, isPremium }) =>
                 <span className="font-semibold text-sm sm:text-base">{chest.cost}</span>
               </div>
               <button
-                onClick={() => handleOpenChest(chest.cost)}
+                onClick={() => setShowOdds(current => (current === chest.id ? null : chest.id))}
+                className="ml-auto mr-2 px-2 py-1 rounded text-xs font-semibold flex items-center gap-1 bg-black/40 text-yellow-200 hover:bg-black/60"
+              >
+                <Percent className="w-3 h-3" />
+                Odds
+              </button>
+              <button
+                onClick={() => handleOpenChest(chest.id)}
                 disabled={coins < chest.cost || isOpening}
                 className={`px-3 sm:px-4 py-1 sm:py-2 rounded font-semibold transition-all duration-200 text-xs sm:text-sm ${
                   coins >= chest.cost && !isOpening
-                    ? chest.name === 'Mythical Chest'
+                    ? chest.id === 'mythical'
                       ? 'bg-gradient-to-r from-red-600 to-red-500 text-white hover:from-red-500 hover:to-red-400 hover:scale-105'
                       : 'bg-gradient-to-r from-yellow-600 to-yellow-500 text-white hover:from-yellow-500 hover:to-yellow-400 hover:scale-105'
                     : 'bg-gray-600 text-gray-400 cursor-not-allowed'
@@ -96,6 +102,7 @@ export const Shop: React.FC<ShopProps> = ({ coins, onOpenChest, isPremium }) =>
                 {isOpening ? 'Opening...' : 'Open'}
               </button>
             </div>
+            {showOdds === chest.id && <ChestOdds chest={chest} />}
           </div>
         ))}
       </div>
@@ -128,7 +135,7 @@ export const Shop: React.FC<ShopProps> = ({ coins, onOpenChest, isPremium }) =>
               <div className="bg-purple-900/50 p-3 rounded-lg border border-purple-500/50">
                 <div className="flex items-center justify-center gap-2">
                   <Gem className="w-5 h-5 text-purple-400" />
-                  <span className="text-white font-semibold">Bonus: {Math.floor(Math.random() * 10) + 5} Gems</span>
+                  <span className="text-white font-semibold">Bonus: {lastReward.gems ?? 0} Gems</span>
                 </div>
               </div>
 
@@ -155,12 +162,8 @@ export const Shop: React.FC<ShopProps> = ({ coins, onOpenChest, isPremium }) =>
                           <Sparkles className="w-4 h-4 text-red-400 animate-pulse" />
                         )}
                       </div>
-                      <p className="text-white font-semibold text-base mb-1">{item.name}</p>
-                      <p className="text-gray-300 text-sm mb-2">
-                        {lastReward.type === 'weapon' 
-                          ? `ATK: ${(item as Weapon).baseAtk}` 
-                          : `DEF: ${(item as Armor).baseDef}`}
-                      </p>
+                      <p className="text-white font-semibold text-base mb-1">{getItemDisplayName(item)}</p>
+                      <p className="text-gray-300 text-sm mb-2">{describeItemStats(item)}</p>
                       <div className="flex items-center justify-center gap-4 text-xs">
                         <div className="flex items-center gap-1 text-yellow-400">
                           <Coins className="w-3 h-3" />
@@ -0,0 +1,65 @@
+import React from 'react';
+import { Item, LootRuleAction } from '../types/game';
+import { Archive, Coins, Recycle, ArrowDownToLine } from 'lucide-react';
+import { getRarityColor, getRarityBorder } from '../utils/gameUtils';
+import { getItemDisplayName } from '../utils/affixes';
+import { ITEM_KIND_LABELS, describeItemStats, getItemKind } from '../utils/equipment';
+import { describeMaterials, getSalvageYield } from '../utils/crafting';
+import { STASH_CAPACITY } from '../utils/inventoryCapacity';
+
+interface StashPanelProps {
+  stash: Item[];
+  freeSlots: number;
+  onClaim: (itemId: string) => void;
+  onDiscard: (itemId: string, action: LootRuleAction) => void;
+}
+
+export const StashPanel: React.FC<StashPanelProps> = ({ stash, freeSlots, onClaim, onDiscard }) => (
+  <div className="bg-black/30 p-3 rounded-lg mb-4 sm:mb-6 border border-yellow-500/50">
+    <h3 className="text-white font-semibold mb-1 flex items-center gap-2 text-sm sm:text-base">
+      <Archive className="w-4 h-4 sm:w-5 sm:h-5 text-yellow-400" />
+      Overflow Stash ({stash.length}/{STASH_CAPACITY})
+    </h3>
+    <p className="text-xs text-gray-300 mb-2">
+      {freeSlots > 0
+        ? `Drops that arrived while your bag was full. ${freeSlots} bag slots free.`
+        : 'Your bag is full. Sell or salvage items to make room; drops past a full stash are salvaged.'}
+    </p>
+    <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+      {stash.map(item => (
+        <div key={item.id} className={`p-2 rounded border ${getRarityBorder(item.rarity)} bg-black/40`}>
+          <p className={`font-semibold text-xs sm:text-sm truncate ${getRarityColor(item.rarity)}`}>{getItemDisplayName(item)}</p>
+          <p className="text-xs text-gray-300 capitalize">
+            {item.rarity} {ITEM_KIND_LABELS[getItemKind(item)]} - {describeItemStats(item)}
+          </p>
+          <div className="flex gap-1 mt-1">
+            <button
+              onClick={() => onClaim(item.id)}
+              disabled={freeSlots === 0}
+              className={`px-2 py-1 text-xs rounded font-semibold flex items-center gap-1 ${
+                freeSlots > 0 ? 'bg-green-600 text-white hover:bg-green-500' : 'bg-gray-600 text-gray-400 cursor-not-allowed'
+              }`}
+            >
+              <ArrowDownToLine className="w-3 h-3" />
+              Take
+            </button>
+            <button
+              onClick={() => onDiscard(item.id, 'sell')}
+              className="px-2 py-1 text-xs rounded font-semibold flex items-center gap-1 bg-red-600 text-white hover:bg-red-500"
+            >
+              <Coins className="w-3 h-3" />
+              {item.sellPrice}
+            </button>
+            <button
+              onClick={() => onDiscard(item.id, 'salvage')}
+              className="px-2 py-1 text-xs rounded font-semibold flex items-center gap-1 bg-amber-600 text-white hover:bg-amber-500"
+            >
+              <Recycle className="w-3 h-3" />
+              {describeMaterials(getSalvageYield(item))}
+            </button>
+          </div>
+        </div>
+      ))}
+    </div>
+  </div>
+);
@@ -1,13 +1,17 @@
 import React from 'react';
-import { Statistics as StatisticsType } from '../types/game';
-import { BarChart3, Clock, Target, Coins, Gem, Package, X, TrendingUp } from 'lucide-react';
+import { Statistics as StatisticsType, QuestionHistory } from '../types/game';
+import { BarChart3, Clock, Target, Coins, Gem, Package, X, TrendingUp, Timer } from 'lucide-react';
+import { getMasteryByBox } from '../utils/questionScheduler';
 
 interface StatisticsProps {
   statistics: StatisticsType;
+  questionHistory: QuestionHistory;
   onClose: () => void;
 }
 
-export const Statistics: React.FC<StatisticsProps> = ({ statistics, onClose }) => {
+const masteryLabels = ['Learning', 'Familiar', 'Known', 'Strong', 'Mastered'];
+
+export const Statistics: React.FC<StatisticsProps> = ({ statistics, questionHistory, onClose }) => {
   const accuracy = statistics.totalQuestionsAnswered > 0 
     ? (statistics.correctAnswers / statistics.totalQuestionsAnswered) * 100 
     : 0;
@@ -20,10 +24,20 @@ export const Statistics: React.FC<StatisticsProps> = ({ statistics, onClose }) =
       category,
       accuracy: data.total > 0 ? (data.correct / data.total) * 100 : 0,
       total: data.total,
-      correct: data.correct
+      correct: data.correct,
+      averageTime: data.timedAnswers > 0 ? data.answerTime / data.timedAnswers : null,
     })
   ).sort((a, b) => b.accuracy - a.accuracy);
 
+  const timing = Object.values(statistics.accuracyByCategory).reduce(
+    (sum, data) => ({ time: sum.time + data.answerTime, count: sum.count + data.timedAnswers }),
+    { time: 0, count: 0 }
+  );
+  const averageAnswerTime = timing.count > 0 ? timing.time / timing.count : null;
+
+  const masteryByBox = getMasteryByBox(questionHistory);
+  const questionsSeen = masteryByBox.reduce((a, b) => a + b, 0);
+
   return (
     <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 p-4">
       <div className="bg-gradient-to-br from-slate-900 to-gray-900 p-4 sm:p-6 rounded-lg border border-slate-500/50 max-w-4xl w-full max-h-[80vh] overflow-y-auto">
@@ -87,7 +101,7 @@ export const Statistics: React.FC<StatisticsProps> = ({ statistics, onClose }) =
         </div>
 
         {/* Secondary Stats */}
-        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mb-6">
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4 mb-6">
           <div className="bg-black/30 p-4 rounded-lg">
             <div className="flex items-center gap-2 mb-2">
               <Gem className="w-5 h-5 text-purple-400" />
@@ -111,6 +125,34 @@ export const Statistics: React.FC<StatisticsProps> = ({ statistics, onClose }) =
             </div>
             <p className="text-xl font-bold text-green-400">{statistics.chestsOpened}</p>
           </div>
+
+          <div className="bg-black/30 p-4 rounded-lg">
+            <div className="flex items-center gap-2 mb-2">
+              <Timer className="w-5 h-5 text-yellow-400" />
+              <span className="text-white font-semibold text-sm">Avg Answer Time</span>
+            </div>
+            <p className="text-xl font-bold text-yellow-400">
+              {averageAnswerTime !== null ? `${averageAnswerTime.toFixed(1)}s` : '—'}
+            </p>
+          </div>
+        </div>
+
+        {/* Question Mastery */}
+        <div className="bg-black/30 p-4 rounded-lg mb-6">
+          <h3 className="text-white font-bold text-lg mb-1">Question Mastery</h3>
+          <p className="text-gray-400 text-xs mb-4">
+            {questionsSeen} different questions seen. Missed questions come back until you know them.
+          </p>
+          <div className="grid grid-cols-5 gap-2">
+            {masteryByBox.map((count, box) => (
+              <div key={box} className="text-center">
+                <p className={`text-xl font-bold ${box === 0 ? 'text-red-400' : box >= 3 ? 'text-green-400' : 'text-yellow-400'}`}>
+                  {count}
+                </p>
+                <p className="text-xs text-gray-400">{masteryLabels[box]}</p>
+              </div>
+            ))}
+          </div>
         </div>
 
         {/* Category Accuracy */}
@@ -118,13 +160,16 @@ export const Statistics: React.FC<StatisticsProps> = ({ statistics, onClose }) =
           <h3 className="text-white font-bold text-lg mb-4">Accuracy by Category</h3>
           {categoryAccuracies.length > 0 ? (
             <div className="space-y-3">
-              {categoryAccuracies.map(({ category, accuracy, total, correct }) => (
+              {categoryAccuracies.map(({ category, accuracy, total, correct, averageTime }) => (
                 <div key={category} className="flex items-center justify-between">
                   <div className="flex-1">
                     <div className="flex justify-between items-center mb-1">
                       <span className="text-white font-medium text-sm">{category}</span>
                       <span className="text-gray-300 text-sm">
                         {correct}/{total} ({accuracy.toFixed(1)}%)
+                        {averageTime !== null && (
+                          <span className="ml-2 text-yellow-300">⏱ {averageTime.toFixed(1)}s</span>
+                        )}
                       </span>
                     </div>
                     <div className="w-full bg-gray-700 rounded-full h-2">
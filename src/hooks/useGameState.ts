@@ -1,95 +1,51 @@
-import { useState, useCallback, useEffect } from 'react';
-import { GameState, PlayerStats, Inventory, Enemy, Weapon, Armor, ChestReward, Research, Achievement, CollectionBook, KnowledgeStreak, GameMode, Statistics } from '../types/game';
-import { generateWeapon, generateArmor, generateEnemy, calculateResearchBonus } from '../utils/gameUtils';
-import { checkAchievements, initializeAchievements } from '../utils/achievements';
-import AsyncStorage from '../utils/storage';
-
-const STORAGE_KEY = 'hugoland_game_state';
-
-const initialPlayerStats: PlayerStats = {
-  hp: 200,
-  maxHp: 200,
-  atk: 50,
-  def: 0,
-  baseAtk: 50,
-  baseDef: 0,
-  baseHp: 200,
-};
-
-const initialInventory: Inventory = {
-  weapons: [],
-  armor: [],
-  currentWeapon: null,
-  currentArmor: null,
-};
-
-const initialResearch: Research = {
-  level: 0,
-  tier: 0,
-  totalSpent: 0,
-};
-
-const initialCollectionBook: CollectionBook = {
-  weapons: {},
-  armor: {},
-  totalWeaponsFound: 0,
-  totalArmorFound: 0,
-  rarityStats: {
-    common: 0,
-    rare: 0,
-    epic: 0,
-    legendary: 0,
-    mythical: 0,
-  },
-};
-
-const initialKnowledgeStreak: KnowledgeStreak = {
-  current: 0,
-  best: 0,
-  multiplier: 1,
-};
-
-const initialGameMode: GameMode = {
-  current: 'normal',
-  speedModeActive: false,
-  survivalLives: 3,
-  maxSurvivalLives: 3,
-};
-
-const initialStatistics: Statistics = {
-  totalQuestionsAnswered: 0,
-  correctAnswers: 0,
-  totalPlayTime: 0,
-  zonesReached: 1,
-  itemsCollected: 0,
-  coinsEarned: 0,
-  gemsEarned: 0,
-  chestsOpened: 0,
-  accuracyByCategory: {},
-  sessionStartTime: new Date(),
-};
-
-const initialGameState: GameState = {
-  coins: 100,
-  gems: 0,
-  zone: 1,
-  playerStats: initialPlayerStats,
-  inventory: initialInventory,
-  currentEnemy: null,
-  inCombat: false,
-  combatLog: [],
-  research: initialResearch,
-  isPremium: false,
-  achievements: initializeAchievements(),
-  collectionBook: initialCollectionBook,
-  knowledgeStreak: initialKnowledgeStreak,
-  gameMode: initialGameMode,
-  statistics: initialStatistics,
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import {
+  GameState, GameMode, GameEvent, Weapon, Armor, Gear, GearSlot, EquipmentSlot, ChestReward, QuestionAnswer, LootRuleAction,
+  LootRuleDraft,
+} from '../types/game';
+import { getActiveQuestions, parseQuestionPackFile } from '../utils/questionPacks';
+import { runAction, unlockAchievements, GameAction, DifficultyChanges } from '../utils/gameEngine';
+import { createEventBus } from '../utils/eventBus';
+import { ITEM_KIND_LABELS } from '../utils/equipment';
+import { MATERIAL_NAMES, RECIPES } from '../utils/crafting';
+import { ENHANCEMENT_MILESTONES, getEnhancement } from '../utils/enhancement';
+import { ChestId } from '../utils/chests';
+import { createRng } from '../utils/rng';
+import { createInitialGameState } from '../utils/initialState';
+import { serializeGameState, deserializeGameState } from '../utils/saveFormat';
+import {
+  SaveSlotIndex, SaveFile, loadSlotIndex, rebuildSlotIndex, saveSlotIndex, readSlot, writeSlot, removeSlot,
+  createSlotMeta, copySlotMeta, updateSlotMeta, getNextSlotName, getSlotStorageKey, createSaveFile, parseSaveFile,
+} from '../utils/saveSlots';
+import { AutosaveScheduler, AutosaveStatus, isSaveCheckpoint } from '../utils/autosave';
+import AsyncStorage, { StorageError, StorageErrorCode, StorageCorruptError, toStorageError } from '../utils/storage';
+
+export interface SaveNotice {
+  type: 'migrated' | StorageErrorCode;
+  message: string;
+  backupKey?: string;
+}
+
+const describeStorageError = (error: StorageError): string => {
+  switch (error.code) {
+    case 'quota_exceeded':
+      return 'Storage is full, so recent progress was not saved. Export or delete old save slots to free space.';
+    case 'unavailable':
+      return `Saving is unavailable: ${error.message}.`;
+    case 'corrupt':
+      return error.message;
+  }
 };
 
 export const useGameState = () => {
-  const [gameState, setGameState] = useState<GameState>(initialGameState);
+  const [gameState, setGameState] = useState<GameState>(createInitialGameState);
+  const [saveNotice, setSaveNotice] = useState<SaveNotice | null>(null);
+  const [slotIndex, setSlotIndex] = useState<SaveSlotIndex | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  const [saveStatus, setSaveStatus] = useState<AutosaveStatus>({ lastSavedAt: null, pending: false, saving: false });
+  const autosaveRef = useRef<AutosaveScheduler | null>(null);
+  const saveTargetRef = useRef<{ state: GameState; slotId: string | null }>({ state: gameState, slotId: null });
+  const previousStateRef = useRef<GameState | null>(null);
   const [visualEffects, setVisualEffects] = useState({
     showFloatingText: false,
     floatingText: '',
@@ -97,78 +53,266 @@ export const useGameState = () => {
     showParticles: false,
     showScreenShake: false,
   });
+  const stateRef = useRef<GameState>(gameState);
+  const [eventBus] = useState(() => createEventBus<GameEvent>());
 
-  // Update play time
-  useEffect(() => {
-    const interval = setInterval(() => {
-      setGameState(prev => ({
-        ...prev,
-        statistics: {
-          ...prev.statistics,
-          totalPlayTime: prev.statistics.totalPlayTime + 1,
-        },
-      }));
-    }, 1000);
+  // Keeps the ref in step with React state so the engine never runs on a stale copy
+  const commitState = useCallback((state: GameState) => {
+    stateRef.current = state;
+    setGameState(state);
+  }, []);
 
-    return () => clearInterval(interval);
+  const activeSlotId = slotIndex?.activeSlotId ?? null;
+
+  const reportStorageError = useCallback((error: unknown) => {
+    const storageError = toStorageError(error, 'access saved data');
+    const notice: SaveNotice = {
+      type: storageError.code,
+      message: describeStorageError(storageError),
+      backupKey: storageError instanceof StorageCorruptError ? storageError.backupKey : undefined,
+    };
+    // Autosave retries every change; keep the banner stable instead of re-rendering it
+    setSaveNotice(prev => prev?.type === notice.type && prev.message === notice.message ? prev : notice);
   }, []);
 
+  // Reads a slot, falling back to a fresh game when it is missing or fails validation
+  const restoreSlot = useCallback(async (slotId: string): Promise<GameState> => {
+    const savedState = await readSlot(slotId);
+    if (!savedState) return createInitialGameState();
+
+    const result = deserializeGameState(savedState);
+    if (result.status === 'loaded') {
+      if (result.migratedFrom !== null) {
+        setSaveNotice({
+          type: 'migrated',
+          message: `Your save was upgraded from version ${result.migratedFrom}.`,
+        });
+      }
+      return result.state;
+    }
+
+    // Keep the unreadable save around instead of letting the next autosave overwrite it
+    const backupKey = `${getSlotStorageKey(slotId)}_backup_${Date.now()}`;
+    await AsyncStorage.setItem(backupKey, savedState);
+    reportStorageError(new StorageCorruptError(
+      `Your save could not be loaded (${result.issues.join('; ')}). A backup was kept and a new game was started.`,
+      backupKey,
+    ));
+    return createInitialGameState();
+  }, [reportStorageError]);
+
   // Load game state from storage on mount
   useEffect(() => {
     const loadGameState = async () => {
       try {
-        const savedState = await AsyncStorage.getItem(STORAGE_KEY);
-        if (savedState) {
-          const parsedState = JSON.parse(savedState);
-          setGameState({
-            ...initialGameState,
-            ...parsedState,
-            currentEnemy: null,
-            inCombat: false,
-            combatLog: [],
-            achievements: parsedState.achievements || initializeAchievements(),
-            collectionBook: parsedState.collectionBook || initialCollectionBook,
-            knowledgeStreak: parsedState.knowledgeStreak || initialKnowledgeStreak,
-            gameMode: parsedState.gameMode || initialGameMode,
-            statistics: {
-              ...initialStatistics,
-              ...parsedState.statistics,
-              sessionStartTime: new Date(),
-            },
-            research: parsedState.research || initialResearch,
-            isPremium: parsedState.isPremium || parsedState.zone >= 50,
-          });
+        await AsyncStorage.init();
+      } catch (error) {
+        reportStorageError(error);
+      }
+
+      let index: SaveSlotIndex | null = null;
+      try {
+        index = await loadSlotIndex().catch(error => {
+          if (!(error instanceof StorageCorruptError)) throw error;
+          reportStorageError(error);
+          return rebuildSlotIndex();
+        });
+        if (index) {
+          const restoreFrom = index;
+          commitState(await restoreSlot(restoreFrom.activeSlotId).catch(error => {
+            // Play on in a new slot so autosave never overwrites the one we failed to read
+            reportStorageError(error);
+            const slot = createSlotMeta(getNextSlotName(restoreFrom), createInitialGameState());
+            index = { activeSlotId: slot.id, slots: [...restoreFrom.slots, slot] };
+            return createInitialGameState();
+          }));
         }
       } catch (error) {
-        console.error('Error loading game state:', error);
+        reportStorageError(error);
       } finally {
+        if (!index) {
+          const slot = createSlotMeta(getNextSlotName(null), createInitialGameState());
+          index = { activeSlotId: slot.id, slots: [slot] };
+        }
+        setSlotIndex(index);
         setIsLoading(false);
       }
     };
 
     loadGameState();
+  }, [restoreSlot, commitState, reportStorageError]);
+
+  useEffect(() => {
+    const scheduler = new AutosaveScheduler(async () => {
+      const { state, slotId } = saveTargetRef.current;
+      if (!slotId) return;
+      await writeSlot(slotId, serializeGameState(state));
+      setSlotIndex(prev => prev && updateSlotMeta(prev, slotId, state));
+    }, {
+      onStatusChange: setSaveStatus,
+      onError: reportStorageError,
+    });
+    autosaveRef.current = scheduler;
+
+    // Closing or hiding the tab must not lose the debounced changes
+    const flushOnHide = () => {
+      if (document.visibilityState === 'hidden') scheduler.flush();
+    };
+    const flushOnUnload = () => {
+      scheduler.flush();
+    };
+    document.addEventListener('visibilitychange', flushOnHide);
+    window.addEventListener('beforeunload', flushOnUnload);
+
+    return () => {
+      document.removeEventListener('visibilitychange', flushOnHide);
+      window.removeEventListener('beforeunload', flushOnUnload);
+      scheduler.flush();
+      scheduler.dispose();
+      autosaveRef.current = null;
+    };
+  }, [reportStorageError]);
+
+  // Queue an autosave whenever the active slot's state changes
+  useEffect(() => {
+    saveTargetRef.current = { state: gameState, slotId: activeSlotId };
+    if (isLoading || !activeSlotId) return;
+
+    const previous = previousStateRef.current;
+    previousStateRef.current = gameState;
+    if (previous && isSaveCheckpoint(previous, gameState)) {
+      autosaveRef.current?.saveNow();
+    } else {
+      autosaveRef.current?.schedule();
+    }
+  }, [gameState, isLoading, activeSlotId]);
+
+  // Writes pending changes of the current slot before another slot takes over
+  const flushAutosave = useCallback(async () => {
+    await autosaveRef.current?.flush();
   }, []);
 
-  // Save game state to storage whenever it changes
   useEffect(() => {
-    if (!isLoading) {
-      const saveGameState = async () => {
-        try {
-          const stateToSave = {
-            ...gameState,
-            currentEnemy: null,
-            inCombat: false,
-            combatLog: [],
-          };
-          await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(stateToSave));
-        } catch (error) {
-          console.error('Error saving game state:', error);
-        }
-      };
+    if (slotIndex) {
+      saveSlotIndex(slotIndex).catch(reportStorageError);
+    }
+  }, [slotIndex, reportStorageError]);
+
+  const createSaveSlot = useCallback(async (name?: string) => {
+    if (!slotIndex) return;
+    const freshState = createInitialGameState();
+    const slot = createSlotMeta(name?.trim() || getNextSlotName(slotIndex), freshState);
+    try {
+      await flushAutosave();
+      await writeSlot(slot.id, serializeGameState(freshState));
+    } catch (error) {
+      reportStorageError(error);
+      return;
+    }
+    commitState(freshState);
+    setSlotIndex({ activeSlotId: slot.id, slots: [...slotIndex.slots, slot] });
+  }, [slotIndex, flushAutosave, commitState, reportStorageError]);
+
+  const switchSaveSlot = useCallback(async (slotId: string) => {
+    if (!slotIndex || slotId === slotIndex.activeSlotId) return;
+    try {
+      await flushAutosave();
+      const state = await restoreSlot(slotId);
+      commitState(state);
+      setSlotIndex(prev => prev && { ...prev, activeSlotId: slotId });
+    } catch (error) {
+      reportStorageError(error);
+    }
+  }, [slotIndex, restoreSlot, flushAutosave, commitState, reportStorageError]);
+
+  const duplicateSaveSlot = useCallback(async (slotId: string) => {
+    const source = slotIndex?.slots.find(slot => slot.id === slotId);
+    if (!slotIndex || !source) return;
+    try {
+      const raw = slotId === slotIndex.activeSlotId ? serializeGameState(gameState) : await readSlot(slotId);
+      if (!raw) return;
+
+      const copy = copySlotMeta(source);
+      await writeSlot(copy.id, raw);
+      setSlotIndex(prev => prev && { ...prev, slots: [...prev.slots, copy] });
+    } catch (error) {
+      reportStorageError(error);
+    }
+  }, [slotIndex, gameState, reportStorageError]);
+
+  const renameSaveSlot = useCallback((slotId: string, name: string) => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    setSlotIndex(prev => prev && {
+      ...prev,
+      slots: prev.slots.map(slot => slot.id === slotId ? { ...slot, name: trimmed } : slot),
+    });
+  }, []);
 
-      saveGameState();
+  const deleteSaveSlot = useCallback(async (slotId: string) => {
+    if (!slotIndex) return;
+    const remaining = slotIndex.slots.filter(slot => slot.id !== slotId);
+    try {
+      if (slotId === slotIndex.activeSlotId) {
+        // Drop queued writes so the deleted slot is not recreated by autosave
+        autosaveRef.current?.cancel();
+        saveTargetRef.current = { ...saveTargetRef.current, slotId: null };
+      }
+      await removeSlot(slotId);
+
+      if (slotId !== slotIndex.activeSlotId) {
+        setSlotIndex({ ...slotIndex, slots: remaining });
+        return;
+      }
+
+      if (remaining.length > 0) {
+        commitState(await restoreSlot(remaining[0].id));
+        setSlotIndex({ activeSlotId: remaining[0].id, slots: remaining });
+      } else {
+        const freshState = createInitialGameState();
+        const slot = createSlotMeta(getNextSlotName(null), freshState);
+        commitState(freshState);
+        setSlotIndex({ activeSlotId: slot.id, slots: [slot] });
+      }
+    } catch (error) {
+      reportStorageError(error);
     }
-  }, [gameState, isLoading]);
+  }, [slotIndex, restoreSlot, commitState, reportStorageError]);
+
+  const exportSaveSlot = useCallback(async (slotId: string): Promise<SaveFile | null> => {
+    const slot = slotIndex?.slots.find(s => s.id === slotId);
+    if (!slotIndex || !slot) return null;
+    if (slotId === slotIndex.activeSlotId) return createSaveFile(slot, gameState);
+
+    try {
+      const raw = await readSlot(slotId);
+      const result = raw ? deserializeGameState(raw) : null;
+      return result?.status === 'loaded' ? createSaveFile(slot, result.state) : null;
+    } catch (error) {
+      reportStorageError(error);
+      return null;
+    }
+  }, [slotIndex, gameState, reportStorageError]);
+
+  // Imported saves become a new slot; the player loads it explicitly
+  const importSaveFile = useCallback(async (text: string): Promise<string[]> => {
+    const result = parseSaveFile(text);
+    if (result.status === 'invalid') return result.issues;
+
+    const slot = createSlotMeta(result.name, result.state);
+    try {
+      await writeSlot(slot.id, serializeGameState(result.state));
+    } catch (error) {
+      reportStorageError(error);
+      return [toStorageError(error, 'import save').message];
+    }
+    setSlotIndex(prev => prev && { ...prev, slots: [...prev.slots, slot] });
+    return [];
+  }, [reportStorageError]);
+
+  const dismissSaveNotice = useCallback(() => {
+    setSaveNotice(null);
+  }, []);
 
   const triggerVisualEffect = useCallback((type: 'text' | 'particles' | 'shake', data?: any) => {
     switch (type) {
@@ -196,550 +340,339 @@ export const useGameState = () => {
     }));
   }, []);
 
-  const updateCollectionBook = useCallback((item: Weapon | Armor) => {
-    setGameState(prev => {
-      const isWeapon = 'baseAtk' in item;
-      const collectionKey = isWeapon ? 'weapons' : 'armor';
-      const countKey = isWeapon ? 'totalWeaponsFound' : 'totalArmorFound';
-      
-      if (prev.collectionBook[collectionKey][item.name]) {
-        return prev; // Already discovered
-      }
+  // Visual effects are just another subscriber to what the engine reports
+  useEffect(() => {
+    const unsubscribers = [
+      eventBus.on('damageDealt', event => triggerVisualEffect('text', {
+        text: event.crit ? `CRIT -${event.damage}` : `-${event.damage}`,
+        color: event.crit ? 'text-yellow-400' : 'text-red-400',
+      })),
+      eventBus.on('damageTaken', () => triggerVisualEffect('shake')),
+      eventBus.on('enemyDefeated', event => {
+        triggerVisualEffect('particles');
+        if (event.loot.length > 0) {
+          triggerVisualEffect('text', { text: `Loot: ${event.loot.map(item => item.name).join(', ')}`, color: 'text-purple-400' });
+        }
+      }),
+      eventBus.on('bossPhaseChanged', event => {
+        triggerVisualEffect('text', { text: `${event.name} Phase!`, color: 'text-yellow-400' });
+        triggerVisualEffect('shake');
+      }),
+      eventBus.on('enemyAbilityUsed', event => {
+        if (event.ability === 'enrage') triggerVisualEffect('text', { text: 'ENRAGED!', color: 'text-red-500' });
+        if (event.ability === 'regenerate') triggerVisualEffect('text', { text: `+${event.amount}`, color: 'text-green-400' });
+      }),
+      eventBus.on('chestOpened', () => triggerVisualEffect('particles')),
+      eventBus.on('achievementUnlocked', () => triggerVisualEffect('particles')),
+      eventBus.on('streakMilestone', event => triggerVisualEffect('text', {
+        text: `${event.streak} Streak! +${Math.round((event.multiplier - 1) * 100)}% Bonus!`,
+        color: 'text-yellow-400'
+      })),
+      eventBus.on('itemUpgraded', event => {
+        const enhancement = getEnhancement(event.item);
+        if (ENHANCEMENT_MILESTONES.some(milestone => milestone.enhancement === enhancement)) {
+          triggerVisualEffect('text', { text: `+${enhancement} Milestone!`, color: 'text-yellow-400' });
+          triggerVisualEffect('particles');
+          return;
+        }
+        triggerVisualEffect('text', {
+          text: `${ITEM_KIND_LABELS[event.slot]} Upgraded!`,
+          color: event.slot === 'weapon' ? 'text-green-400' : 'text-blue-400',
+        });
+      }),
+      eventBus.on('itemEnhanceFailed', event => triggerVisualEffect('text', {
+        text: event.levelLost ? 'Enhancement failed! -1 level' : event.protected ? 'Enhancement failed! Scroll used' : 'Enhancement failed!',
+        color: 'text-red-400',
+      })),
+      eventBus.on('itemSalvaged', event => triggerVisualEffect('text', {
+        text: `+${event.materials[event.item.rarity] ?? 0} ${MATERIAL_NAMES[event.item.rarity]}`,
+        color: 'text-amber-400',
+      })),
+      eventBus.on('lootAutoProcessed', event => {
+        const parts = [
+          event.sold.length > 0 ? `sold ${event.sold.length} (+${event.coins} coins)` : '',
+          event.salvaged.length > 0 ? `salvaged ${event.salvaged.length}` : '',
+        ].filter(Boolean);
+        triggerVisualEffect('text', { text: `Auto ${parts.join(', ')}`, color: 'text-gray-300' });
+      }),
+      eventBus.on('loadoutEquipped', event => triggerVisualEffect('text', {
+        text: event.missing.length > 0
+          ? `${event.loadout.name} equipped (${event.missing.length} missing)`
+          : `${event.loadout.name} equipped!`,
+        color: 'text-blue-400',
+      })),
+      eventBus.on('itemsStashed', event => triggerVisualEffect('text', {
+        text: `Bag full! ${event.items.length} sent to stash`,
+        color: 'text-yellow-400',
+      })),
+      eventBus.on('itemCrafted', event => triggerVisualEffect('text', {
+        text: `${RECIPES[event.recipe].name}: ${event.item.name}!`,
+        color: 'text-amber-400',
+      })),
+      eventBus.on('researchLeveled', event => {
+        if (!event.tierUnlocked) return;
+        triggerVisualEffect('text', { text: `Research Tier ${event.tier + 1} Unlocked!`, color: 'text-purple-400' });
+        triggerVisualEffect('particles');
+      }),
+      eventBus.on('achievementRewards', event => triggerVisualEffect('text', {
+        text: `Achievement Rewards: +${event.coins} coins, +${event.gems} gems!`,
+        color: 'text-green-400'
+      })),
+    ];
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+  }, [eventBus, triggerVisualEffect]);
+
+  // Every game action goes through the engine against the latest state, so
+  // actions fired in the same tick see each other's results
+  const dispatch = useCallback((action: GameAction): GameEvent[] => {
+    const current = stateRef.current;
+    const { state, events } = runAction(current, action, createRng(current.rng), new Date());
+    if (state !== current) commitState(state);
+    events.forEach(eventBus.emit);
+    return events;
+  }, [commitState, eventBus]);
 
-      return {
-        ...prev,
-        collectionBook: {
-          ...prev.collectionBook,
-          [collectionKey]: {
-            ...prev.collectionBook[collectionKey],
-            [item.name]: true,
-          },
-          [countKey]: prev.collectionBook[countKey] + 1,
-          rarityStats: {
-            ...prev.collectionBook.rarityStats,
-            [item.rarity]: prev.collectionBook.rarityStats[item.rarity] + 1,
-          },
-        },
-        statistics: {
-          ...prev.statistics,
-          itemsCollected: prev.statistics.itemsCollected + 1,
-        },
-      };
-    });
-  }, []);
+  // Update play time
+  useEffect(() => {
+    const interval = setInterval(() => {
+      dispatch({ type: 'tick', seconds: 1 });
+    }, 1000);
 
-  const updateKnowledgeStreak = useCallback((correct: boolean) => {
-    setGameState(prev => {
-      const newCurrent = correct ? prev.knowledgeStreak.current + 1 : 0;
-      const newBest = Math.max(prev.knowledgeStreak.best, newCurrent);
-      const newMultiplier = Math.min(1 + Math.floor(newCurrent / 5) * 0.1, 2); // Max 2x multiplier
+    return () => clearInterval(interval);
+  }, [dispatch]);
 
-      if (correct && newCurrent > 0 && newCurrent % 5 === 0) {
-        triggerVisualEffect('text', { 
-          text: `${newCurrent} Streak! +${Math.round((newMultiplier - 1) * 100)}% Bonus!`, 
-          color: 'text-yellow-400' 
-        });
-      }
+  const checkAndUnlockAchievements = useCallback(() => {
+    const current = stateRef.current;
+    const events: GameEvent[] = [];
+    const state = unlockAchievements(current, new Date(), events);
+    if (state !== current) commitState(state);
+    events.forEach(eventBus.emit);
+  }, [commitState, eventBus]);
+
+  const setGameMode = useCallback((mode: GameMode['current']) => {
+    dispatch({ type: 'setGameMode', mode });
+  }, [dispatch]);
+
+  const updateDifficultySettings = useCallback((changes: DifficultyChanges) => {
+    dispatch({ type: 'updateDifficulty', changes });
+  }, [dispatch]);
+
+  const toggleQuestionPack = useCallback((packId: string) => {
+    dispatch({ type: 'toggleQuestionPack', packId });
+  }, [dispatch]);
+
+  const importQuestionPack = useCallback((text: string): string[] => {
+    const result = parseQuestionPackFile(text, stateRef.current.questionPacks);
+    if (!result.valid) return result.errors;
+
+    dispatch({ type: 'addQuestionPack', pack: result.pack });
+    return [];
+  }, [dispatch]);
+
+  const removeQuestionPack = useCallback((packId: string) => {
+    dispatch({ type: 'removeQuestionPack', packId });
+  }, [dispatch]);
+
+  const activeQuestions = useMemo(
+    () => getActiveQuestions(gameState.questionPacks),
+    [gameState.questionPacks]
+  );
 
-      return {
-        ...prev,
-        knowledgeStreak: {
-          current: newCurrent,
-          best: newBest,
-          multiplier: newMultiplier,
-          lastCorrectTime: correct ? new Date() : prev.knowledgeStreak.lastCorrectTime,
-        },
-      };
-    });
-  }, [triggerVisualEffect]);
+  const equipWeapon = useCallback((weapon: Weapon) => {
+    dispatch({ type: 'equipWeapon', weaponId: weapon.id });
+  }, [dispatch]);
 
-  const updateStatistics = useCallback((category: string, correct: boolean) => {
-    setGameState(prev => ({
-      ...prev,
-      statistics: {
-        ...prev.statistics,
-        totalQuestionsAnswered: prev.statistics.totalQuestionsAnswered + 1,
-        correctAnswers: prev.statistics.correctAnswers + (correct ? 1 : 0),
-        accuracyByCategory: {
-          ...prev.statistics.accuracyByCategory,
-          [category]: {
-            correct: (prev.statistics.accuracyByCategory[category]?.correct || 0) + (correct ? 1 : 0),
-            total: (prev.statistics.accuracyByCategory[category]?.total || 0) + 1,
-          },
-        },
-      },
-    }));
-  }, []);
+  const equipArmor = useCallback((armor: Armor) => {
+    dispatch({ type: 'equipArmor', armorId: armor.id });
+  }, [dispatch]);
 
-  const checkAndUnlockAchievements = useCallback(() => {
-    setGameState(prev => {
-      const newUnlocks = checkAchievements(prev);
-      
-      if (newUnlocks.length > 0) {
-        // Trigger visual effects for achievements
-        triggerVisualEffect('particles');
-        
-        // Award achievement rewards
-        let bonusCoins = 0;
-        let bonusGems = 0;
-        
-        newUnlocks.forEach(achievement => {
-          if (achievement.reward) {
-            bonusCoins += achievement.reward.coins || 0;
-            bonusGems += achievement.reward.gems || 0;
-          }
-        });
+  const upgradeWeapon = useCallback((weaponId: string, protect = false) => {
+    dispatch({ type: 'upgradeWeapon', weaponId, protect });
+  }, [dispatch]);
 
-        if (bonusCoins > 0 || bonusGems > 0) {
-          triggerVisualEffect('text', { 
-            text: `Achievement Rewards: +${bonusCoins} coins, +${bonusGems} gems!`, 
-            color: 'text-green-400' 
-          });
-        }
+  const upgradeArmor = useCallback((armorId: string, protect = false) => {
+    dispatch({ type: 'upgradeArmor', armorId, protect });
+  }, [dispatch]);
 
-        // Update achievements list
-        const updatedAchievements = prev.achievements.map(existing => {
-          const newUnlock = newUnlocks.find(nu => nu.id === existing.id);
-          return newUnlock || existing;
-        });
+  const sellWeapon = useCallback((weaponId: string) => {
+    dispatch({ type: 'sellWeapon', weaponId });
+  }, [dispatch]);
 
-        return {
-          ...prev,
-          coins: prev.coins + bonusCoins,
-          gems: prev.gems + bonusGems,
-          achievements: updatedAchievements,
-        };
-      }
+  const sellArmor = useCallback((armorId: string) => {
+    dispatch({ type: 'sellArmor', armorId });
+  }, [dispatch]);
 
-      return prev;
-    });
-  }, [triggerVisualEffect]);
-
-  const updatePlayerStats = useCallback(() => {
-    setGameState(prev => {
-      const weaponAtk = prev.inventory.currentWeapon 
-        ? prev.inventory.currentWeapon.baseAtk + (prev.inventory.currentWeapon.level - 1) * 10
-        : 0;
-      const armorDef = prev.inventory.currentArmor 
-        ? prev.inventory.currentArmor.baseDef + (prev.inventory.currentArmor.level - 1) * 5
-        : 0;
-
-      const researchBonus = calculateResearchBonus(prev.research.level, prev.research.tier);
-      const bonusMultiplier = 1 + (researchBonus / 100);
-
-      const finalAtk = Math.floor((prev.playerStats.baseAtk + weaponAtk) * bonusMultiplier);
-      const finalDef = Math.floor((prev.playerStats.baseDef + armorDef) * bonusMultiplier);
-      const finalMaxHp = Math.floor(prev.playerStats.baseHp * bonusMultiplier);
-
-      return {
-        ...prev,
-        playerStats: {
-          ...prev.playerStats,
-          atk: finalAtk,
-          def: finalDef,
-          maxHp: finalMaxHp,
-          hp: Math.min(prev.playerStats.hp, finalMaxHp),
-        },
-      };
-    });
-  }, []);
+  const equipGear = useCallback((gear: Gear, slot: GearSlot) => {
+    dispatch({ type: 'equipGear', gearId: gear.id, slot });
+  }, [dispatch]);
 
-  const setGameMode = useCallback((mode: 'normal' | 'speed' | 'survival') => {
-    setGameState(prev => ({
-      ...prev,
-      gameMode: {
-        ...prev.gameMode,
-        current: mode,
-        speedModeActive: mode === 'speed',
-        survivalLives: mode === 'survival' ? prev.gameMode.maxSurvivalLives : prev.gameMode.survivalLives,
-      },
-    }));
-  }, []);
+  const unequipSlot = useCallback((slot: EquipmentSlot) => {
+    dispatch({ type: 'unequip', slot });
+  }, [dispatch]);
 
-  const equipWeapon = useCallback((weapon: Weapon) => {
-    setGameState(prev => ({
-      ...prev,
-      inventory: {
-        ...prev.inventory,
-        currentWeapon: weapon,
-      },
-    }));
-    updatePlayerStats();
-  }, [updatePlayerStats]);
+  const upgradeGear = useCallback((gearId: string, protect = false) => {
+    dispatch({ type: 'upgradeGear', gearId, protect });
+  }, [dispatch]);
 
-  const equipArmor = useCallback((armor: Armor) => {
-    setGameState(prev => ({
-      ...prev,
-      inventory: {
-        ...prev.inventory,
-        currentArmor: armor,
-      },
-    }));
-    updatePlayerStats();
-  }, [updatePlayerStats]);
-
-  const upgradeWeapon = useCallback((weaponId: string) => {
-    setGameState(prev => {
-      const weapon = prev.inventory.weapons.find(w => w.id === weaponId);
-      if (!weapon || prev.gems < weapon.upgradeCost) return prev;
-
-      const updatedWeapons = prev.inventory.weapons.map(w =>
-        w.id === weaponId
-          ? { ...w, level: w.level + 1, upgradeCost: Math.floor(w.upgradeCost * 1.5), sellPrice: Math.floor(w.sellPrice * 1.2) }
-          : w
-      );
-
-      const updatedCurrentWeapon = prev.inventory.currentWeapon?.id === weaponId
-        ? updatedWeapons.find(w => w.id === weaponId) || null
-        : prev.inventory.currentWeapon;
-
-      triggerVisualEffect('text', { text: 'Weapon Upgraded!', color: 'text-green-400' });
-
-      return {
-        ...prev,
-        gems: prev.gems - weapon.upgradeCost,
-        inventory: {
-          ...prev.inventory,
-          weapons: updatedWeapons,
-          currentWeapon: updatedCurrentWeapon,
-        },
-      };
-    });
-    updatePlayerStats();
-  }, [updatePlayerStats, triggerVisualEffect]);
-
-  const upgradeArmor = useCallback((armorId: string) => {
-    setGameState(prev => {
-      const armor = prev.inventory.armor.find(a => a.id === armorId);
-      if (!armor || prev.gems < armor.upgradeCost) return prev;
-
-      const updatedArmor = prev.inventory.armor.map(a =>
-        a.id === armorId
-          ? { ...a, level: a.level + 1, upgradeCost: Math.floor(a.upgradeCost * 1.5), sellPrice: Math.floor(a.sellPrice * 1.2) }
-          : a
-      );
-
-      const updatedCurrentArmor = prev.inventory.currentArmor?.id === armorId
-        ? updatedArmor.find(a => a.id === armorId) || null
-        : prev.inventory.currentArmor;
-
-      triggerVisualEffect('text', { text: 'Armor Upgraded!', color: 'text-blue-400' });
-
-      return {
-        ...prev,
-        gems: prev.gems - armor.upgradeCost,
-        inventory: {
-          ...prev.inventory,
-          armor: updatedArmor,
-          currentArmor: updatedCurrentArmor,
-        },
-      };
-    });
-    updatePlayerStats();
-  }, [updatePlayerStats, triggerVisualEffect]);
+  const buyProtectionScroll = useCallback(() => {
+    dispatch({ type: 'buyProtectionScroll' });
+  }, [dispatch]);
 
-  const sellWeapon = useCallback((weaponId: string) => {
-    setGameState(prev => {
-      const weapon = prev.inventory.weapons.find(w => w.id === weaponId);
-      if (!weapon || prev.inventory.currentWeapon?.id === weaponId) return prev;
-
-      return {
-        ...prev,
-        coins: prev.coins + weapon.sellPrice,
-        inventory: {
-          ...prev.inventory,
-          weapons: prev.inventory.weapons.filter(w => w.id !== weaponId),
-        },
-      };
-    });
-  }, []);
+  const sellGear = useCallback((gearId: string) => {
+    dispatch({ type: 'sellGear', gearId });
+  }, [dispatch]);
 
-  const sellArmor = useCallback((armorId: string) => {
-    setGameState(prev => {
-      const armor = prev.inventory.armor.find(a => a.id === armorId);
-      if (!armor || prev.inventory.currentArmor?.id === armorId) return prev;
-
-      return {
-        ...prev,
-        coins: prev.coins + armor.sellPrice,
-        inventory: {
-          ...prev.inventory,
-          armor: prev.inventory.armor.filter(a => a.id !== armorId),
-        },
-      };
-    });
-  }, []);
+  const sellItems = useCallback((itemIds: string[]) => {
+    dispatch({ type: 'sellItems', itemIds });
+  }, [dispatch]);
 
-  const upgradeResearch = useCallback(() => {
-    const researchCost = 150;
-    setGameState(prev => {
-      if (prev.coins < researchCost) return prev;
-
-      const newLevel = prev.research.level + 1;
-      const newTier = Math.floor(newLevel / 10);
-      
-      if (newTier > prev.research.tier) {
-        triggerVisualEffect('text', { text: `Research Tier ${newTier + 1} Unlocked!`, color: 'text-purple-400' });
-        triggerVisualEffect('particles');
-      }
+  const toggleItemLock = useCallback((itemId: string) => {
+    dispatch({ type: 'toggleItemLock', itemId });
+  }, [dispatch]);
 
-      return {
-        ...prev,
-        coins: prev.coins - researchCost,
-        research: {
-          level: newLevel,
-          tier: newTier,
-          totalSpent: prev.research.totalSpent + researchCost,
-        },
-      };
-    });
-    updatePlayerStats();
-    checkAndUnlockAchievements();
-  }, [updatePlayerStats, triggerVisualEffect, checkAndUnlockAchievements]);
+  const saveLoadout = useCallback((name: string) => {
+    dispatch({ type: 'saveLoadout', name });
+  }, [dispatch]);
 
-  const openChest = useCallback((chestCost: number): ChestReward | null => {
-    if (gameState.coins < chestCost) return null;
+  const overwriteLoadout = useCallback((loadoutId: string) => {
+    dispatch({ type: 'overwriteLoadout', loadoutId });
+  }, [dispatch]);
 
-    const numItems = Math.floor(Math.random() * 2) + 2;
-    const bonusGems = Math.floor(Math.random() * 10) + 5;
-    const items: (Weapon | Armor)[] = [];
+  const equipLoadout = useCallback((loadoutId: string) => {
+    dispatch({ type: 'equipLoadout', loadoutId });
+  }, [dispatch]);
 
-    const isMythicalChest = chestCost === 2500;
+  const deleteLoadout = useCallback((loadoutId: string) => {
+    dispatch({ type: 'deleteLoadout', loadoutId });
+  }, [dispatch]);
 
-    for (let i = 0; i < numItems; i++) {
-      const isWeapon = Math.random() < 0.5;
-      const item = isWeapon ? generateWeapon(isMythicalChest) : generateArmor(isMythicalChest);
-      items.push(item);
-      updateCollectionBook(item);
-    }
+  const buyBagExpansion = useCallback(() => {
+    dispatch({ type: 'buyBagExpansion' });
+  }, [dispatch]);
 
-    const chestReward: ChestReward = {
-      type: Math.random() < 0.5 ? 'weapon' : 'armor',
-      items,
-    };
+  const claimStashItem = useCallback((itemId: string) => {
+    dispatch({ type: 'claimStashItem', itemId });
+  }, [dispatch]);
 
-    // Apply streak multiplier to rewards
-    const streakMultiplier = gameState.knowledgeStreak.multiplier;
-    const finalBonusGems = Math.floor(bonusGems * streakMultiplier);
+  const discardStashItem = useCallback((itemId: string, action: LootRuleAction) => {
+    dispatch({ type: 'discardStashItem', itemId, action });
+  }, [dispatch]);
 
-    setGameState(prev => ({
-      ...prev,
-      coins: prev.coins - chestCost,
-      gems: prev.gems + finalBonusGems,
-      inventory: {
-        ...prev.inventory,
-        weapons: [...prev.inventory.weapons, ...items.filter(item => 'baseAtk' in item) as Weapon[]],
-        armor: [...prev.inventory.armor, ...items.filter(item => 'baseDef' in item) as Armor[]],
-      },
-      statistics: {
-        ...prev.statistics,
-        chestsOpened: prev.statistics.chestsOpened + 1,
-        gemsEarned: prev.statistics.gemsEarned + finalBonusGems,
-      },
-    }));
+  const addLootRule = useCallback((rule: LootRuleDraft) => {
+    dispatch({ type: 'addLootRule', rule });
+  }, [dispatch]);
 
-    triggerVisualEffect('particles');
-    checkAndUnlockAchievements();
+  const removeLootRule = useCallback((ruleId: string) => {
+    dispatch({ type: 'removeLootRule', ruleId });
+  }, [dispatch]);
 
-    return chestReward;
-  }, [gameState.coins, gameState.knowledgeStreak.multiplier, updateCollectionBook, triggerVisualEffect, checkAndUnlockAchievements]);
+  const toggleLootRule = useCallback((ruleId: string) => {
+    dispatch({ type: 'toggleLootRule', ruleId });
+  }, [dispatch]);
 
-  const startCombat = useCallback(() => {
-    const enemy = generateEnemy(gameState.zone);
-    setGameState(prev => ({
-      ...prev,
-      currentEnemy: enemy,
-      inCombat: true,
-      playerStats: { 
-        ...prev.playerStats, 
-        hp: prev.gameMode.current === 'survival' ? prev.playerStats.hp : prev.playerStats.maxHp 
-      },
-      combatLog: [`You encounter a ${enemy.name} in Zone ${enemy.zone}!`],
-    }));
-  }, [gameState.zone]);
+  const salvageItem = useCallback((itemId: string) => {
+    dispatch({ type: 'salvageItem', itemId });
+  }, [dispatch]);
 
-  const attack = useCallback((hit: boolean, category?: string) => {
-    setGameState(prev => {
-      if (!prev.currentEnemy || !prev.inCombat) return prev;
+  const rerollAffixes = useCallback((itemId: string) => {
+    dispatch({ type: 'rerollAffixes', itemId });
+  }, [dispatch]);
 
-      // Update statistics and streaks
-      if (category) {
-        updateStatistics(category, hit);
-      }
-      updateKnowledgeStreak(hit);
-
-      let newCombatLog = [...prev.combatLog];
-      let newPlayerHp = prev.playerStats.hp;
-      let newEnemyHp = prev.currentEnemy.hp;
-      let combatEnded = false;
-      let playerWon = false;
-
-      if (hit) {
-        const damage = Math.max(1, prev.playerStats.atk - prev.currentEnemy.def);
-        newEnemyHp = Math.max(0, prev.currentEnemy.hp - damage);
-        newCombatLog.push(`You deal ${damage} damage to the ${prev.currentEnemy.name}!`);
-        
-        triggerVisualEffect('text', { text: `-${damage}`, color: 'text-red-400' });
-        
-        if (newEnemyHp <= 0) {
-          combatEnded = true;
-          playerWon = true;
-          newCombatLog.push(`You defeated the ${prev.currentEnemy.name}!`);
-          triggerVisualEffect('particles');
-        }
-      } else {
-        const damage = Math.max(1, prev.currentEnemy.atk - prev.playerStats.def);
-        newPlayerHp = Math.max(0, prev.playerStats.hp - damage);
-        newCombatLog.push(`You missed! The ${prev.currentEnemy.name} deals ${damage} damage to you!`);
-        
-        triggerVisualEffect('shake');
-        
-        if (newPlayerHp <= 0) {
-          combatEnded = true;
-          playerWon = false;
-          newCombatLog.push(`You were defeated by the ${prev.currentEnemy.name}...`);
-          
-          // Handle survival mode
-          if (prev.gameMode.current === 'survival') {
-            const newLives = prev.gameMode.survivalLives - 1;
-            if (newLives <= 0) {
-              newCombatLog.push('Game Over! No lives remaining.');
-            }
-          }
-        }
-      }
+  const ascendItem = useCallback((itemId: string) => {
+    dispatch({ type: 'ascendItem', itemId });
+  }, [dispatch]);
 
-      if (combatEnded) {
-        if (playerWon) {
-          // Apply game mode multipliers
-          let coinMultiplier = 1;
-          let gemMultiplier = 1;
-          
-          if (prev.gameMode.current === 'speed') {
-            coinMultiplier = 1.5;
-            gemMultiplier = 1.25;
-          } else if (prev.gameMode.current === 'survival') {
-            coinMultiplier = 2;
-            gemMultiplier = 2;
-          }
-
-          // Apply streak multiplier
-          coinMultiplier *= prev.knowledgeStreak.multiplier;
-          gemMultiplier *= prev.knowledgeStreak.multiplier;
-
-          const baseCoins = prev.zone * 8 + Math.floor(Math.random() * 15);
-          const baseGems = Math.floor(Math.random() * 3) + 1;
-          
-          const coinsEarned = Math.floor(baseCoins * coinMultiplier);
-          const gemsEarned = Math.floor(baseGems * gemMultiplier);
-          
-          newCombatLog.push(`You earned ${coinsEarned} coins and ${gemsEarned} gems!`);
-          
-          const newZone = prev.zone + 1;
-          const newIsPremium = newZone >= 50;
-          
-          return {
-            ...prev,
-            coins: prev.coins + coinsEarned,
-            gems: prev.gems + gemsEarned,
-            zone: newZone,
-            isPremium: newIsPremium,
-            currentEnemy: null,
-            inCombat: false,
-            combatLog: newCombatLog,
-            statistics: {
-              ...prev.statistics,
-              zonesReached: Math.max(prev.statistics.zonesReached, newZone),
-              coinsEarned: prev.statistics.coinsEarned + coinsEarned,
-              gemsEarned: prev.statistics.gemsEarned + gemsEarned,
-            },
-          };
-        } else {
-          // Handle defeat
-          let newGameMode = prev.gameMode;
-          
-          if (prev.gameMode.current === 'survival') {
-            newGameMode = {
-              ...prev.gameMode,
-              survivalLives: prev.gameMode.survivalLives - 1,
-            };
-            
-            if (newGameMode.survivalLives <= 0) {
-              // Reset to normal mode and zone 1
-              newGameMode = {
-                ...initialGameMode,
-                current: 'normal',
-              };
-              
-              return {
-                ...prev,
-                zone: 1,
-                currentEnemy: null,
-                inCombat: false,
-                combatLog: newCombatLog,
-                playerStats: { ...prev.playerStats, hp: 0 },
-                gameMode: newGameMode,
-                knowledgeStreak: { ...prev.knowledgeStreak, current: 0 },
-              };
-            }
-          }
-          
-          return {
-            ...prev,
-            currentEnemy: null,
-            inCombat: false,
-            combatLog: newCombatLog,
-            playerStats: { ...prev.playerStats, hp: newPlayerHp },
-            gameMode: newGameMode,
-          };
-        }
-      }
+  const fuseItems = useCallback((itemId: string) => {
+    dispatch({ type: 'fuseItems', itemId });
+  }, [dispatch]);
 
-      return {
-        ...prev,
-        currentEnemy: { ...prev.currentEnemy, hp: newEnemyHp },
-        playerStats: { ...prev.playerStats, hp: newPlayerHp },
-        combatLog: newCombatLog,
-      };
-    });
+  const craftItem = useCallback((name: string) => {
+    dispatch({ type: 'craftItem', name });
+  }, [dispatch]);
 
-    // Check achievements after combat
-    setTimeout(checkAndUnlockAchievements, 100);
-  }, [updateStatistics, updateKnowledgeStreak, triggerVisualEffect, checkAndUnlockAchievements]);
+  const upgradeResearch = useCallback(() => {
+    dispatch({ type: 'upgradeResearch' });
+  }, [dispatch]);
 
-  const resetGame = useCallback(async () => {
-    try {
-      await AsyncStorage.removeItem(STORAGE_KEY);
-      setGameState({
-        ...initialGameState,
-        achievements: initializeAchievements(),
-        statistics: {
-          ...initialStatistics,
-          sessionStartTime: new Date(),
-        },
-      });
-    } catch (error) {
-      console.error('Error resetting game:', error);
-    }
-  }, []);
+  const openChest = useCallback((chestId: ChestId): ChestReward | null => {
+    const opened = dispatch({ type: 'openChest', chestId }).find(event => event.type === 'chestOpened');
+    return opened?.type === 'chestOpened' ? opened.reward : null;
+  }, [dispatch]);
+
+  const startCombat = useCallback(() => {
+    dispatch({ type: 'startCombat' });
+  }, [dispatch]);
+
+  // Resolves whether the fight is still going after this answer
+  const attack = useCallback((hit: boolean, answer?: QuestionAnswer): boolean => {
+    dispatch({ type: 'answerQuestion', hit, answer });
+    return stateRef.current.inCombat;
+  }, [dispatch]);
+
+  // Resets only the active slot; other slots are untouched
+  const resetGame = useCallback(() => {
+    commitState(createInitialGameState());
+  }, [commitState]);
 
   return {
     gameState,
     isLoading,
+    saveNotice,
+    dismissSaveNotice,
+    saveStatus,
+    saveSlots: slotIndex?.slots ?? [],
+    activeSlotId,
+    createSaveSlot,
+    switchSaveSlot,
+    duplicateSaveSlot,
+    renameSaveSlot,
+    deleteSaveSlot,
+    exportSaveSlot,
+    importSaveFile,
     visualEffects,
     clearVisualEffect,
+    // For listeners outside the hook, such as analytics
+    onGameEvent: eventBus.on,
+    onAnyGameEvent: eventBus.onAny,
     equipWeapon,
     equipArmor,
     upgradeWeapon,
     upgradeArmor,
     sellWeapon,
     sellArmor,
+    equipGear,
+    unequipSlot,
+    upgradeGear,
+    buyProtectionScroll,
+    sellGear,
+    sellItems,
+    toggleItemLock,
+    saveLoadout,
+    overwriteLoadout,
+    equipLoadout,
+    deleteLoadout,
+    buyBagExpansion,
+    claimStashItem,
+    discardStashItem,
+    addLootRule,
+    removeLootRule,
+    toggleLootRule,
+    salvageItem,
+    rerollAffixes,
+    ascendItem,
+    fuseItems,
+    craftItem,
     upgradeResearch,
     openChest,
     startCombat,
     attack,
     resetGame,
     setGameMode,
+    updateDifficultySettings,
     checkAndUnlockAchievements,
+    activeQuestions,
+    toggleQuestionPack,
+    importQuestionPack,
+    removeQuestionPack,
   };
 };
\ No newline at end of file
@@ -14,6 +14,16 @@ export interface GameState {
   knowledgeStreak: KnowledgeStreak;
   gameMode: GameMode;
   statistics: Statistics;
+  questionPacks: QuestionPackSettings;
+  questionHistory: QuestionHistory;
+  difficulty: DifficultySettings;
+  rng: RngState;
+  achievementTracking: AchievementTracking;
+  lootPity: Record<string, number>; // kills since each loot table last paid out its pity rarity
+  materials: Materials;
+  protectionScrolls: number; // each one keeps a failed enhancement from costing a level
+  lootRules: LootRule[]; // checked in order against every drop before it reaches the bag
+  loadouts: Loadout[];
 }
 
 export interface PlayerStats {
@@ -24,6 +34,7 @@ export interface PlayerStats {
   baseAtk: number;
   baseDef: number;
   baseHp: number;
+  bonuses: AffixBonuses; // summed from equipped affixes and active set bonuses
 }
 
 export interface Research {
@@ -37,42 +48,146 @@ export interface Inventory {
   armor: Armor[];
   currentWeapon: Weapon | null;
   currentArmor: Armor | null;
+  gear: Gear[];
+  equipment: Record<GearSlot, Gear | null>;
+  lockedItemIds: string[]; // locked items cannot be sold, salvaged or fused
+  stash: Item[]; // drops that arrived while the bag was full
+  bagExpansions: number; // bag space bought with gems
+}
+
+export type ItemRarity = 'common' | 'rare' | 'epic' | 'legendary' | 'mythical';
+
+export type GearKind = 'helm' | 'boots' | 'ring' | 'amulet' | 'offhand';
+export type ItemKind = 'weapon' | 'armor' | GearKind;
+// Rings can be worn on both hands, so kinds and slots are not one to one
+export type GearSlot = 'helm' | 'boots' | 'ring1' | 'ring2' | 'amulet' | 'offhand';
+export type EquipmentSlot = 'weapon' | 'armor' | GearSlot;
+
+export interface ItemStats {
+  atk: number;
+  def: number;
+  hp: number;
+}
+
+export interface Gear {
+  id: string;
+  name: string;
+  kind: GearKind;
+  rarity: ItemRarity;
+  baseStats: ItemStats;
+  level: number;
+  upgradeCost: number;
+  sellPrice: number;
+  isChroma?: boolean;
+  affixes: ItemAffix[];
+}
+
+export type Item = Weapon | Armor | Gear;
+
+// Crafting materials come in one tier per rarity, from salvaging items of that rarity
+export type Materials = Record<ItemRarity, number>;
+
+export type CraftingRecipe = 'reroll' | 'ascend' | 'fuse' | 'craft';
+
+// A saved set of equipped item ids; a slot left out is emptied when the loadout is worn
+export interface Loadout {
+  id: string;
+  name: string;
+  slots: Partial<Record<EquipmentSlot, string>>;
+}
+
+export type LootRuleAction = 'sell' | 'salvage';
+
+export interface LootRule {
+  id: string;
+  action: LootRuleAction;
+  category: 'weapon' | 'armor' | 'gear' | 'any';
+  maxRarity: ItemRarity; // matches this rarity and everything below it
+  belowPower: number | null; // only items weaker than this, or any item when null
+  enabled: boolean;
+}
+
+export type LootRuleDraft = Omit<LootRule, 'id' | 'enabled'>;
+
+export type AffixStat = 'critChance' | 'lifesteal' | 'bonusTime' | 'streakGain' | 'categoryDamage';
+
+export interface ItemAffix {
+  id: string; // affix definition id
+  kind: 'prefix' | 'suffix';
+  name: string;
+  stat: AffixStat;
+  value: number;
+  category?: string; // only for categoryDamage
+}
+
+export interface AffixBonuses {
+  critChance: number; // added to the crit chance of full-credit answers
+  lifesteal: number; // share of damage healed on a correct answer
+  bonusTime: number; // extra seconds per question
+  streakGain: number; // extra streak steps per correct answer
+  categoryDamage: Record<string, number>; // extra damage share by question category
 }
 
 export interface Weapon {
   id: string;
   name: string;
-  rarity: 'common' | 'rare' | 'epic' | 'legendary' | 'mythical';
+  rarity: ItemRarity;
   baseAtk: number;
   level: number;
   upgradeCost: number;
   sellPrice: number;
   isChroma?: boolean;
+  affixes: ItemAffix[];
 }
 
 export interface Armor {
   id: string;
   name: string;
-  rarity: 'common' | 'rare' | 'epic' | 'legendary' | 'mythical';
+  rarity: ItemRarity;
   baseDef: number;
   level: number;
   upgradeCost: number;
   sellPrice: number;
   isChroma?: boolean;
+  affixes: ItemAffix[];
+}
+
+export type EnemyAbility = 'enrage' | 'shield' | 'regenerate' | 'double-strike';
+
+// What the enemy will do this turn, shown before the player answers
+export type EnemyIntent = 'attack' | 'double-strike' | 'shield';
+
+export interface EnemyPhase {
+  name: string;
+  hpShare: number; // the phase starts once HP drops below this share of max HP
+  atkMultiplier: number;
+  abilities: EnemyAbility[];
 }
 
 export interface Enemy {
+  id: string; // new for every fight, while the rest of the enemy changes turn by turn
   name: string;
   hp: number;
   maxHp: number;
   atk: number;
   def: number;
   zone: number;
+  archetype: string;
+  baseAtk: number; // before phase and enrage multipliers
+  abilities: EnemyAbility[];
+  weakness?: string; // question category that deals extra damage
+  resistance?: string; // question category that deals reduced damage
+  turn: number; // 1 for the first question of the fight
+  intent: EnemyIntent;
+  enraged: boolean;
+  isBoss: boolean;
+  phases: EnemyPhase[]; // bosses only
+  phase: number;
 }
 
 export interface ChestReward {
-  type: 'weapon' | 'armor' | 'gems';
-  items?: (Weapon | Armor)[];
+  type: 'items' | 'gems'; // 'gems' when the chest rolled no items
+  items?: Item[];
   gems?: number;
 }
 
@@ -90,13 +205,59 @@ export interface Achievement {
     gems?: number;
     special?: string;
   };
+  tier?: AchievementTier;
+  hidden?: boolean; // name and description stay secret until unlocked
+  prerequisites?: string[]; // achievement ids that must unlock first
+}
+
+export type AchievementTier = 'bronze' | 'silver' | 'gold';
+
+// Read straight off the game state
+export type AchievementStateMetric =
+  | 'zone'
+  | 'itemsDiscovered'
+  | 'researchTier'
+  | 'bestStreak'
+  | 'coinsEarned'
+  | 'chestsOpened'
+  | 'questionsAnswered'
+  | 'accuracy'
+  | 'legendaryItemsFound'
+  | 'mythicalItemsFound';
+
+// Counted from engine events, so they can also be limited to a time window
+export type AchievementEventMetric = 'victories' | 'flawlessVictories' | 'criticalHits' | 'quickAnswers';
+
+export type AchievementMetric = AchievementStateMetric | AchievementEventMetric;
+
+export type AchievementComparator = '>=' | '>' | '<=' | '<' | '==';
+
+export interface AchievementCondition {
+  metric: AchievementMetric;
+  comparator: AchievementComparator;
+  threshold: number;
+  windowSeconds?: number; // event metrics only
+}
+
+export interface AchievementDefinition extends Omit<Achievement, 'unlocked' | 'unlockedAt' | 'progress' | 'maxProgress'> {
+  condition: AchievementCondition; // drives the progress bar
+  requires?: AchievementCondition[]; // must also hold, but are not shown as progress
+}
+
+export interface AchievementTracking {
+  counts: Partial<Record<AchievementEventMetric, number>>;
+  recent: Partial<Record<AchievementEventMetric, number[]>>; // epoch ms, oldest first
+  missesThisCombat: number;
 }
 
 export interface CollectionBook {
   weapons: { [key: string]: boolean };
   armor: { [key: string]: boolean };
+  affixes: { [key: string]: boolean }; // by affix definition id
+  gear: { [key: string]: boolean };
   totalWeaponsFound: number;
   totalArmorFound: number;
+  totalGearFound: number;
   rarityStats: {
     common: number;
     rare: number;
@@ -133,7 +294,170 @@ export interface Statistics {
     [category: string]: {
       correct: number;
       total: number;
+      answerTime: number; // seconds, summed over timedAnswers
+      timedAnswers: number; // answers given before response times were recorded are not counted
     };
   };
   sessionStartTime: Date;
-}
\ No newline at end of file
+}
+
+export type QuestionDifficulty = 'easy' | 'medium' | 'hard';
+
+export type QuestionKind = 'multiple-choice' | 'true-false' | 'numeric' | 'ordering' | 'multi-select' | 'image';
+
+interface BaseQuestion {
+  id: string;
+  question: string;
+  category: string;
+  difficulty: QuestionDifficulty;
+  explanation?: string;
+  packId?: string;
+}
+
+export interface MultipleChoiceQuestion extends BaseQuestion {
+  kind: 'multiple-choice';
+  options: string[];
+  correctAnswer: number;
+}
+
+export interface TrueFalseQuestion extends BaseQuestion {
+  kind: 'true-false';
+  answer: boolean;
+}
+
+export interface NumericQuestion extends BaseQuestion {
+  kind: 'numeric';
+  answer: number;
+  tolerance: number; // answers within this distance get full credit
+  unit?: string;
+}
+
+export interface OrderingQuestion extends BaseQuestion {
+  kind: 'ordering';
+  items: string[]; // in the correct order; shuffled for display
+}
+
+export interface MultiSelectQuestion extends BaseQuestion {
+  kind: 'multi-select';
+  options: string[];
+  correctAnswers: number[];
+}
+
+export interface ImageQuestion extends BaseQuestion {
+  kind: 'image';
+  image: { src: string; alt: string };
+  options: string[];
+  correctAnswer: number;
+}
+
+export type TriviaQuestion =
+  | MultipleChoiceQuestion
+  | TrueFalseQuestion
+  | NumericQuestion
+  | OrderingQuestion
+  | MultiSelectQuestion
+  | ImageQuestion;
+
+// What the player submitted; null when the timer ran out
+export type QuestionResponse =
+  | { kind: 'choice'; index: number }
+  | { kind: 'true-false'; value: boolean }
+  | { kind: 'numeric'; value: number }
+  | { kind: 'ordering'; order: string[] }
+  | { kind: 'multi-select'; indices: number[] }
+  | null;
+
+export interface QuestionPack {
+  id: string;
+  name: string;
+  version: number;
+  description?: string;
+  author?: string;
+  categories: string[];
+  questions: TriviaQuestion[];
+}
+
+export interface QuestionPackSettings {
+  disabledPackIds: string[];
+  customPacks: QuestionPack[];
+}
+
+export interface QuestionRecord {
+  seen: number;
+  correct: number;
+  lastSeenAt: string;
+  lastSeenTurn: number;
+  box: number; // Leitner box, 0 = still being learned
+  dueTurn: number;
+}
+
+export interface QuestionHistory {
+  turn: number; // answers given so far; the scheduler's clock
+  records: { [questionId: string]: QuestionRecord };
+}
+
+// What Combat reports about an answered question
+export interface QuestionAnswer {
+  questionId: string;
+  category: string;
+  difficulty: QuestionDifficulty;
+  responseTime: number; // seconds; the full time limit when the timer ran out
+  timeLimit: number;
+  credit: number; // 0-1; partly right answers deal partial damage
+}
+
+export interface AnswerSample extends Omit<QuestionAnswer, 'questionId' | 'credit'> {
+  correct: boolean;
+}
+
+export type DifficultyMode = 'adaptive' | 'zone' | 'locked';
+
+export interface DifficultyRules {
+  sampleSize: number; // recent answers considered
+  minSamples: number; // answers needed before difficulty moves off the zone default
+  raiseAccuracy: number; // 0-1
+  lowerAccuracy: number; // 0-1
+  fastAnswerRatio: number; // share of the timer; faster correct answers count as confident
+  slowAnswerRatio: number;
+  maxShift: number; // steps away from the zone's difficulty
+  weakCategoryBias: number; // 0 picks categories evenly
+}
+
+export interface DifficultySettings {
+  mode: DifficultyMode;
+  lockedDifficulty: QuestionDifficulty;
+  rules: DifficultyRules;
+  recentAnswers: AnswerSample[];
+}
+
+export interface RngState {
+  seed: number; // what the game was started with, for sharing or replaying a run
+  state: number; // advances with every roll
+}
+
+// What the game engine reports happened; subscribers turn these into effects and bookkeeping
+export type GameEvent =
+  | { type: 'combatStarted'; enemy: Enemy }
+  | { type: 'answerGraded'; answer: QuestionAnswer; correct: boolean }
+  | { type: 'damageDealt'; damage: number; crit: boolean; partial: boolean }
+  | { type: 'damageTaken'; damage: number }
+  | { type: 'enemyDefeated'; enemy: Enemy; coins: number; gems: number; loot: Item[] }
+  | { type: 'enemyAbilityUsed'; ability: EnemyAbility; amount: number }
+  | { type: 'bossPhaseChanged'; phase: number; name: string }
+  | { type: 'playerDefeated'; enemy: Enemy; gameOver: boolean }
+  | { type: 'zoneEntered'; zone: number; previousZone: number }
+  | { type: 'streakMilestone'; streak: number; multiplier: number }
+  | { type: 'chestOpened'; reward: ChestReward }
+  | { type: 'itemDiscovered'; item: Item }
+  | { type: 'itemUpgraded'; slot: ItemKind; item: Item }
+  | { type: 'itemEnhanceFailed'; item: Item; levelLost: boolean; protected: boolean }
+  | { type: 'itemSalvaged'; item: Item; materials: Partial<Materials> }
+  | { type: 'itemCrafted'; recipe: CraftingRecipe; item: Item }
+  | { type: 'lootAutoProcessed'; sold: Item[]; salvaged: Item[]; coins: number; materials: Partial<Materials> }
+  | { type: 'itemsStashed'; items: Item[] }
+  | { type: 'loadoutEquipped'; loadout: Loadout; missing: EquipmentSlot[] }
+  | { type: 'researchLeveled'; level: number; tier: number; tierUnlocked: boolean }
+  | { type: 'achievementUnlocked'; achievement: Achievement }
+  | { type: 'achievementRewards'; coins: number; gems: number };
+
+export type GameEventType = GameEvent['type'];
@@ -1,12 +1,19 @@
-import { Achievement, GameState } from '../types/game';
+import {
+  Achievement, AchievementCondition, AchievementDefinition, AchievementEventMetric, AchievementMetric,
+  AchievementTracking, GameEvent, GameState,
+} from '../types/game';
+import { isQuickAnswer } from './answerBonus';
 
-export const achievementDefinitions: Omit<Achievement, 'unlocked' | 'unlockedAt' | 'progress'>[] = [
+// Achievements are data: a metric compared against a threshold, optionally within a
+// time window, gated by other conditions or by earlier achievements in a chain.
+// New ones only need an entry here unless they measure something new.
+export const achievementDefinitions: AchievementDefinition[] = [
   {
     id: 'first_victory',
     name: 'First Victory',
     description: 'Win your first battle',
     icon: '🏆',
-    maxProgress: 1,
+    condition: { metric: 'victories', comparator: '>=', threshold: 1 },
     reward: { coins: 50, gems: 5 }
   },
   {
@@ -14,7 +21,8 @@ export const achievementDefinitions: Omit<Achievement, 'unlocked' | 'unlockedAt'
     name: 'Zone Explorer',
     description: 'Reach Zone 10',
     icon: '🗺️',
-    maxProgress: 10,
+    condition: { metric: 'zone', comparator: '>=', threshold: 10 },
+    tier: 'bronze',
     reward: { coins: 200, gems: 10 }
   },
   {
@@ -22,7 +30,9 @@ export const achievementDefinitions: Omit<Achievement, 'unlocked' | 'unlockedAt'
     name: 'Zone Conqueror',
     description: 'Reach Zone 25',
     icon: '⚔️',
-    maxProgress: 25,
+    condition: { metric: 'zone', comparator: '>=', threshold: 25 },
+    tier: 'silver',
+    prerequisites: ['zone_master_10'],
     reward: { coins: 500, gems: 25 }
   },
   {
@@ -30,7 +40,9 @@ export const achievementDefinitions: Omit<Achievement, 'unlocked' | 'unlockedAt'
     name: 'Zone Legend',
     description: 'Reach Zone 50 and unlock Premium',
     icon: '👑',
-    maxProgress: 50,
+    condition: { metric: 'zone', comparator: '>=', threshold: 50 },
+    tier: 'gold',
+    prerequisites: ['zone_master_25'],
     reward: { coins: 1000, gems: 50, special: 'Premium Access' }
   },
   {
@@ -38,7 +50,7 @@ export const achievementDefinitions: Omit<Achievement, 'unlocked' | 'unlockedAt'
     name: 'Item Collector',
     description: 'Collect 25 different items',
     icon: '📦',
-    maxProgress: 25,
+    condition: { metric: 'itemsDiscovered', comparator: '>=', threshold: 25 },
     reward: { coins: 300, gems: 15 }
   },
   {
@@ -46,7 +58,7 @@ export const achievementDefinitions: Omit<Achievement, 'unlocked' | 'unlockedAt'
     name: 'Master Collector',
     description: 'Collect 50 different items',
     icon: '🎒',
-    maxProgress: 50,
+    condition: { metric: 'itemsDiscovered', comparator: '>=', threshold: 50 },
     reward: { coins: 750, gems: 35 }
   },
   {
@@ -54,7 +66,7 @@ export const achievementDefinitions: Omit<Achievement, 'unlocked' | 'unlockedAt'
     name: 'Scholar',
     description: 'Reach Research Tier 3',
     icon: '🧠',
-    maxProgress: 3,
+    condition: { metric: 'researchTier', comparator: '>=', threshold: 3 },
     reward: { coins: 400, gems: 20 }
   },
   {
@@ -62,7 +74,7 @@ export const achievementDefinitions: Omit<Achievement, 'unlocked' | 'unlockedAt'
     name: 'Master Scholar',
     description: 'Reach Research Tier 5',
     icon: '📚',
-    maxProgress: 5,
+    condition: { metric: 'researchTier', comparator: '>=', threshold: 5 },
     reward: { coins: 800, gems: 40 }
   },
   {
@@ -70,7 +82,7 @@ export const achievementDefinitions: Omit<Achievement, 'unlocked' | 'unlockedAt'
     name: 'Knowledge Streak',
     description: 'Get 10 correct answers in a row',
     icon: '🔥',
-    maxProgress: 10,
+    condition: { metric: 'bestStreak', comparator: '>=', threshold: 10 },
     reward: { coins: 250, gems: 12 }
   },
   {
@@ -78,7 +90,7 @@ export const achievementDefinitions: Omit<Achievement, 'unlocked' | 'unlockedAt'
     name: 'Genius Streak',
     description: 'Get 25 correct answers in a row',
     icon: '⚡',
-    maxProgress: 25,
+    condition: { metric: 'bestStreak', comparator: '>=', threshold: 25 },
     reward: { coins: 600, gems: 30 }
   },
   {
@@ -86,7 +98,7 @@ export const achievementDefinitions: Omit<Achievement, 'unlocked' | 'unlockedAt'
     name: 'Coin Collector',
     description: 'Earn 1000 total coins',
     icon: '💰',
-    maxProgress: 1000,
+    condition: { metric: 'coinsEarned', comparator: '>=', threshold: 1000 },
     reward: { gems: 20 }
   },
   {
@@ -94,7 +106,7 @@ export const achievementDefinitions: Omit<Achievement, 'unlocked' | 'unlockedAt'
     name: 'Rich Adventurer',
     description: 'Earn 5000 total coins',
     icon: '💎',
-    maxProgress: 5000,
+    condition: { metric: 'coinsEarned', comparator: '>=', threshold: 5000 },
     reward: { gems: 50 }
   },
   {
@@ -102,7 +114,7 @@ export const achievementDefinitions: Omit<Achievement, 'unlocked' | 'unlockedAt'
     name: 'Treasure Hunter',
     description: 'Open 10 chests',
     icon: '🗝️',
-    maxProgress: 10,
+    condition: { metric: 'chestsOpened', comparator: '>=', threshold: 10 },
     reward: { coins: 200, gems: 10 }
   },
   {
@@ -110,7 +122,8 @@ export const achievementDefinitions: Omit<Achievement, 'unlocked' | 'unlockedAt'
     name: 'Perfect Scholar',
     description: 'Maintain 90% accuracy over 50 questions',
     icon: '🎯',
-    maxProgress: 50,
+    condition: { metric: 'questionsAnswered', comparator: '>=', threshold: 50 },
+    requires: [{ metric: 'accuracy', comparator: '>=', threshold: 0.9 }],
     reward: { coins: 500, gems: 25 }
   },
   {
@@ -118,7 +131,7 @@ export const achievementDefinitions: Omit<Achievement, 'unlocked' | 'unlockedAt'
     name: 'Legendary Hunter',
     description: 'Find your first Legendary item',
     icon: '✨',
-    maxProgress: 1,
+    condition: { metric: 'legendaryItemsFound', comparator: '>=', threshold: 1 },
     reward: { coins: 300, gems: 15 }
   },
   {
@@ -126,110 +139,181 @@ export const achievementDefinitions: Omit<Achievement, 'unlocked' | 'unlockedAt'
     name: 'Mythical Seeker',
     description: 'Find your first Mythical item',
     icon: '🌟',
-    maxProgress: 1,
+    condition: { metric: 'mythicalItemsFound', comparator: '>=', threshold: 1 },
     reward: { coins: 500, gems: 25 }
+  },
+  {
+    id: 'flawless_bronze',
+    name: 'Untouchable',
+    description: 'Win a battle without missing a question',
+    icon: '🛡️',
+    condition: { metric: 'flawlessVictories', comparator: '>=', threshold: 1 },
+    tier: 'bronze',
+    reward: { coins: 100, gems: 5 }
+  },
+  {
+    id: 'flawless_silver',
+    name: 'Untouchable II',
+    description: 'Win 10 battles without missing a question',
+    icon: '🛡️',
+    condition: { metric: 'flawlessVictories', comparator: '>=', threshold: 10 },
+    tier: 'silver',
+    prerequisites: ['flawless_bronze'],
+    reward: { coins: 300, gems: 15 }
+  },
+  {
+    id: 'flawless_gold',
+    name: 'Untouchable III',
+    description: 'Win 50 battles without missing a question',
+    icon: '🛡️',
+    condition: { metric: 'flawlessVictories', comparator: '>=', threshold: 50 },
+    tier: 'gold',
+    prerequisites: ['flawless_silver'],
+    reward: { coins: 800, gems: 40 }
+  },
+  {
+    id: 'critical_thinker',
+    name: 'Critical Thinker',
+    description: 'Land 25 critical hits',
+    icon: '💥',
+    condition: { metric: 'criticalHits', comparator: '>=', threshold: 25 },
+    reward: { coins: 250, gems: 12 }
+  },
+  {
+    id: 'lightning_round',
+    name: 'Lightning Round',
+    description: 'Win 5 battles within 3 minutes',
+    icon: '⏱️',
+    condition: { metric: 'victories', comparator: '>=', threshold: 5, windowSeconds: 180 },
+    hidden: true,
+    reward: { coins: 300, gems: 15 }
   }
 ];
 
-export const checkAchievements = (gameState: GameState): Achievement[] => {
-  const newUnlocks: Achievement[] = [];
-  
-  achievementDefinitions.forEach(def => {
-    const existing = gameState.achievements.find(a => a.id === def.id);
-    if (existing?.unlocked) return;
-
-    let progress = 0;
-    let shouldUnlock = false;
-
-    switch (def.id) {
-      case 'first_victory':
-        progress = gameState.zone > 1 ? 1 : 0;
-        break;
-      case 'zone_master_10':
-        progress = Math.min(gameState.zone, 10);
-        shouldUnlock = gameState.zone >= 10;
-        break;
-      case 'zone_master_25':
-        progress = Math.min(gameState.zone, 25);
-        shouldUnlock = gameState.zone >= 25;
-        break;
-      case 'zone_master_50':
-        progress = Math.min(gameState.zone, 50);
-        shouldUnlock = gameState.zone >= 50;
-        break;
-      case 'collector_25':
-        progress = Math.min(gameState.collectionBook.totalWeaponsFound + gameState.collectionBook.totalArmorFound, 25);
-        shouldUnlock = progress >= 25;
-        break;
-      case 'collector_50':
-        progress = Math.min(gameState.collectionBook.totalWeaponsFound + gameState.collectionBook.totalArmorFound, 50);
-        shouldUnlock = progress >= 50;
-        break;
-      case 'scholar_tier_3':
-        progress = Math.min(gameState.research.tier + 1, 3);
-        shouldUnlock = gameState.research.tier >= 2;
-        break;
-      case 'scholar_tier_5':
-        progress = Math.min(gameState.research.tier + 1, 5);
-        shouldUnlock = gameState.research.tier >= 4;
-        break;
-      case 'streak_master_10':
-        progress = Math.min(gameState.knowledgeStreak.best, 10);
-        shouldUnlock = gameState.knowledgeStreak.best >= 10;
-        break;
-      case 'streak_master_25':
-        progress = Math.min(gameState.knowledgeStreak.best, 25);
-        shouldUnlock = gameState.knowledgeStreak.best >= 25;
-        break;
-      case 'wealthy_1000':
-        progress = Math.min(gameState.statistics.coinsEarned, 1000);
-        shouldUnlock = gameState.statistics.coinsEarned >= 1000;
-        break;
-      case 'wealthy_5000':
-        progress = Math.min(gameState.statistics.coinsEarned, 5000);
-        shouldUnlock = gameState.statistics.coinsEarned >= 5000;
-        break;
-      case 'chest_opener_10':
-        progress = Math.min(gameState.statistics.chestsOpened, 10);
-        shouldUnlock = gameState.statistics.chestsOpened >= 10;
-        break;
-      case 'accuracy_master':
-        const totalAnswered = gameState.statistics.totalQuestionsAnswered;
-        if (totalAnswered >= 50) {
-          const accuracy = gameState.statistics.correctAnswers / totalAnswered;
-          progress = accuracy >= 0.9 ? 50 : 0;
-          shouldUnlock = accuracy >= 0.9;
-        }
-        break;
-      case 'legendary_finder':
-        progress = gameState.collectionBook.rarityStats.legendary > 0 ? 1 : 0;
-        shouldUnlock = progress >= 1;
-        break;
-      case 'mythical_finder':
-        progress = gameState.collectionBook.rarityStats.mythical > 0 ? 1 : 0;
-        shouldUnlock = progress >= 1;
-        break;
+const definitionsById = new Map(achievementDefinitions.map(def => [def.id, def]));
+
+// Timestamps kept per event metric; enough for any window a definition asks for
+const MAX_RECENT_EVENTS = 100;
+
+const EVENT_METRICS: AchievementEventMetric[] = ['victories', 'flawlessVictories', 'criticalHits', 'quickAnswers'];
+
+const isEventMetric = (metric: AchievementMetric): metric is AchievementEventMetric =>
+  (EVENT_METRICS as AchievementMetric[]).includes(metric);
+
+const readStateMetric = (metric: Exclude<AchievementMetric, AchievementEventMetric>, state: GameState): number => {
+  switch (metric) {
+    case 'zone': return state.zone;
+    case 'itemsDiscovered':
+      return state.collectionBook.totalWeaponsFound + state.collectionBook.totalArmorFound + state.collectionBook.totalGearFound;
+    case 'researchTier': return state.research.tier + 1;
+    case 'bestStreak': return state.knowledgeStreak.best;
+    case 'coinsEarned': return state.statistics.coinsEarned;
+    case 'chestsOpened': return state.statistics.chestsOpened;
+    case 'questionsAnswered': return state.statistics.totalQuestionsAnswered;
+    case 'accuracy': {
+      const { totalQuestionsAnswered, correctAnswers } = state.statistics;
+      return totalQuestionsAnswered > 0 ? correctAnswers / totalQuestionsAnswered : 0;
     }
+    case 'legendaryItemsFound': return state.collectionBook.rarityStats.legendary;
+    case 'mythicalItemsFound': return state.collectionBook.rarityStats.mythical;
+  }
+};
+
+const readMetric = ({ metric, windowSeconds }: AchievementCondition, state: GameState, now: Date): number => {
+  if (!isEventMetric(metric)) return readStateMetric(metric, state);
+  const tracking = state.achievementTracking;
+  if (windowSeconds === undefined) return tracking.counts[metric] ?? 0;
+  const since = now.getTime() - windowSeconds * 1000;
+  return (tracking.recent[metric] ?? []).filter(time => time > since).length;
+};
+
+const compare = (value: number, { comparator, threshold }: AchievementCondition): boolean => {
+  switch (comparator) {
+    case '>=': return value >= threshold;
+    case '>': return value > threshold;
+    case '<=': return value <= threshold;
+    case '<': return value < threshold;
+    case '==': return value === threshold;
+  }
+};
+
+// Counting metrics fill a bar up to the threshold; anything else is simply met or not
+export const getMaxProgress = ({ comparator, threshold }: AchievementCondition): number => {
+  if (comparator === '>=') return threshold;
+  if (comparator === '>') return threshold + 1;
+  return 1;
+};
 
-    if (shouldUnlock && !existing?.unlocked) {
-      newUnlocks.push({
-        ...def,
-        unlocked: true,
-        unlockedAt: new Date(),
-        progress: def.maxProgress
-      });
-    } else if (existing) {
-      existing.progress = progress;
+const evaluateAchievement = (def: AchievementDefinition, state: GameState, now: Date) => {
+  const value = readMetric(def.condition, state, now);
+  const met = compare(value, def.condition) &&
+    (def.requires ?? []).every(condition => compare(readMetric(condition, state, now), condition));
+  const maxProgress = getMaxProgress(def.condition);
+  const progress = def.condition.comparator === '>=' || def.condition.comparator === '>'
+    ? Math.min(value, maxProgress)
+    : (met ? 1 : 0);
+  return { progress, met };
+};
+
+// Returns the achievement list brought up to date. Changed entries are replaced
+// rather than mutated, so earlier states are never touched. Definitions are
+// evaluated in order, so a whole chain can unlock in one check.
+export const checkAchievements = (gameState: GameState, now: Date): Achievement[] => {
+  const unlockedIds = new Set(gameState.achievements.filter(a => a.unlocked).map(a => a.id));
+
+  return gameState.achievements.map(existing => {
+    const def = definitionsById.get(existing.id);
+    if (existing.unlocked || !def) return existing;
+
+    const { progress, met } = evaluateAchievement(def, gameState, now);
+    const prerequisitesMet = (def.prerequisites ?? []).every(id => unlockedIds.has(id));
+    if (met && prerequisitesMet) {
+      unlockedIds.add(existing.id);
+      return { ...existing, unlocked: true, unlockedAt: now, progress: existing.maxProgress };
     }
+    return progress === existing.progress ? existing : { ...existing, progress };
   });
+};
 
-  return newUnlocks;
+const countEvent = (tracking: AchievementTracking, metric: AchievementEventMetric, now: number): AchievementTracking => ({
+  ...tracking,
+  counts: { ...tracking.counts, [metric]: (tracking.counts[metric] ?? 0) + 1 },
+  recent: { ...tracking.recent, [metric]: [...(tracking.recent[metric] ?? []), now].slice(-MAX_RECENT_EVENTS) },
+});
+
+// Event subscriber that keeps the counters event metrics are read from
+export const trackAchievementEvent = (tracking: AchievementTracking, event: GameEvent, now: number): AchievementTracking => {
+  switch (event.type) {
+    case 'combatStarted':
+      return { ...tracking, missesThisCombat: 0 };
+    case 'damageTaken':
+      return { ...tracking, missesThisCombat: tracking.missesThisCombat + 1 };
+    case 'enemyDefeated': {
+      const counted = countEvent(tracking, 'victories', now);
+      return tracking.missesThisCombat === 0 ? countEvent(counted, 'flawlessVictories', now) : counted;
+    }
+    case 'damageDealt':
+      return event.crit ? countEvent(tracking, 'criticalHits', now) : tracking;
+    case 'answerGraded':
+      return event.correct && isQuickAnswer(event.answer) ? countEvent(tracking, 'quickAnswers', now) : tracking;
+    default:
+      return tracking;
+  }
 };
 
-export const initializeAchievements = (): Achievement[] => {
-  return achievementDefinitions.map(def => ({
-    ...def,
-    unlocked: false,
-    progress: 0
-  }));
-};
\ No newline at end of file
+// Only what the UI and the save need; the rules stay in the definitions
+export const createAchievement = (def: AchievementDefinition): Achievement => ({
+  id: def.id,
+  name: def.name,
+  description: def.description,
+  icon: def.icon,
+  reward: def.reward,
+  tier: def.tier,
+  hidden: def.hidden,
+  prerequisites: def.prerequisites,
+  unlocked: false,
+  progress: 0,
+  maxProgress: getMaxProgress(def.condition),
+});
+
+export const initializeAchievements = (): Achievement[] => achievementDefinitions.map(createAchievement);
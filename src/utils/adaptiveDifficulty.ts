@@ -0,0 +1,116 @@
+import { AnswerSample, DifficultyRules, DifficultySettings, QuestionDifficulty, TriviaQuestion } from '../types/game';
+import { Rng } from './rng';
+
+export const DIFFICULTY_LEVELS: QuestionDifficulty[] = ['easy', 'medium', 'hard'];
+
+export const DEFAULT_DIFFICULTY_RULES: DifficultyRules = {
+  sampleSize: 12,
+  minSamples: 5,
+  raiseAccuracy: 0.8,
+  lowerAccuracy: 0.5,
+  fastAnswerRatio: 0.4,
+  slowAnswerRatio: 0.8,
+  maxShift: 1,
+  weakCategoryBias: 2,
+};
+
+// Samples kept in the save, so raising sampleSize later still has data to work with
+const MAX_STORED_SAMPLES = 50;
+
+export interface PerformanceSummary {
+  samples: number;
+  accuracy: number;
+  averageTimeRatio: number; // response time as a share of the time limit
+}
+
+export interface QuestionTarget {
+  difficulty: QuestionDifficulty;
+  category?: string;
+}
+
+export const recordAnswerSample = (settings: DifficultySettings, sample: AnswerSample): DifficultySettings => ({
+  ...settings,
+  recentAnswers: [...settings.recentAnswers, sample].slice(-MAX_STORED_SAMPLES),
+});
+
+export const summarizePerformance = (samples: AnswerSample[]): PerformanceSummary => {
+  if (samples.length === 0) return { samples: 0, accuracy: 0, averageTimeRatio: 0 };
+  const correct = samples.filter(sample => sample.correct).length;
+  const totalRatio = samples.reduce(
+    (sum, sample) => sum + Math.min(1, sample.responseTime / Math.max(1, sample.timeLimit)),
+    0
+  );
+  return {
+    samples: samples.length,
+    accuracy: correct / samples.length,
+    averageTimeRatio: totalRatio / samples.length,
+  };
+};
+
+const getRecentSamples = (settings: DifficultySettings, category?: string): AnswerSample[] => {
+  const samples = category
+    ? settings.recentAnswers.filter(sample => sample.category === category)
+    : settings.recentAnswers;
+  return samples.slice(-settings.rules.sampleSize);
+};
+
+// How many difficulty steps the player's recent answers justify, before maxShift is applied
+const getShift = ({ accuracy, averageTimeRatio }: PerformanceSummary, rules: DifficultyRules): number => {
+  if (accuracy <= rules.lowerAccuracy) return -1;
+  if (accuracy < rules.raiseAccuracy) return 0;
+  // Right but barely beating the timer is not yet a reason to step up
+  if (averageTimeRatio > rules.slowAnswerRatio) return 0;
+  return averageTimeRatio <= rules.fastAnswerRatio ? 2 : 1;
+};
+
+export const chooseDifficulty = (
+  zoneDifficulty: QuestionDifficulty,
+  settings: DifficultySettings,
+  category?: string
+): QuestionDifficulty => {
+  if (settings.mode === 'locked') return settings.lockedDifficulty;
+  if (settings.mode === 'zone') return zoneDifficulty;
+
+  const { rules } = settings;
+  // A category with enough answers of its own is judged on those alone
+  const categorySamples = category ? getRecentSamples(settings, category) : [];
+  const samples = categorySamples.length >= rules.minSamples ? categorySamples : getRecentSamples(settings);
+  if (samples.length < rules.minSamples) return zoneDifficulty;
+
+  const maxShift = Math.max(0, Math.floor(rules.maxShift));
+  const shift = Math.max(-maxShift, Math.min(maxShift, getShift(summarizePerformance(samples), rules)));
+  const base = DIFFICULTY_LEVELS.indexOf(zoneDifficulty);
+  return DIFFICULTY_LEVELS[Math.max(0, Math.min(DIFFICULTY_LEVELS.length - 1, base + shift))];
+};
+
+// Weighted draw that favours categories the player has been getting wrong
+export const chooseCategory = (categories: string[], settings: DifficultySettings, rng: Rng): string | undefined => {
+  if (settings.mode !== 'adaptive' || settings.rules.weakCategoryBias <= 0 || categories.length < 2) {
+    return undefined;
+  }
+
+  const weights = categories.map(category => {
+    const summary = summarizePerformance(getRecentSamples(settings, category));
+    // Unplayed categories sit in the middle so they still come up
+    const accuracy = summary.samples > 0 ? summary.accuracy : 0.5;
+    return 1 + settings.rules.weakCategoryBias * (1 - accuracy);
+  });
+
+  let roll = rng.next() * weights.reduce((a, b) => a + b, 0);
+  for (let i = 0; i < categories.length; i++) {
+    roll -= weights[i];
+    if (roll < 0) return categories[i];
+  }
+  return categories[categories.length - 1];
+};
+
+export const chooseQuestionTarget = (
+  zoneDifficulty: QuestionDifficulty,
+  pool: TriviaQuestion[],
+  settings: DifficultySettings,
+  rng: Rng
+): QuestionTarget => {
+  const categories = [...new Set(pool.map(question => question.category))];
+  const category = chooseCategory(categories, settings, rng);
+  return { difficulty: chooseDifficulty(zoneDifficulty, settings, category), category };
+};
@@ -0,0 +1,107 @@
+import { AffixBonuses, AffixStat, ItemAffix, ItemKind, ItemRarity, Item } from '../types/game';
+import { Rng } from './rng';
+
+export interface AffixDefinition {
+  id: string;
+  kind: 'prefix' | 'suffix';
+  name: string;
+  stat: AffixStat;
+  baseValue: number; // before rarity scaling and the random roll
+  slots: ItemKind[];
+  category?: string;
+}
+
+const LORE_CATEGORIES = ['Geography', 'Science', 'Art', 'Math', 'Literature', 'History', 'Technology', 'Culture'];
+
+export const AFFIX_DEFINITIONS: AffixDefinition[] = [
+  { id: 'keen', kind: 'prefix', name: 'Keen', stat: 'critChance', baseValue: 0.04, slots: ['weapon', 'ring'] },
+  { id: 'vampiric', kind: 'prefix', name: 'Vampiric', stat: 'lifesteal', baseValue: 0.1, slots: ['weapon', 'amulet'] },
+  { id: 'patient', kind: 'prefix', name: 'Patient', stat: 'bonusTime', baseValue: 1, slots: ['armor', 'helm', 'boots'] },
+  { id: 'zealous', kind: 'prefix', name: 'Zealous', stat: 'streakGain', baseValue: 1, slots: ['armor', 'helm', 'amulet', 'offhand'] },
+  { id: 'precision', kind: 'suffix', name: 'of Precision', stat: 'critChance', baseValue: 0.03, slots: ['weapon', 'armor', 'helm', 'ring'] },
+  { id: 'leech', kind: 'suffix', name: 'of the Leech', stat: 'lifesteal', baseValue: 0.06, slots: ['armor', 'offhand'] },
+  { id: 'patience', kind: 'suffix', name: 'of Patience', stat: 'bonusTime', baseValue: 1, slots: ['weapon', 'boots', 'offhand'] },
+  { id: 'momentum', kind: 'suffix', name: 'of Momentum', stat: 'streakGain', baseValue: 1, slots: ['weapon', 'ring', 'amulet'] },
+  ...LORE_CATEGORIES.map((category): AffixDefinition => ({
+    id: `lore-${category.toLowerCase()}`,
+    kind: 'suffix',
+    name: `of ${category}`,
+    stat: 'categoryDamage',
+    baseValue: 0.2,
+    slots: ['weapon', 'amulet', 'offhand'],
+    category,
+  })),
+];
+
+// Better items carry more affixes, and stronger ones
+export const AFFIX_COUNT: Record<ItemRarity, number> = { common: 0, rare: 1, epic: 1, legendary: 2, mythical: 2 };
+const AFFIX_SCALE: Record<ItemRarity, number> = { common: 1, rare: 1, epic: 1.5, legendary: 2, mythical: 2.5 };
+
+// Streak steps and timer seconds only come in whole numbers
+const roundAffixValue = (stat: AffixStat, value: number): number =>
+  stat === 'streakGain' || stat === 'bonusTime'
+    ? Math.max(1, Math.round(value))
+    : Math.round(value * 100) / 100;
+
+const rollAffix = (definition: AffixDefinition, rarity: ItemRarity, rng: Rng): ItemAffix => ({
+  id: definition.id,
+  kind: definition.kind,
+  name: definition.name,
+  stat: definition.stat,
+  // Each roll lands within 20% either side of the rarity's value
+  value: roundAffixValue(definition.stat, definition.baseValue * AFFIX_SCALE[rarity] * (0.8 + 0.4 * rng.next())),
+  ...(definition.category ? { category: definition.category } : {}),
+});
+
+export const rollAffixes = (rng: Rng, slot: ItemKind, rarity: ItemRarity): ItemAffix[] => {
+  const count = AFFIX_COUNT[rarity];
+  if (count === 0) return [];
+
+  // At most one prefix and one suffix, so the name still reads naturally
+  const kinds: ItemAffix['kind'][] = count >= 2 ? ['prefix', 'suffix'] : [rng.chance(0.5) ? 'prefix' : 'suffix'];
+  return kinds.map(kind => {
+    const pool = AFFIX_DEFINITIONS.filter(definition => definition.kind === kind && definition.slots.includes(slot));
+    return rollAffix(rng.pick(pool), rarity, rng);
+  });
+};
+
+export const getItemDisplayName = (item: Item): string => {
+  const prefix = item.affixes.find(affix => affix.kind === 'prefix');
+  const suffix = item.affixes.find(affix => affix.kind === 'suffix');
+  return [prefix?.name, item.name, suffix?.name].filter(Boolean).join(' ');
+};
+
+export const describeAffix = (affix: Pick<ItemAffix, 'stat' | 'value' | 'category'>): string => {
+  const percent = Math.round(affix.value * 100);
+  switch (affix.stat) {
+    case 'critChance': return `+${percent}% crit chance`;
+    case 'lifesteal': return `Heal ${percent}% of damage on correct answers`;
+    case 'bonusTime': return `+${affix.value}s to answer`;
+    case 'streakGain': return `+${affix.value} streak per correct answer`;
+    case 'categoryDamage': return `+${percent}% damage on ${affix.category} questions`;
+  }
+};
+
+export const getAffixBonuses = (items: Item[]): AffixBonuses => {
+  const bonuses: AffixBonuses = { critChance: 0, lifesteal: 0, bonusTime: 0, streakGain: 0, categoryDamage: {} };
+  items.forEach(item => {
+    item.affixes.forEach(affix => {
+      if (affix.stat === 'categoryDamage') {
+        if (affix.category) {
+          bonuses.categoryDamage[affix.category] = (bonuses.categoryDamage[affix.category] ?? 0) + affix.value;
+        }
+      } else {
+        bonuses[affix.stat] += affix.value;
+      }
+    });
+  });
+  return bonuses;
+};
+
+export const describeAffixBonuses = (bonuses: AffixBonuses): string[] => [
+  ...(['critChance', 'lifesteal', 'bonusTime', 'streakGain'] as const)
+    .filter(stat => bonuses[stat] > 0)
+    .map(stat => describeAffix({ stat, value: Math.round(bonuses[stat] * 100) / 100 })),
+  ...Object.entries(bonuses.categoryDamage)
+    .map(([category, value]) => describeAffix({ stat: 'categoryDamage', value, category })),
+];
@@ -0,0 +1,50 @@
+import { QuestionAnswer, QuestionDifficulty } from '../types/game';
+
+const DIFFICULTY_DAMAGE: Record<QuestionDifficulty, number> = {
+  easy: 1,
+  medium: 1.15,
+  hard: 1.3,
+};
+
+const DIFFICULTY_CRIT: Record<QuestionDifficulty, number> = {
+  easy: 0,
+  medium: 0.05,
+  hard: 0.1,
+};
+
+const BASE_CRIT_CHANCE = 0.05;
+const SPEED_CRIT_CHANCE = 0.2;
+// An instant answer deals this much more than one given on the last tick
+const MAX_SPEED_DAMAGE_BONUS = 0.5;
+export const CRIT_MULTIPLIER = 2;
+// Answers using less than this share of the timer count as quick
+const QUICK_ANSWER_SPEED = 0.5;
+
+export interface AnswerBonus {
+  speed: number; // 0 on the last tick, 1 for an instant answer
+  damageMultiplier: number;
+  critChance: number;
+  streakGain: number;
+}
+
+export const getAnswerSpeed = ({ responseTime, timeLimit }: Pick<QuestionAnswer, 'responseTime' | 'timeLimit'>): number =>
+  timeLimit > 0 ? Math.max(0, Math.min(1, 1 - responseTime / timeLimit)) : 0;
+
+export const isQuickAnswer = (answer: Pick<QuestionAnswer, 'responseTime' | 'timeLimit'>): boolean =>
+  getAnswerSpeed(answer) >= QUICK_ANSWER_SPEED;
+
+export const getAnswerBonus = (answer: QuestionAnswer): AnswerBonus => {
+  const speed = getAnswerSpeed(answer);
+  const fullCredit = answer.credit >= 1;
+
+  return {
+    speed,
+    damageMultiplier: answer.credit * DIFFICULTY_DAMAGE[answer.difficulty] * (1 + MAX_SPEED_DAMAGE_BONUS * speed),
+    // Partly right answers never crit
+    critChance: fullCredit ? BASE_CRIT_CHANCE + SPEED_CRIT_CHANCE * speed + DIFFICULTY_CRIT[answer.difficulty] : 0,
+    // Quick and hard answers each add an extra step to the knowledge streak
+    streakGain: fullCredit
+      ? 1 + (speed >= QUICK_ANSWER_SPEED ? 1 : 0) + (answer.difficulty === 'hard' ? 1 : 0)
+      : 0,
+  };
+};
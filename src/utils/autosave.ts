@@ -0,0 +1,129 @@
+import { GameState, Inventory } from '../types/game';
+import { getAllItems } from './equipment';
+
+export interface AutosaveStatus {
+  lastSavedAt: Date | null;
+  pending: boolean;
+  saving: boolean;
+}
+
+interface AutosaveOptions {
+  debounceMs?: number;
+  // Upper bound on how long a burst can postpone a save. The play-time tick
+  // changes state every second, so a plain debounce would never fire.
+  maxWaitMs?: number;
+  onStatusChange?: (status: AutosaveStatus) => void;
+  onError?: (error: unknown) => void;
+}
+
+// Bag and stash together, so moving an item between them is not a loss
+const countOwnedItems = (inventory: Inventory): number => getAllItems(inventory).length + inventory.stash.length;
+
+// Progress worth persisting right away instead of waiting for the debounce.
+// Any item leaving (sold, salvaged or fused, one at a time or in bulk) counts.
+export const isSaveCheckpoint = (prev: GameState, next: GameState): boolean =>
+  next.zone !== prev.zone ||
+  next.statistics.chestsOpened !== prev.statistics.chestsOpened ||
+  countOwnedItems(next.inventory) < countOwnedItems(prev.inventory);
+
+export class AutosaveScheduler {
+  private readonly save: () => Promise<void>;
+  private readonly debounceMs: number;
+  private readonly maxWaitMs: number;
+  private readonly onStatusChange?: (status: AutosaveStatus) => void;
+  private readonly onError?: (error: unknown) => void;
+
+  private debounceTimer: ReturnType<typeof setTimeout> | null = null;
+  private maxWaitTimer: ReturnType<typeof setTimeout> | null = null;
+  private inFlight: Promise<void> | null = null;
+  private dirty = false;
+  private lastSavedAt: Date | null = null;
+  private lastStatus: AutosaveStatus | null = null;
+
+  constructor(save: () => Promise<void>, options: AutosaveOptions = {}) {
+    this.save = save;
+    this.debounceMs = options.debounceMs ?? 2000;
+    this.maxWaitMs = options.maxWaitMs ?? 15000;
+    this.onStatusChange = options.onStatusChange;
+    this.onError = options.onError;
+  }
+
+  // Marks state as changed; bursts of calls coalesce into a single write
+  schedule(): void {
+    this.dirty = true;
+    if (this.debounceTimer) clearTimeout(this.debounceTimer);
+    this.debounceTimer = setTimeout(() => this.flush(), this.debounceMs);
+    if (!this.maxWaitTimer) {
+      this.maxWaitTimer = setTimeout(() => this.flush(), this.maxWaitMs);
+    }
+    this.emitStatus();
+  }
+
+  // Checkpoint: write now regardless of the debounce
+  saveNow(): Promise<void> {
+    this.dirty = true;
+    return this.flush();
+  }
+
+  // Writes pending changes, waiting for any write already in progress first
+  async flush(): Promise<void> {
+    this.clearTimers();
+    while (this.inFlight) {
+      await this.inFlight;
+    }
+    if (!this.dirty) return;
+
+    this.dirty = false;
+    this.inFlight = this.run();
+    this.emitStatus();
+    try {
+      await this.inFlight;
+    } finally {
+      this.inFlight = null;
+      this.emitStatus();
+    }
+  }
+
+  // Drops pending changes without writing them
+  cancel(): void {
+    this.clearTimers();
+    this.dirty = false;
+    this.emitStatus();
+  }
+
+  dispose(): void {
+    this.clearTimers();
+  }
+
+  private async run(): Promise<void> {
+    try {
+      await this.save();
+      this.lastSavedAt = new Date();
+    } catch (error) {
+      // Stay dirty so the next change or flush retries the write
+      this.dirty = true;
+      this.onError?.(error);
+    }
+  }
+
+  private clearTimers(): void {
+    if (this.debounceTimer) clearTimeout(this.debounceTimer);
+    if (this.maxWaitTimer) clearTimeout(this.maxWaitTimer);
+    this.debounceTimer = null;
+    this.maxWaitTimer = null;
+  }
+
+  private emitStatus(): void {
+    const status: AutosaveStatus = {
+      lastSavedAt: this.lastSavedAt,
+      pending: this.dirty,
+      saving: this.inFlight !== null,
+    };
+    const last = this.lastStatus;
+    if (last && last.lastSavedAt === status.lastSavedAt && last.pending === status.pending && last.saving === status.saving) {
+      return;
+    }
+    this.lastStatus = status;
+    this.onStatusChange?.(status);
+  }
+}
@@ -0,0 +1,306 @@
+import { GameState, GameMode, GameEvent, QuestionAnswer, QuestionDifficulty, Weapon, Armor, Gear } from '../types/game';
+import { runAction, GameAction, RESEARCH_COST } from './gameEngine';
+import { getChest } from './chests';
+import { createInitialGameState } from './initialState';
+import { getActiveQuestions } from './questionPacks';
+import { getQuestionByZone } from './triviaQuestions';
+import { getTimeLimit } from './questionGrading';
+import { GEAR_SLOTS, getItemStats, getSlotsForKind } from './equipment';
+import { isAtEnhancementCap } from './enhancement';
+import { getItemPower } from './inventoryFilters';
+import { createRng, deriveRng, seedRng } from './rng';
+
+// Plays the real game rules headlessly with simulated players, so balance
+// changes can be judged on progression curves instead of gut feeling.
+
+export type ChestPolicy = 'none' | 'cheapest' | 'mythical';
+
+export interface PlayerProfile {
+  id: string;
+  description: string;
+  accuracy: Record<QuestionDifficulty, number>; // chance of a fully right answer
+  answerSpeed: number; // share of the time limit used per answer
+  chestPolicy: ChestPolicy; // 'mythical' buys basic chests until Mythical ones unlock
+  researchShare: number; // 0-1 of coin spending that goes to research rather than chests
+}
+
+export const PLAYER_PROFILES: PlayerProfile[] = [
+  {
+    id: 'casual',
+    description: 'Guesses often, answers slowly, buys cheap chests',
+    accuracy: { easy: 0.8, medium: 0.6, hard: 0.45 },
+    answerSpeed: 0.7,
+    chestPolicy: 'cheapest',
+    researchShare: 0.3,
+  },
+  {
+    id: 'steady',
+    description: 'Solid student who splits coins between research and chests',
+    accuracy: { easy: 0.9, medium: 0.75, hard: 0.6 },
+    answerSpeed: 0.5,
+    chestPolicy: 'cheapest',
+    researchShare: 0.5,
+  },
+  {
+    id: 'scholar',
+    description: 'Puts every coin into research and never opens chests',
+    accuracy: { easy: 0.9, medium: 0.75, hard: 0.6 },
+    answerSpeed: 0.5,
+    chestPolicy: 'none',
+    researchShare: 1,
+  },
+  {
+    id: 'expert',
+    description: 'Fast and accurate, saves for Mythical chests once Premium',
+    accuracy: { easy: 0.97, medium: 0.9, hard: 0.8 },
+    answerSpeed: 0.3,
+    chestPolicy: 'mythical',
+    researchShare: 0.7,
+  },
+];
+
+export interface SimulationOptions {
+  seed: number;
+  mode: GameMode['current'];
+  maxZone: number;
+  maxSeconds: number;
+  stallDeaths: number; // deaths in one zone before the run counts as stuck
+}
+
+export const DEFAULT_SIMULATION_OPTIONS: SimulationOptions = {
+  seed: 1,
+  mode: 'normal',
+  maxZone: 60,
+  maxSeconds: 8 * 60 * 60,
+  stallDeaths: 100,
+};
+
+export interface ZoneStats {
+  zone: number;
+  reachedAt: number; // simulated seconds since the run started
+  timeSpent: number;
+  questions: number;
+  deaths: number;
+  coinsEarned: number;
+}
+
+export interface SimulationResult {
+  profile: string;
+  seed: number;
+  mode: GameMode['current'];
+  finalZone: number;
+  elapsed: number;
+  questions: number;
+  deaths: number;
+  timeToPremium: number | null;
+  stoppedBy: 'max-zone' | 'max-time' | 'stalled';
+  researchLevel: number;
+  chestsOpened: number;
+  zones: ZoneStats[];
+}
+
+// Wall-clock costs of things the UI makes the player wait for, in seconds
+const RESULT_DELAY = 2;
+const CHEST_DELAY = 1.5;
+const COMBAT_START_DELAY = 1;
+// Selling chest loot can be worth more than the chest, so without a cap a
+// profile would shop forever instead of going back to fight
+const MAX_SHOP_ACTIONS = 20;
+
+const SIM_EPOCH = Date.UTC(2024, 0, 1);
+
+const weaponPower = (weapon: Weapon) => getItemStats(weapon).atk;
+const armorPower = (armor: Armor) => getItemStats(armor).def;
+const gearPower = (gear: Gear) => getItemPower(gear);
+
+const strongest = <T>(items: T[], power: (item: T) => number): T | undefined =>
+  items.reduce<T | undefined>((best, item) => (!best || power(item) > power(best) ? item : best), undefined);
+
+// What the profile does between fights: wear the best gear, sell the rest,
+// then spend gems on upgrades and coins on research or chests
+const planShopping = (state: GameState, profile: PlayerProfile, chestSpent: number): GameAction | null => {
+  const { inventory } = state;
+  const bestWeapon = strongest(inventory.weapons, weaponPower);
+  if (bestWeapon && bestWeapon.id !== inventory.currentWeapon?.id) {
+    return { type: 'equipWeapon', weaponId: bestWeapon.id };
+  }
+  const bestArmor = strongest(inventory.armor, armorPower);
+  if (bestArmor && bestArmor.id !== inventory.currentArmor?.id) {
+    return { type: 'equipArmor', armorId: bestArmor.id };
+  }
+
+  // Fill each accessory slot with the strongest piece not already worn elsewhere
+  for (const slot of GEAR_SLOTS) {
+    const worn = GEAR_SLOTS.filter(other => other !== slot).map(other => inventory.equipment[other]?.id);
+    const candidates = inventory.gear.filter(g => getSlotsForKind(g.kind).includes(slot) && !worn.includes(g.id));
+    const best = strongest(candidates, gearPower);
+    if (best && best.id !== inventory.equipment[slot]?.id) return { type: 'equipGear', gearId: best.id, slot };
+  }
+
+  const spareWeapon = inventory.weapons.find(w => w.id !== inventory.currentWeapon?.id);
+  if (spareWeapon) return { type: 'sellWeapon', weaponId: spareWeapon.id };
+  const spareArmor = inventory.armor.find(a => a.id !== inventory.currentArmor?.id);
+  if (spareArmor) return { type: 'sellArmor', armorId: spareArmor.id };
+  const spareGear = inventory.gear.find(g => !GEAR_SLOTS.some(slot => inventory.equipment[slot]?.id === g.id));
+  if (spareGear) return { type: 'sellGear', gearId: spareGear.id };
+
+  const upgrades = [inventory.currentWeapon, inventory.currentArmor]
+    .filter((item): item is Weapon | Armor => !!item && !isAtEnhancementCap(item) && item.upgradeCost <= state.gems)
+    .sort((a, b) => a.upgradeCost - b.upgradeCost);
+  if (upgrades.length > 0) {
+    const item = upgrades[0];
+    return 'baseAtk' in item
+      ? { type: 'upgradeWeapon', weaponId: item.id }
+      : { type: 'upgradeArmor', armorId: item.id };
+  }
+
+  const chest = getChest(profile.chestPolicy === 'mythical' && state.isPremium ? 'mythical' : 'basic');
+  const researchSpent = state.research.totalSpent;
+  const wantsResearch = profile.chestPolicy === 'none' ||
+    researchSpent <= (researchSpent + chestSpent) * profile.researchShare;
+
+  if (wantsResearch && state.coins >= RESEARCH_COST) return { type: 'upgradeResearch' };
+  if (!wantsResearch && chest && state.coins >= chest.cost) return { type: 'openChest', chestId: chest.id };
+  return null;
+};
+
+const createZoneStats = (zone: number, reachedAt: number): ZoneStats => ({
+  zone, reachedAt, timeSpent: 0, questions: 0, deaths: 0, coinsEarned: 0,
+});
+
+export const simulateRun = (
+  profile: PlayerProfile,
+  options: Partial<SimulationOptions> = {}
+): SimulationResult => {
+  const { seed, mode, maxZone, maxSeconds, stallDeaths } = { ...DEFAULT_SIMULATION_OPTIONS, ...options };
+  // Game rolls and the player's own rolls use separate streams, so changing a
+  // profile does not reshuffle the loot every other profile sees
+  const playerRng = deriveRng(seed, 'player', profile.id);
+
+  let state: GameState = { ...createInitialGameState(), rng: seedRng(seed) };
+  let elapsed = 0;
+  let questions = 0;
+  let deaths = 0;
+  let chestSpent = 0;
+  let shopActions = 0;
+  let timeToPremium: number | null = null;
+  const zones = new Map<number, ZoneStats>([[1, createZoneStats(1, 0)]]);
+
+  const zoneStats = (zone: number) => {
+    const stats = zones.get(zone) ?? createZoneStats(zone, elapsed);
+    zones.set(zone, stats);
+    return stats;
+  };
+
+  const apply = (action: GameAction): GameEvent[] => {
+    const result = runAction(state, action, createRng(state.rng), new Date(SIM_EPOCH + elapsed * 1000));
+    state = result.state;
+    return result.events;
+  };
+
+  apply({ type: 'setGameMode', mode });
+
+  let stoppedBy: SimulationResult['stoppedBy'] = 'max-time';
+  while (elapsed < maxSeconds) {
+    if (state.zone >= maxZone) {
+      stoppedBy = 'max-zone';
+      break;
+    }
+    if (zoneStats(state.zone).deaths >= stallDeaths) {
+      stoppedBy = 'stalled';
+      break;
+    }
+
+    if (!state.inCombat) {
+      const action = shopActions < MAX_SHOP_ACTIONS ? planShopping(state, profile, chestSpent) : null;
+      if (action) {
+        shopActions++;
+        if (action.type === 'openChest') {
+          elapsed += CHEST_DELAY;
+          chestSpent += getChest(action.chestId)?.cost ?? 0;
+        }
+        apply(action);
+        continue;
+      }
+      shopActions = 0;
+      elapsed += COMBAT_START_DELAY;
+      apply({ type: 'startCombat' });
+      continue;
+    }
+
+    const zone = state.zone;
+    const question = getQuestionByZone(zone, getActiveQuestions(state.questionPacks), {
+      rng: playerRng,
+      history: state.questionHistory,
+      difficultySettings: state.difficulty,
+    });
+    const timeLimit = getTimeLimit(question, state.gameMode.speedModeActive ? 3 : 5) + state.playerStats.bonuses.bonusTime;
+    const correct = playerRng.chance(profile.accuracy[question.difficulty]);
+    // A wrong answer is as likely to be a timeout as a quick guess
+    const responseTime = correct ? timeLimit * profile.answerSpeed : timeLimit * playerRng.next();
+    const answer: QuestionAnswer = {
+      questionId: question.id,
+      category: question.category,
+      difficulty: question.difficulty,
+      responseTime,
+      timeLimit,
+      credit: correct ? 1 : 0,
+    };
+
+    elapsed += responseTime + RESULT_DELAY;
+    const stats = zoneStats(zone);
+    stats.questions++;
+    questions++;
+
+    apply({ type: 'answerQuestion', hit: correct, answer })
+      .forEach(event => {
+        if (event.type === 'enemyDefeated') stats.coinsEarned += event.coins;
+        if (event.type === 'playerDefeated') {
+          stats.deaths++;
+          deaths++;
+        }
+      });
+
+    if (state.zone !== zone) zoneStats(state.zone);
+    if (timeToPremium === null && state.isPremium) timeToPremium = elapsed;
+  }
+
+  const zoneList = [...zones.values()].sort((a, b) => a.zone - b.zone);
+  zoneList.forEach((stats, i) => {
+    stats.timeSpent = (zoneList[i + 1]?.reachedAt ?? elapsed) - stats.reachedAt;
+  });
+
+  return {
+    profile: profile.id,
+    seed,
+    mode,
+    finalZone: state.zone,
+    elapsed,
+    questions,
+    deaths,
+    timeToPremium,
+    stoppedBy,
+    researchLevel: state.research.level,
+    chestsOpened: state.statistics.chestsOpened,
+    zones: zoneList,
+  };
+};
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+export const resultsToCsv = (results: SimulationResult[]): string => {
+  const header = 'profile,seed,mode,zone,reached_at_s,time_in_zone_s,questions,deaths,coins_earned';
+  const rows = results.flatMap(result => result.zones.map(zone => [
+    result.profile, result.seed, result.mode, zone.zone, round(zone.reachedAt), round(zone.timeSpent),
+    zone.questions, zone.deaths, zone.coinsEarned,
+  ].join(',')));
+  return [header, ...rows].join('\n') + '\n';
+};
+
+export const resultsToJson = (results: SimulationResult[]): string =>
+  JSON.stringify(results.map(result => ({
+    ...result,
+    elapsed: round(result.elapsed),
+    timeToPremium: result.timeToPremium === null ? null : round(result.timeToPremium),
+    zones: result.zones.map(zone => ({ ...zone, reachedAt: round(zone.reachedAt), timeSpent: round(zone.timeSpent) })),
+  })), null, 2) + '\n';
@@ -0,0 +1,131 @@
+import { Item, ItemKind, ItemRarity } from '../types/game';
+import { Rng } from './rng';
+import { generateItemOfRarity, RARITY_ORDER } from './gameUtils';
+import { GEAR_KINDS } from './equipment';
+import { isAtLeastRarity } from './lootTables';
+
+export type ChestId = 'basic' | 'rare' | 'epic' | 'legendary' | 'mythical';
+
+export interface ChestDefinition {
+  id: ChestId;
+  name: string;
+  description: string;
+  cost: number;
+  rarityWeights: Record<ItemRarity, number>; // mythical rolls are chroma items
+  itemCount: { min: number; max: number };
+  gems: { min: number; max: number }; // before the knowledge streak multiplier
+  guaranteedSlots: ItemRarity[]; // each entry is one item that never rolls below that rarity
+  premiumOnly?: boolean;
+}
+
+// Weapons and armor are the staples, the other slots share the rest
+export const CHEST_KIND_WEIGHTS: Record<ItemKind, number> = {
+  weapon: 35,
+  armor: 35,
+  ...Object.fromEntries(GEAR_KINDS.map(kind => [kind, 6])) as Record<(typeof GEAR_KINDS)[number], number>,
+};
+
+export const CHESTS: ChestDefinition[] = [
+  {
+    id: 'basic',
+    name: 'Basic Chest',
+    description: 'A handful of everyday gear',
+    cost: 50,
+    rarityWeights: { common: 43, rare: 28, epic: 19, legendary: 5, mythical: 5 },
+    itemCount: { min: 2, max: 3 },
+    gems: { min: 5, max: 14 },
+    guaranteedSlots: [],
+  },
+  {
+    id: 'rare',
+    name: 'Rare Chest',
+    description: 'At least one rare item',
+    cost: 150,
+    rarityWeights: { common: 25, rare: 40, epic: 25, legendary: 7, mythical: 3 },
+    itemCount: { min: 2, max: 3 },
+    gems: { min: 8, max: 18 },
+    guaranteedSlots: ['rare'],
+  },
+  {
+    id: 'epic',
+    name: 'Epic Chest',
+    description: 'No commons, at least one epic item',
+    cost: 400,
+    rarityWeights: { common: 0, rare: 35, epic: 45, legendary: 15, mythical: 5 },
+    itemCount: { min: 3, max: 3 },
+    gems: { min: 12, max: 25 },
+    guaranteedSlots: ['epic'],
+  },
+  {
+    id: 'legendary',
+    name: 'Legendary Chest',
+    description: 'At least one legendary item',
+    cost: 1000,
+    rarityWeights: { common: 0, rare: 15, epic: 45, legendary: 32, mythical: 8 },
+    itemCount: { min: 3, max: 4 },
+    gems: { min: 20, max: 40 },
+    guaranteedSlots: ['legendary'],
+  },
+  {
+    id: 'mythical',
+    name: 'Mythical Chest',
+    description: 'Guaranteed Chroma items!',
+    cost: 2500,
+    rarityWeights: { common: 0, rare: 0, epic: 0, legendary: 0, mythical: 1 },
+    itemCount: { min: 2, max: 3 },
+    gems: { min: 30, max: 60 },
+    guaranteedSlots: [],
+    premiumOnly: true,
+  },
+];
+
+export const getChest = (id: ChestId): ChestDefinition | undefined => CHESTS.find(chest => chest.id === id);
+
+export const getAvailableChests = (isPremium: boolean): ChestDefinition[] =>
+  CHESTS.filter(chest => !chest.premiumOnly || isPremium);
+
+const toOdds = <K extends string>(weights: Record<K, number>): Record<K, number> => {
+  const total = Object.values<number>(weights).reduce((sum, weight) => sum + weight, 0);
+  return Object.fromEntries(
+    Object.entries<number>(weights).map(([key, weight]) => [key, total > 0 ? weight / total : 0])
+  ) as Record<K, number>;
+};
+
+// Chance of each rarity in one slot. Rolling and the odds panel both read this, so the
+// published numbers are the ones the game uses
+export const getRarityOdds = (chest: ChestDefinition, minRarity: ItemRarity = 'common'): Record<ItemRarity, number> =>
+  toOdds(Object.fromEntries(RARITY_ORDER.map(rarity => [
+    rarity,
+    isAtLeastRarity(rarity, minRarity) ? chest.rarityWeights[rarity] : 0,
+  ])) as Record<ItemRarity, number>);
+
+export const getKindOdds = (): Record<ItemKind, number> => toOdds(CHEST_KIND_WEIGHTS);
+
+const pickWeighted = <K extends string>(rng: Rng, odds: Record<K, number>): K => {
+  const entries = (Object.entries<number>(odds) as [K, number][]).filter(([, chance]) => chance > 0);
+  let random = rng.next();
+  for (const [key, chance] of entries) {
+    random -= chance;
+    if (random < 0) return key;
+  }
+  // Rounding can leave a sliver past the last entry
+  return entries[entries.length - 1][0];
+};
+
+export interface ChestRoll {
+  items: Item[];
+  gems: number;
+}
+
+export const rollChest = (chest: ChestDefinition, rng: Rng): ChestRoll => {
+  const count = rng.int(chest.itemCount.min, chest.itemCount.max);
+  const kindOdds = getKindOdds();
+  const items: Item[] = [];
+
+  for (let i = 0; i < count; i++) {
+    const rarity = pickWeighted(rng, getRarityOdds(chest, chest.guaranteedSlots[i]));
+    items.push(generateItemOfRarity(rng, pickWeighted(rng, kindOdds), rarity));
+  }
+
+  return { items, gems: rng.int(chest.gems.min, chest.gems.max) };
+};
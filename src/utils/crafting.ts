@@ -0,0 +1,109 @@
+import { CollectionBook, CraftingRecipe, Inventory, Item, ItemRarity, Materials } from '../types/game';
+import { AFFIX_COUNT } from './affixes';
+import { RARITY_ORDER, ITEM_TEMPLATES, ItemTemplate, findItemTemplate } from './gameUtils';
+import { canDiscardItem, getAllItems, getItemKind } from './equipment';
+
+export const MATERIAL_NAMES: Record<ItemRarity, string> = {
+  common: 'Scrap',
+  rare: 'Arcane Dust',
+  epic: 'Ember Crystal',
+  legendary: 'Starshard',
+  mythical: 'Void Essence',
+};
+
+export interface RecipeDefinition {
+  name: string;
+  description: string;
+  cost: number; // materials of the item's own rarity
+}
+
+export const RECIPES: Record<CraftingRecipe, RecipeDefinition> = {
+  reroll: { name: 'Reroll Affixes', description: 'Roll new affixes for the item', cost: 3 },
+  ascend: { name: 'Ascend', description: 'Reforge the item one rarity higher, keeping its name and level', cost: 8 },
+  fuse: { name: 'Fuse', description: 'Melt three identical items into a random item one rarity higher', cost: 2 },
+  craft: { name: 'Craft', description: 'Forge a fresh copy of an item from your Collection Book', cost: 12 },
+};
+
+export const FUSE_COUNT = 3;
+
+export const getNextRarity = (rarity: ItemRarity): ItemRarity | null =>
+  RARITY_ORDER[RARITY_ORDER.indexOf(rarity) + 1] ?? null;
+
+// Upgraded items give back part of what went into them
+export const getSalvageYield = (item: Item): Partial<Materials> => ({ [item.rarity]: 1 + item.level });
+
+export const getRecipeCost = (recipe: CraftingRecipe, rarity: ItemRarity): Partial<Materials> =>
+  ({ [rarity]: RECIPES[recipe].cost });
+
+export const canAfford = (materials: Materials, cost: Partial<Materials>): boolean =>
+  (Object.entries(cost) as [ItemRarity, number][]).every(([tier, amount]) => materials[tier] >= amount);
+
+export const addMaterials = (materials: Materials, amounts: Partial<Materials>, sign = 1): Materials => {
+  const next = { ...materials };
+  (Object.entries(amounts) as [ItemRarity, number][]).forEach(([tier, amount]) => {
+    next[tier] += amount * sign;
+  });
+  return next;
+};
+
+export const sumMaterials = (amounts: Partial<Materials>[]): Partial<Materials> =>
+  amounts.reduce<Partial<Materials>>((total, each) => {
+    (Object.entries(each) as [ItemRarity, number][]).forEach(([tier, amount]) => {
+      total[tier] = (total[tier] ?? 0) + amount;
+    });
+    return total;
+  }, {});
+
+export const canReroll = (item: Item): boolean => AFFIX_COUNT[item.rarity] > 0;
+
+// Mythical items only come from chroma rolls, so ascension stops at legendary
+export const canAscend = (item: Item): boolean => {
+  const next = getNextRarity(item.rarity);
+  return next !== null && next !== 'mythical';
+};
+
+export const isSameItem = (a: Item, b: Item): boolean =>
+  a.name === b.name && a.rarity === b.rarity && getItemKind(a) === getItemKind(b);
+
+// Unequipped, unlocked copies of the item, itself first, that a fusion could consume
+export const getFusionMaterials = (inventory: Inventory, item: Item): Item[] => [
+  item,
+  ...getAllItems(inventory).filter(other =>
+    other.id !== item.id && isSameItem(other, item) && canDiscardItem(inventory, other.id)
+  ),
+];
+
+export const canFuse = (inventory: Inventory, item: Item): boolean =>
+  getNextRarity(item.rarity) !== null &&
+  canDiscardItem(inventory, item.id) &&
+  getFusionMaterials(inventory, item).length >= FUSE_COUNT;
+
+export const isTemplateDiscovered = (collectionBook: CollectionBook, template: ItemTemplate): boolean => {
+  if (template.kind === 'weapon') return !!collectionBook.weapons[template.name];
+  if (template.kind === 'armor') return !!collectionBook.armor[template.name];
+  return !!collectionBook.gear[template.name];
+};
+
+export const getCraftableTemplates = (collectionBook: CollectionBook): ItemTemplate[] =>
+  ITEM_TEMPLATES.filter(template => isTemplateDiscovered(collectionBook, template));
+
+export const getCraftTemplate = (collectionBook: CollectionBook, name: string): ItemTemplate | undefined => {
+  const template = findItemTemplate(name);
+  return template && isTemplateDiscovered(collectionBook, template) ? template : undefined;
+};
+
+// Reforged items keep their level, and with it the cost and price the upgrades built up
+export const carryOverLevel = <T extends Item>(item: T, level: number): T => {
+  let upgradeCost = item.upgradeCost;
+  let sellPrice = item.sellPrice;
+  for (let i = 1; i < level; i++) {
+    upgradeCost = Math.floor(upgradeCost * 1.5);
+    sellPrice = Math.floor(sellPrice * 1.2);
+  }
+  return { ...item, level, upgradeCost, sellPrice };
+};
+
+export const describeMaterials = (amounts: Partial<Materials>): string =>
+  (Object.entries(amounts) as [ItemRarity, number][])
+    .map(([tier, amount]) => `${amount} ${MATERIAL_NAMES[tier]}`)
+    .join(', ');
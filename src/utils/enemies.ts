@@ -0,0 +1,137 @@
+import { Enemy, EnemyAbility, EnemyIntent, EnemyPhase } from '../types/game';
+
+export interface EnemyArchetype {
+  id: string;
+  names: string[];
+  abilities: EnemyAbility[];
+  hpMultiplier: number;
+  atkMultiplier: number;
+  defMultiplier: number;
+  weakness: string;
+  resistance: string;
+}
+
+export const ENEMY_ARCHETYPES: EnemyArchetype[] = [
+  {
+    id: 'brute',
+    names: ['Goblin Warrior', 'Ice Troll', 'Chaos Lord', 'Abyssal Terror'],
+    abilities: ['enrage'],
+    hpMultiplier: 1.2,
+    atkMultiplier: 1.1,
+    defMultiplier: 0.8,
+    weakness: 'Math',
+    resistance: 'History',
+  },
+  {
+    id: 'guardian',
+    names: ['Stone Golem', 'Crystal Beast', 'Nightmare King'],
+    abilities: ['shield'],
+    hpMultiplier: 1.1,
+    atkMultiplier: 0.9,
+    defMultiplier: 1.5,
+    weakness: 'Science',
+    resistance: 'Art',
+  },
+  {
+    id: 'mystic',
+    names: ['Dark Mage', 'Void Wraith', 'Reality Bender'],
+    abilities: ['regenerate'],
+    hpMultiplier: 0.9,
+    atkMultiplier: 1,
+    defMultiplier: 1,
+    weakness: 'Literature',
+    resistance: 'Science',
+  },
+  {
+    id: 'skirmisher',
+    names: ['Shadow Wolf', 'Fire Imp', 'Lightning Drake'],
+    abilities: ['double-strike'],
+    hpMultiplier: 0.85,
+    atkMultiplier: 0.8,
+    defMultiplier: 0.9,
+    weakness: 'Geography',
+    resistance: 'Technology',
+  },
+];
+
+export const BOSS_INTERVAL = 10;
+export const BOSS_HP_MULTIPLIER = 2.5;
+export const BOSS_REWARD_MULTIPLIER = 2;
+export const BOSS_NAMES = ['Ancient Dragon', 'Cosmic Horror', 'Dimension Lord'];
+
+// Every boss fights in three phases, each harder than the last
+export const BOSS_PHASES: EnemyPhase[] = [
+  { name: 'Awakened', hpShare: 1, atkMultiplier: 1, abilities: ['shield'] },
+  { name: 'Unleashed', hpShare: 0.66, atkMultiplier: 1.2, abilities: ['shield', 'double-strike'] },
+  { name: 'Desperate', hpShare: 0.33, atkMultiplier: 1.4, abilities: ['enrage', 'regenerate', 'double-strike'] },
+];
+
+export const ENRAGE_HP_SHARE = 0.3;
+export const ENRAGE_MULTIPLIER = 1.5;
+export const SHIELD_BLOCK = 0.5; // share of damage a shield stops
+export const REGENERATE_SHARE = 0.08; // of max HP, each time the player misses
+export const WEAKNESS_MULTIPLIER = 1.5;
+export const RESISTANCE_MULTIPLIER = 0.5;
+
+export const ENEMY_ABILITY_INFO: Record<EnemyAbility, { name: string; description: string }> = {
+  'enrage': { name: 'Enrage', description: `Hits ${Math.round((ENRAGE_MULTIPLIER - 1) * 100)}% harder below ${ENRAGE_HP_SHARE * 100}% HP` },
+  'shield': { name: 'Shield', description: `Blocks ${SHIELD_BLOCK * 100}% of damage every third turn` },
+  'regenerate': { name: 'Regenerate', description: `Heals ${REGENERATE_SHARE * 100}% HP when you miss` },
+  'double-strike': { name: 'Double Strike', description: 'Attacks twice every other turn' },
+};
+
+export const isBossZone = (zone: number): boolean => zone % BOSS_INTERVAL === 0;
+
+// Intents follow a fixed rhythm so the player can see them coming
+export const getIntent = (abilities: EnemyAbility[], turn: number): EnemyIntent => {
+  if (abilities.includes('shield') && turn % 3 === 0) return 'shield';
+  if (abilities.includes('double-strike') && turn % 2 === 0) return 'double-strike';
+  return 'attack';
+};
+
+export const getAffinityMultiplier = (enemy: Enemy, category?: string): number => {
+  if (category && category === enemy.weakness) return WEAKNESS_MULTIPLIER;
+  if (category && category === enemy.resistance) return RESISTANCE_MULTIPLIER;
+  return 1;
+};
+
+const getEnemyAtk = (enemy: Enemy, phase: number, enraged: boolean): number => {
+  const phaseMultiplier = enemy.phases[phase]?.atkMultiplier ?? 1;
+  return Math.round(enemy.baseAtk * phaseMultiplier * (enraged ? ENRAGE_MULTIPLIER : 1));
+};
+
+export interface EnemyTurnResult {
+  enemy: Enemy;
+  phaseChanged: boolean;
+  becameEnraged: boolean;
+}
+
+// Called once per answered question after damage lands: moves a boss into its
+// next phase, triggers enrage and decides the next intent
+export const advanceEnemyTurn = (enemy: Enemy): EnemyTurnResult => {
+  const hpShare = enemy.hp / enemy.maxHp;
+  // Healing never sends a boss back to an earlier phase
+  const phase = enemy.phases.reduce(
+    (current, p, index) => (hpShare < p.hpShare ? Math.max(current, index) : current),
+    enemy.phase
+  );
+  const phaseChanged = phase !== enemy.phase;
+  const abilities = phaseChanged ? enemy.phases[phase].abilities : enemy.abilities;
+
+  const enraged = enemy.enraged || (abilities.includes('enrage') && hpShare < ENRAGE_HP_SHARE);
+  const turn = enemy.turn + 1;
+
+  return {
+    enemy: {
+      ...enemy,
+      abilities,
+      phase,
+      enraged,
+      atk: getEnemyAtk(enemy, phase, enraged),
+      turn,
+      intent: getIntent(abilities, turn),
+    },
+    phaseChanged,
+    becameEnraged: enraged && !enemy.enraged,
+  };
+};
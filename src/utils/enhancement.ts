@@ -0,0 +1,71 @@
+import { Item, ItemRarity } from '../types/game';
+
+// An item's enhancement is how many upgrades it has taken: level 1 is +0
+export const getEnhancement = (item: Item): number => item.level - 1;
+
+// What the first upgrade of an item costs; every later one costs half as much again
+export const BASE_UPGRADE_COST: Record<ItemRarity, number> = { common: 5, rare: 10, epic: 20, legendary: 40, mythical: 50 };
+
+export const ENHANCEMENT_CAPS: Record<ItemRarity, number> = { common: 5, rare: 10, epic: 15, legendary: 20, mythical: 25 };
+
+// Each milestone reached adds its share to every stat on the item
+export const ENHANCEMENT_MILESTONES = [
+  { enhancement: 5, statBonus: 0.1 },
+  { enhancement: 10, statBonus: 0.15 },
+  { enhancement: 15, statBonus: 0.25 },
+];
+
+// Failures below this only cost gems; from here on they also cost a level
+export const SAFE_ENHANCEMENT = 5;
+
+export const PROTECTION_SCROLL_COST = 30;
+
+export const getEnhancementCap = (item: Item): number => ENHANCEMENT_CAPS[item.rarity];
+
+// Items upgraded before caps existed keep their levels but cannot go further
+export const isAtEnhancementCap = (item: Item): boolean => getEnhancement(item) >= getEnhancementCap(item);
+
+// Chance that an attempt at +n reaches +n+1: certain up to +3, then down 6% a step to a 20% floor
+export const getSuccessChance = (enhancement: number): number =>
+  Math.max(0.2, Math.min(1, 1 - 0.06 * (enhancement - 2)));
+
+export const failureLosesLevel = (enhancement: number): boolean => enhancement >= SAFE_ENHANCEMENT;
+
+export const getMilestoneBonus = (enhancement: number): number =>
+  ENHANCEMENT_MILESTONES
+    .filter(milestone => enhancement >= milestone.enhancement)
+    .reduce((total, milestone) => total + milestone.statBonus, 0);
+
+export const getUpgradeCost = (rarity: ItemRarity, level: number): number => {
+  let cost = BASE_UPGRADE_COST[rarity];
+  for (let i = 1; i < level; i++) cost = Math.floor(cost * 1.5);
+  return cost;
+};
+
+// Moves an item one level up or down, keeping its upgrade cost and sell price in step
+export const shiftItemLevel = <T extends Item>(item: T, step: 1 | -1): T => {
+  const level = item.level + step;
+  return {
+    ...item,
+    level,
+    upgradeCost: getUpgradeCost(item.rarity, level),
+    sellPrice: step > 0 ? Math.floor(item.sellPrice * 1.2) : Math.floor(item.sellPrice / 1.2),
+  };
+};
+
+// Expected gems to take an item from its current enhancement to the target, counting
+// the levels lost on failures; a protected attempt also pays for its scroll
+export const getExpectedCost = (item: Item, target: number, protect: boolean): number => {
+  let total = 0;
+  let previousStep = 0;
+  for (let enhancement = 0; enhancement < target; enhancement++) {
+    const chance = getSuccessChance(enhancement);
+    const atRisk = failureLosesLevel(enhancement);
+    const attemptCost = getUpgradeCost(item.rarity, enhancement + 1) + (protect && atRisk ? PROTECTION_SCROLL_COST : 0);
+    // A lost level has to be climbed again before retrying this step
+    const step = (attemptCost + (atRisk && !protect ? (1 - chance) * previousStep : 0)) / chance;
+    if (enhancement >= getEnhancement(item)) total += step;
+    previousStep = step;
+  }
+  return Math.round(total);
+};
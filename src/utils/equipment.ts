@@ -0,0 +1,170 @@
+import { Armor, EquipmentSlot, Gear, GearKind, GearSlot, Inventory, Item, ItemKind, ItemStats, Weapon } from '../types/game';
+import { getEnhancement, getMilestoneBonus } from './enhancement';
+
+export interface SlotDefinition {
+  slot: EquipmentSlot;
+  label: string;
+  accepts: ItemKind;
+}
+
+export const EQUIPMENT_SLOTS: SlotDefinition[] = [
+  { slot: 'weapon', label: 'Weapon', accepts: 'weapon' },
+  { slot: 'armor', label: 'Armor', accepts: 'armor' },
+  { slot: 'helm', label: 'Helm', accepts: 'helm' },
+  { slot: 'boots', label: 'Boots', accepts: 'boots' },
+  { slot: 'ring1', label: 'Ring 1', accepts: 'ring' },
+  { slot: 'ring2', label: 'Ring 2', accepts: 'ring' },
+  { slot: 'amulet', label: 'Amulet', accepts: 'amulet' },
+  { slot: 'offhand', label: 'Off-hand', accepts: 'offhand' },
+];
+
+export const GEAR_SLOTS: GearSlot[] = ['helm', 'boots', 'ring1', 'ring2', 'amulet', 'offhand'];
+
+export const GEAR_KINDS: GearKind[] = ['helm', 'boots', 'ring', 'amulet', 'offhand'];
+
+export const ITEM_KIND_LABELS: Record<ItemKind, string> = {
+  weapon: 'Weapon',
+  armor: 'Armor',
+  helm: 'Helm',
+  boots: 'Boots',
+  ring: 'Ring',
+  amulet: 'Amulet',
+  offhand: 'Off-hand',
+};
+
+export const isGearSlot = (slot: EquipmentSlot): slot is GearSlot => slot !== 'weapon' && slot !== 'armor';
+
+export const getItemKind = (item: Item): ItemKind => {
+  if ('baseAtk' in item) return 'weapon';
+  if ('baseDef' in item) return 'armor';
+  return item.kind;
+};
+
+export const getSlotsForKind = (kind: ItemKind): EquipmentSlot[] =>
+  EQUIPMENT_SLOTS.filter(definition => definition.accepts === kind).map(definition => definition.slot);
+
+// Every stat on a gear piece grows by a fifth of its base per level
+const levelGearStat = (base: number, level: number) => base + (level - 1) * Math.ceil(base * 0.2);
+
+const getLevelledStats = (item: Item): ItemStats => {
+  if ('baseAtk' in item) return { atk: item.baseAtk + (item.level - 1) * 10, def: 0, hp: 0 };
+  if ('baseDef' in item) return { atk: 0, def: item.baseDef + (item.level - 1) * 5, hp: 0 };
+  return {
+    atk: levelGearStat(item.baseStats.atk, item.level),
+    def: levelGearStat(item.baseStats.def, item.level),
+    hp: levelGearStat(item.baseStats.hp, item.level),
+  };
+};
+
+// Enhancement milestones scale the levelled stats on top
+export const getItemStats = (item: Item): ItemStats => {
+  const stats = getLevelledStats(item);
+  const multiplier = 1 + getMilestoneBonus(getEnhancement(item));
+  return {
+    atk: Math.floor(stats.atk * multiplier),
+    def: Math.floor(stats.def * multiplier),
+    hp: Math.floor(stats.hp * multiplier),
+  };
+};
+
+export const describeItemStats = (item: Item): string => {
+  const stats = getItemStats(item);
+  return (['atk', 'def', 'hp'] as const)
+    .filter(stat => stats[stat] > 0)
+    .map(stat => `${stat.toUpperCase()}: ${stats[stat]}`)
+    .join(' ');
+};
+
+export const getEquippedItem = (inventory: Inventory, slot: EquipmentSlot): Item | null => {
+  if (slot === 'weapon') return inventory.currentWeapon;
+  if (slot === 'armor') return inventory.currentArmor;
+  return inventory.equipment[slot];
+};
+
+export const getEquippedItems = (inventory: Inventory): Item[] =>
+  EQUIPMENT_SLOTS
+    .map(({ slot }) => getEquippedItem(inventory, slot))
+    .filter((item): item is Item => item !== null);
+
+export const getEquippedSlot = (inventory: Inventory, gear: Gear): GearSlot | undefined =>
+  GEAR_SLOTS.find(slot => inventory.equipment[slot]?.id === gear.id);
+
+// Callers check the item fits the slot; gear worn elsewhere moves rather than being worn twice
+export const equipItem = (inventory: Inventory, item: Item, slot: EquipmentSlot): Inventory => {
+  if (slot === 'weapon') return { ...inventory, currentWeapon: item as Weapon };
+  if (slot === 'armor') return { ...inventory, currentArmor: item as Armor };
+
+  const equipment = { ...inventory.equipment };
+  GEAR_SLOTS.forEach(other => {
+    if (equipment[other]?.id === item.id) equipment[other] = null;
+  });
+  equipment[slot] = item as Gear;
+  return { ...inventory, equipment };
+};
+
+export const clearSlot = (inventory: Inventory, slot: EquipmentSlot): Inventory => {
+  if (slot === 'weapon') return { ...inventory, currentWeapon: null };
+  if (slot === 'armor') return { ...inventory, currentArmor: null };
+  return { ...inventory, equipment: { ...inventory.equipment, [slot]: null } };
+};
+
+// The slot an item would go into: where it is already worn, else the first free one that fits
+export const getTargetSlot = (inventory: Inventory, item: Item): EquipmentSlot => {
+  const slots = getSlotsForKind(getItemKind(item));
+  return slots.find(slot => getEquippedItem(inventory, slot)?.id === item.id) ??
+    slots.find(slot => !getEquippedItem(inventory, slot)) ??
+    slots[0];
+};
+
+export const getEquipmentStats = (inventory: Inventory): ItemStats =>
+  getEquippedItems(inventory).reduce<ItemStats>((total, item) => {
+    const stats = getItemStats(item);
+    return { atk: total.atk + stats.atk, def: total.def + stats.def, hp: total.hp + stats.hp };
+  }, { atk: 0, def: 0, hp: 0 });
+
+export const getAllItems = (inventory: Inventory): Item[] => [...inventory.weapons, ...inventory.armor, ...inventory.gear];
+
+export const findItem = (inventory: Inventory, itemId: string): Item | undefined =>
+  getAllItems(inventory).find(item => item.id === itemId);
+
+export const isItemEquipped = (inventory: Inventory, itemId: string): boolean =>
+  getEquippedItems(inventory).some(item => item.id === itemId);
+
+export const isItemLocked = (inventory: Inventory, itemId: string): boolean => inventory.lockedItemIds.includes(itemId);
+
+// Selling, salvaging and fusing all destroy the item, so they share this check
+export const canDiscardItem = (inventory: Inventory, itemId: string): boolean =>
+  !isItemEquipped(inventory, itemId) && !isItemLocked(inventory, itemId);
+
+// Swaps an item for a changed copy wherever it sits, equipped slots included
+export const replaceItem = (inventory: Inventory, item: Item): Inventory => {
+  const swap = <T extends Item>(current: T): T => (current.id === item.id ? item as T : current);
+  return {
+    ...inventory,
+    weapons: inventory.weapons.map(swap),
+    armor: inventory.armor.map(swap),
+    gear: inventory.gear.map(swap),
+    currentWeapon: inventory.currentWeapon && swap(inventory.currentWeapon),
+    currentArmor: inventory.currentArmor && swap(inventory.currentArmor),
+    equipment: Object.fromEntries(
+      GEAR_SLOTS.map(slot => [slot, inventory.equipment[slot] && swap(inventory.equipment[slot])])
+    ) as Record<GearSlot, Gear | null>,
+  };
+};
+
+// Callers make sure every item can be discarded
+export const removeItems = (inventory: Inventory, itemIds: string[]): Inventory => ({
+  ...inventory,
+  weapons: inventory.weapons.filter(item => !itemIds.includes(item.id)),
+  armor: inventory.armor.filter(item => !itemIds.includes(item.id)),
+  gear: inventory.gear.filter(item => !itemIds.includes(item.id)),
+  lockedItemIds: inventory.lockedItemIds.filter(id => !itemIds.includes(id)),
+});
+
+// Puts each item at the end of its own list, which keeps list order the order items were found in
+export const addItems = (inventory: Inventory, items: Item[]): Inventory => ({
+  ...inventory,
+  weapons: [...inventory.weapons, ...items.filter(item => 'baseAtk' in item) as Weapon[]],
+  armor: [...inventory.armor, ...items.filter(item => 'baseDef' in item) as Armor[]],
+  gear: [...inventory.gear, ...items.filter(item => 'kind' in item) as Gear[]],
+});
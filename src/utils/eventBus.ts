@@ -0,0 +1,46 @@
+// Minimal typed publish/subscribe. Handlers registered for a type only ever see
+// events of that type; `onAny` is for listeners such as analytics that want all.
+
+type Handler<E> = (event: E) => void;
+
+export interface EventBus<E extends { type: string }> {
+  on: <T extends E['type']>(type: T, handler: Handler<Extract<E, { type: T }>>) => () => void;
+  onAny: (handler: Handler<E>) => () => void;
+  emit: (event: E) => void;
+}
+
+export const createEventBus = <E extends { type: string }>(): EventBus<E> => {
+  const handlers = new Map<string, Set<Handler<E>>>();
+  const anyHandlers = new Set<Handler<E>>();
+
+  // One broken subscriber must not stop the rest from hearing about the event
+  const notify = (handler: Handler<E>, event: E) => {
+    try {
+      handler(event);
+    } catch (error) {
+      console.error(`Event handler for ${event.type} failed:`, error);
+    }
+  };
+
+  return {
+    on: (type, handler) => {
+      const forType = handlers.get(type) ?? new Set<Handler<E>>();
+      handlers.set(type, forType);
+      const wrapped = handler as Handler<E>;
+      forType.add(wrapped);
+      return () => {
+        forType.delete(wrapped);
+      };
+    },
+    onAny: handler => {
+      anyHandlers.add(handler);
+      return () => {
+        anyHandlers.delete(handler);
+      };
+    },
+    emit: event => {
+      handlers.get(event.type)?.forEach(handler => notify(handler, event));
+      anyHandlers.forEach(handler => notify(handler, event));
+    },
+  };
+};
@@ -0,0 +1,904 @@
+import {
+  GameState, GameMode, GameEvent, Item, EquipmentSlot, GearSlot, QuestionAnswer, QuestionPack,
+  PlayerStats, Inventory, Research, CraftingRecipe, LootRuleAction, LootRuleDraft,
+  DifficultyMode, DifficultyRules, QuestionDifficulty,
+} from '../types/game';
+import { generateEnemy, generateItemOfRarity, calculateResearchBonus } from './gameUtils';
+import { checkAchievements, trackAchievementEvent } from './achievements';
+import { trackStatistics } from './statisticsTracker';
+import { getAllPacks } from './questionPacks';
+import { recordAnswer } from './questionScheduler';
+import { recordAnswerSample } from './adaptiveDifficulty';
+import { getAnswerBonus, CRIT_MULTIPLIER } from './answerBonus';
+import { initialGameMode } from './initialState';
+import {
+  advanceEnemyTurn, getAffinityMultiplier, BOSS_REWARD_MULTIPLIER, REGENERATE_SHARE, SHIELD_BLOCK,
+} from './enemies';
+import { rollLoot } from './lootTables';
+import { getAffixBonuses, rollAffixes } from './affixes';
+import { getSetEffects } from './itemSets';
+import {
+  addItems, canDiscardItem, clearSlot, equipItem, findItem, getEquipmentStats, getEquippedItem, getEquippedItems, getItemKind,
+  getSlotsForKind, removeItems, replaceItem,
+} from './equipment';
+import {
+  addMaterials, canAfford, canAscend, canFuse, canReroll, carryOverLevel, getCraftTemplate, getFusionMaterials,
+  getNextRarity, getRecipeCost, getSalvageYield, sumMaterials, FUSE_COUNT,
+} from './crafting';
+import {
+  failureLosesLevel, getEnhancement, getSuccessChance, isAtEnhancementCap, shiftItemLevel, PROTECTION_SCROLL_COST,
+} from './enhancement';
+import { canExpandBag, getBagExpansionCost, getFreeSlots, getFreeStashSlots, hasRoomForItem } from './inventoryCapacity';
+import { findLootRule } from './lootRules';
+import { ChestId, getChest, rollChest } from './chests';
+import { applyLoadout, captureLoadout, getMissingSlots, MAX_LOADOUTS } from './loadouts';
+import { getTotalSellPrice } from './inventoryFilters';
+import { Rng } from './rng';
+
+// The game rules as a pure function: (state, action, rng) -> (state, events).
+// Nothing in here touches React, storage, timers or the clock; callers pass in
+// the time where it matters and turn the returned events into effects.
+
+export const RESEARCH_COST = 150;
+
+export interface DifficultyChanges {
+  mode?: DifficultyMode;
+  lockedDifficulty?: QuestionDifficulty;
+  rules?: Partial<DifficultyRules>;
+}
+
+export type GameAction =
+  | { type: 'tick'; seconds: number }
+  | { type: 'startCombat' }
+  | { type: 'answerQuestion'; hit: boolean; answer?: QuestionAnswer }
+  | { type: 'openChest'; chestId: ChestId }
+  | { type: 'equipWeapon'; weaponId: string }
+  | { type: 'equipArmor'; armorId: string }
+  | { type: 'upgradeWeapon'; weaponId: string; protect?: boolean }
+  | { type: 'upgradeArmor'; armorId: string; protect?: boolean }
+  | { type: 'sellWeapon'; weaponId: string }
+  | { type: 'sellArmor'; armorId: string }
+  | { type: 'equipGear'; gearId: string; slot: GearSlot }
+  | { type: 'unequip'; slot: EquipmentSlot }
+  | { type: 'saveLoadout'; name: string }
+  | { type: 'overwriteLoadout'; loadoutId: string }
+  | { type: 'equipLoadout'; loadoutId: string }
+  | { type: 'deleteLoadout'; loadoutId: string }
+  | { type: 'upgradeGear'; gearId: string; protect?: boolean }
+  | { type: 'buyProtectionScroll' }
+  | { type: 'sellGear'; gearId: string }
+  | { type: 'sellItems'; itemIds: string[] }
+  | { type: 'toggleItemLock'; itemId: string }
+  | { type: 'buyBagExpansion' }
+  | { type: 'claimStashItem'; itemId: string }
+  | { type: 'discardStashItem'; itemId: string; action: LootRuleAction }
+  | { type: 'addLootRule'; rule: LootRuleDraft }
+  | { type: 'removeLootRule'; ruleId: string }
+  | { type: 'toggleLootRule'; ruleId: string }
+  | { type: 'salvageItem'; itemId: string }
+  | { type: 'rerollAffixes'; itemId: string }
+  | { type: 'ascendItem'; itemId: string }
+  | { type: 'fuseItems'; itemId: string }
+  | { type: 'craftItem'; name: string }
+  | { type: 'upgradeResearch' }
+  | { type: 'setGameMode'; mode: GameMode['current'] }
+  | { type: 'updateDifficulty'; changes: DifficultyChanges }
+  | { type: 'toggleQuestionPack'; packId: string }
+  | { type: 'addQuestionPack'; pack: QuestionPack }
+  | { type: 'removeQuestionPack'; packId: string };
+
+export interface EngineResult {
+  state: GameState;
+  events: GameEvent[];
+}
+
+// Every equipped slot, active set bonuses and research feed into the derived attack, defense and max HP.
+// Takes the pieces rather than the whole state so gear can be previewed before it is worn
+export const calculatePlayerStats = (playerStats: PlayerStats, inventory: Inventory, research: Research): PlayerStats => {
+  const equippedItems = getEquippedItems(inventory);
+  const equipment = getEquipmentStats(inventory);
+  const sets = getSetEffects(equippedItems);
+  const affixBonuses = getAffixBonuses(equippedItems);
+
+  const researchBonus = calculateResearchBonus(research.level, research.tier);
+  const bonusMultiplier = 1 + (researchBonus / 100);
+
+  const finalAtk = Math.floor((playerStats.baseAtk + equipment.atk + sets.atk) * bonusMultiplier);
+  const finalDef = Math.floor((playerStats.baseDef + equipment.def + sets.def) * bonusMultiplier);
+  const finalMaxHp = Math.floor((playerStats.baseHp + equipment.hp + sets.hp) * bonusMultiplier);
+
+  return {
+    ...playerStats,
+    atk: finalAtk,
+    def: finalDef,
+    maxHp: finalMaxHp,
+    hp: Math.min(playerStats.hp, finalMaxHp),
+    bonuses: {
+      ...affixBonuses,
+      critChance: affixBonuses.critChance + sets.critChance,
+      lifesteal: affixBonuses.lifesteal + sets.lifesteal,
+      bonusTime: affixBonuses.bonusTime + sets.bonusTime,
+      streakGain: affixBonuses.streakGain + sets.streakGain,
+    },
+  };
+};
+
+export const withPlayerStats = (state: GameState): GameState => ({
+  ...state,
+  playerStats: calculatePlayerStats(state.playerStats, state.inventory, state.research),
+});
+
+const COLLECTION_KEYS = {
+  weapon: { collectionKey: 'weapons', countKey: 'totalWeaponsFound' },
+  armor: { collectionKey: 'armor', countKey: 'totalArmorFound' },
+  gear: { collectionKey: 'gear', countKey: 'totalGearFound' },
+} as const;
+
+const discoverItem = (state: GameState, item: Item, events: GameEvent[]): GameState => {
+  const kind = getItemKind(item);
+  const { collectionKey, countKey } = COLLECTION_KEYS[kind === 'weapon' || kind === 'armor' ? kind : 'gear'];
+
+  // Affixes are catalogued on their own, even on an item already in the book
+  const newAffixes = item.affixes.filter(affix => !state.collectionBook.affixes[affix.id]);
+  const collectionBook = newAffixes.length === 0 ? state.collectionBook : {
+    ...state.collectionBook,
+    affixes: {
+      ...state.collectionBook.affixes,
+      ...Object.fromEntries(newAffixes.map(affix => [affix.id, true])),
+    },
+  };
+
+  if (collectionBook[collectionKey][item.name]) {
+    return { ...state, collectionBook }; // Already discovered
+  }
+
+  events.push({ type: 'itemDiscovered', item });
+  return {
+    ...state,
+    collectionBook: {
+      ...collectionBook,
+      [collectionKey]: {
+        ...collectionBook[collectionKey],
+        [item.name]: true,
+      },
+      [countKey]: state.collectionBook[countKey] + 1,
+      rarityStats: {
+        ...state.collectionBook.rarityStats,
+        [item.rarity]: state.collectionBook.rarityStats[item.rarity] + 1,
+      },
+    },
+  };
+};
+
+const autoProcessLoot = (state: GameState, sold: Item[], salvaged: Item[], events: GameEvent[]): GameState => {
+  if (sold.length === 0 && salvaged.length === 0) return state;
+
+  const coins = getTotalSellPrice(sold);
+  const materials = sumMaterials(salvaged.map(getSalvageYield));
+  events.push({ type: 'lootAutoProcessed', sold, salvaged, coins, materials });
+  return { ...state, coins: state.coins + coins, materials: addMaterials(state.materials, materials) };
+};
+
+// Every way of finding an item ends here, so the inventory and the collection book never disagree.
+// Loot rules only judge drops, never items the player made on purpose. What the bag cannot hold
+// waits in the stash, and what the stash cannot hold is salvaged.
+const collectItems = (state: GameState, items: Item[], events: GameEvent[], applyLootRules = false): GameState => {
+  const next = items.reduce((acc, item) => discoverItem(acc, item, events), state);
+
+  const ruled = applyLootRules ? items.map(item => ({ item, rule: findLootRule(state.lootRules, item) })) : [];
+  const sold = ruled.filter(({ rule }) => rule?.action === 'sell').map(({ item }) => item);
+  const salvaged = ruled.filter(({ rule }) => rule?.action === 'salvage').map(({ item }) => item);
+  const kept = items.filter(item => !sold.includes(item) && !salvaged.includes(item));
+
+  const room = getFreeSlots(next.inventory, next.research);
+  const bagged = kept.slice(0, room);
+  const stashed = kept.slice(room, room + getFreeStashSlots(next.inventory));
+  const spilled = kept.slice(room + stashed.length);
+  if (stashed.length > 0) events.push({ type: 'itemsStashed', items: stashed });
+
+  return autoProcessLoot({
+    ...next,
+    inventory: {
+      ...addItems(next.inventory, bagged),
+      stash: [...next.inventory.stash, ...stashed],
+    },
+  }, sold, [...salvaged, ...spilled], events);
+};
+
+const updateKnowledgeStreak = (
+  state: GameState,
+  correct: boolean,
+  gain: number,
+  now: Date,
+  events: GameEvent[]
+): GameState => {
+  const newCurrent = correct ? state.knowledgeStreak.current + gain : 0;
+  const newBest = Math.max(state.knowledgeStreak.best, newCurrent);
+  const newMultiplier = Math.min(1 + Math.floor(newCurrent / 5) * 0.1, 2); // Max 2x multiplier
+
+  // Gains above 1 can skip past a multiple of 5, so celebrate crossing it
+  if (correct && Math.floor(newCurrent / 5) > Math.floor(state.knowledgeStreak.current / 5)) {
+    events.push({ type: 'streakMilestone', streak: newCurrent, multiplier: newMultiplier });
+  }
+
+  return {
+    ...state,
+    knowledgeStreak: {
+      current: newCurrent,
+      best: newBest,
+      multiplier: newMultiplier,
+      lastCorrectTime: correct ? now : state.knowledgeStreak.lastCorrectTime,
+    },
+  };
+};
+
+const recordQuestionAnswer = (state: GameState, answer: QuestionAnswer, correct: boolean, now: Date): GameState => {
+  const { questionId, category, difficulty, responseTime, timeLimit } = answer;
+  return {
+    ...state,
+    questionHistory: recordAnswer(state.questionHistory, questionId, correct, now),
+    difficulty: recordAnswerSample(state.difficulty, { category, difficulty, responseTime, timeLimit, correct }),
+  };
+};
+
+const resolveAttack = (
+  state: GameState,
+  hit: boolean,
+  answer: QuestionAnswer | undefined,
+  rng: Rng,
+  events: GameEvent[]
+): GameState => {
+  const enemy = state.currentEnemy;
+  if (!enemy) return state;
+
+  // A partly right answer still lands a hit, but only full credit counts as correct
+  const correct = answer ? answer.credit >= 1 : hit;
+  const bonus = answer ? getAnswerBonus(answer) : null;
+  const { bonuses } = state.playerStats;
+
+  const newCombatLog = [...state.combatLog];
+  let newPlayerHp = state.playerStats.hp;
+  let newEnemyHp = enemy.hp;
+
+  if (hit) {
+    // Faster answers to harder questions hit harder and crit more often
+    const isCrit = !!bonus && rng.chance(bonus.critChance + (correct ? bonuses.critChance : 0));
+    const affinity = getAffinityMultiplier(enemy, answer?.category);
+    const shielded = enemy.intent === 'shield';
+    const categoryBonus = answer ? bonuses.categoryDamage[answer.category] ?? 0 : 0;
+    const multiplier = (bonus ? bonus.damageMultiplier : 1) * (isCrit ? CRIT_MULTIPLIER : 1) *
+      affinity * (1 + categoryBonus) * (shielded ? 1 - SHIELD_BLOCK : 1);
+    const damage = Math.max(1, Math.round(Math.max(1, state.playerStats.atk - enemy.def) * multiplier));
+    newEnemyHp = Math.max(0, enemy.hp - damage);
+    if (isCrit) {
+      newCombatLog.push(`Critical hit! You deal ${damage} damage to the ${enemy.name}!`);
+    } else if (!correct) {
+      newCombatLog.push(`Partly right! You deal ${damage} damage to the ${enemy.name}.`);
+    } else {
+      newCombatLog.push(`You deal ${damage} damage to the ${enemy.name}!`);
+    }
+    if (affinity > 1) newCombatLog.push(`The ${enemy.name} is weak to ${answer?.category}!`);
+    if (affinity < 1) newCombatLog.push(`The ${enemy.name} resists ${answer?.category}.`);
+    if (shielded) {
+      newCombatLog.push(`The ${enemy.name}'s shield absorbs part of the blow.`);
+      events.push({ type: 'enemyAbilityUsed', ability: 'shield', amount: damage });
+    }
+    const healed = correct ? Math.min(state.playerStats.maxHp - newPlayerHp, Math.round(damage * bonuses.lifesteal)) : 0;
+    if (healed > 0) {
+      newPlayerHp += healed;
+      newCombatLog.push(`You drain ${healed} HP.`);
+    }
+    events.push({ type: 'damageDealt', damage, crit: isCrit, partial: !correct });
+  } else {
+    const strikes = enemy.intent === 'double-strike' ? 2 : 1;
+    const damage = Math.max(1, enemy.atk - state.playerStats.def) * strikes;
+    newPlayerHp = Math.max(0, state.playerStats.hp - damage);
+    if (strikes > 1) {
+      newCombatLog.push(`You missed! The ${enemy.name} strikes twice for ${damage} damage!`);
+      events.push({ type: 'enemyAbilityUsed', ability: 'double-strike', amount: damage });
+    } else {
+      newCombatLog.push(`You missed! The ${enemy.name} deals ${damage} damage to you!`);
+    }
+    events.push({ type: 'damageTaken', damage });
+
+    if (enemy.abilities.includes('regenerate') && enemy.hp < enemy.maxHp) {
+      const healed = Math.min(enemy.maxHp - enemy.hp, Math.round(enemy.maxHp * REGENERATE_SHARE));
+      newEnemyHp = enemy.hp + healed;
+      newCombatLog.push(`The ${enemy.name} regenerates ${healed} HP.`);
+      events.push({ type: 'enemyAbilityUsed', ability: 'regenerate', amount: healed });
+    }
+  }
+
+  if (newEnemyHp <= 0) {
+    newCombatLog.push(`You defeated the ${enemy.name}!`);
+
+    // Apply game mode multipliers
+    let coinMultiplier = 1;
+    let gemMultiplier = 1;
+
+    if (state.gameMode.current === 'speed') {
+      coinMultiplier = 1.5;
+      gemMultiplier = 1.25;
+    } else if (state.gameMode.current === 'survival') {
+      coinMultiplier = 2;
+      gemMultiplier = 2;
+    }
+
+    // Apply streak multiplier
+    coinMultiplier *= state.knowledgeStreak.multiplier;
+    gemMultiplier *= state.knowledgeStreak.multiplier;
+
+    const baseCoins = state.zone * 8 + rng.int(0, 14);
+    const baseGems = rng.int(1, 3);
+
+    const coinsEarned = Math.floor(baseCoins * coinMultiplier * (enemy.isBoss ? BOSS_REWARD_MULTIPLIER : 1));
+    const gemsEarned = Math.floor(baseGems * gemMultiplier * (enemy.isBoss ? BOSS_REWARD_MULTIPLIER : 1));
+
+    newCombatLog.push(`You earned ${coinsEarned} coins and ${gemsEarned} gems!`);
+
+    const { items: loot, pity: lootPity } = rollLoot(enemy, state.lootPity, rng);
+    loot.forEach(item => newCombatLog.push(`The ${enemy.name} dropped ${item.name}!`));
+    events.push({ type: 'enemyDefeated', enemy, coins: coinsEarned, gems: gemsEarned, loot });
+    const next = collectItems(state, loot, events, true);
+
+    const newZone = state.zone + 1;
+    events.push({ type: 'zoneEntered', zone: newZone, previousZone: state.zone });
+
+    return {
+      ...next,
+      coins: next.coins + coinsEarned,
+      gems: state.gems + gemsEarned,
+      zone: newZone,
+      isPremium: newZone >= 50,
+      playerStats: { ...next.playerStats, hp: newPlayerHp },
+      currentEnemy: null,
+      inCombat: false,
+      combatLog: newCombatLog,
+      lootPity,
+    };
+  }
+
+  if (newPlayerHp <= 0) {
+    newCombatLog.push(`You were defeated by the ${enemy.name}...`);
+
+    if (state.gameMode.current === 'survival') {
+      const survivalLives = state.gameMode.survivalLives - 1;
+      if (survivalLives <= 0) {
+        // Out of lives: back to normal mode and zone 1
+        newCombatLog.push('Game Over! No lives remaining.');
+        events.push({ type: 'playerDefeated', enemy, gameOver: true });
+        events.push({ type: 'zoneEntered', zone: 1, previousZone: state.zone });
+        return {
+          ...state,
+          zone: 1,
+          currentEnemy: null,
+          inCombat: false,
+          combatLog: newCombatLog,
+          playerStats: { ...state.playerStats, hp: 0 },
+          gameMode: { ...initialGameMode, current: 'normal' },
+          knowledgeStreak: { ...state.knowledgeStreak, current: 0 },
+        };
+      }
+
+      events.push({ type: 'playerDefeated', enemy, gameOver: false });
+      return {
+        ...state,
+        currentEnemy: null,
+        inCombat: false,
+        combatLog: newCombatLog,
+        playerStats: { ...state.playerStats, hp: newPlayerHp },
+        gameMode: { ...state.gameMode, survivalLives },
+      };
+    }
+
+    events.push({ type: 'playerDefeated', enemy, gameOver: false });
+    return {
+      ...state,
+      currentEnemy: null,
+      inCombat: false,
+      combatLog: newCombatLog,
+      playerStats: { ...state.playerStats, hp: newPlayerHp },
+    };
+  }
+
+  // The enemy survived: move it into its next phase and pick its next intent
+  const turn = advanceEnemyTurn({ ...enemy, hp: newEnemyHp });
+  if (turn.phaseChanged) {
+    const phase = turn.enemy.phases[turn.enemy.phase];
+    newCombatLog.push(`The ${enemy.name} enters its ${phase.name} phase!`);
+    events.push({ type: 'bossPhaseChanged', phase: turn.enemy.phase, name: phase.name });
+  }
+  if (turn.becameEnraged) {
+    newCombatLog.push(`The ${enemy.name} becomes enraged!`);
+    events.push({ type: 'enemyAbilityUsed', ability: 'enrage', amount: turn.enemy.atk });
+  }
+
+  return {
+    ...state,
+    currentEnemy: turn.enemy,
+    playerStats: { ...state.playerStats, hp: newPlayerHp },
+    combatLog: newCombatLog,
+  };
+};
+
+const answerQuestion = (
+  state: GameState,
+  hit: boolean,
+  answer: QuestionAnswer | undefined,
+  now: Date,
+  rng: Rng,
+  events: GameEvent[]
+): GameState => {
+  if (!state.currentEnemy || !state.inCombat) return state;
+
+  const correct = answer ? answer.credit >= 1 : hit;
+  if (answer) {
+    events.push({ type: 'answerGraded', answer, correct });
+  }
+
+  // Combat is resolved with the streak as it stood when the question was asked
+  let next = resolveAttack(state, hit, answer, rng, events);
+
+  if (answer) {
+    next = recordQuestionAnswer(next, answer, correct, now);
+  }
+  const gain = (answer ? getAnswerBonus(answer).streakGain : 1) + (correct ? state.playerStats.bonuses.streakGain : 0);
+  return updateKnowledgeStreak(next, correct, gain, now, events);
+};
+
+const openChest = (state: GameState, chestId: ChestId, rng: Rng, events: GameEvent[]): GameState => {
+  const chest = getChest(chestId);
+  if (!chest || state.coins < chest.cost || (chest.premiumOnly && !state.isPremium)) return state;
+
+  const { items, gems: bonusGems } = rollChest(chest, rng);
+  const next = collectItems(state, items, events, true);
+
+  // Apply streak multiplier to rewards
+  const finalBonusGems = Math.floor(bonusGems * state.knowledgeStreak.multiplier);
+
+  events.push({
+    type: 'chestOpened',
+    reward: {
+      type: items.length > 0 ? 'items' : 'gems',
+      items,
+      gems: finalBonusGems,
+    },
+  });
+
+  return {
+    ...next,
+    coins: next.coins - chest.cost,
+    gems: next.gems + finalBonusGems,
+  };
+};
+
+// Every upgrade is a gamble past +3; from +5 a failure also costs a level unless a scroll protects it
+const enhanceItem = (state: GameState, itemId: string, protect: boolean, rng: Rng, events: GameEvent[]): GameState => {
+  const item = findItem(state.inventory, itemId);
+  if (!item || isAtEnhancementCap(item) || state.gems < item.upgradeCost) return state;
+
+  const enhancement = getEnhancement(item);
+  const atRisk = failureLosesLevel(enhancement);
+  const useScroll = protect && atRisk;
+  if (useScroll && state.protectionScrolls < 1) return state;
+
+  const paid = {
+    ...state,
+    gems: state.gems - item.upgradeCost,
+    protectionScrolls: state.protectionScrolls - (useScroll ? 1 : 0),
+  };
+
+  if (rng.chance(getSuccessChance(enhancement))) {
+    const upgraded = shiftItemLevel(item, 1);
+    events.push({ type: 'itemUpgraded', slot: getItemKind(item), item: upgraded });
+    return withPlayerStats({ ...paid, inventory: replaceItem(paid.inventory, upgraded) });
+  }
+
+  const levelLost = atRisk && !useScroll;
+  const result = levelLost ? shiftItemLevel(item, -1) : item;
+  events.push({ type: 'itemEnhanceFailed', item: result, levelLost, protected: useScroll });
+  return levelLost ? withPlayerStats({ ...paid, inventory: replaceItem(paid.inventory, result) }) : paid;
+};
+
+const buyProtectionScroll = (state: GameState): GameState =>
+  state.gems < PROTECTION_SCROLL_COST ? state : {
+    ...state,
+    gems: state.gems - PROTECTION_SCROLL_COST,
+    protectionScrolls: state.protectionScrolls + 1,
+  };
+
+// Moving a ring to the other hand frees the one it was on
+const equipGear = (state: GameState, gearId: string, slot: GearSlot): GameState => {
+  const gear = state.inventory.gear.find(g => g.id === gearId);
+  if (!gear || !getSlotsForKind(gear.kind).includes(slot)) return state;
+  return withPlayerStats({ ...state, inventory: equipItem(state.inventory, gear, slot) });
+};
+
+const unequip = (state: GameState, slot: EquipmentSlot): GameState =>
+  getEquippedItem(state.inventory, slot) ? withPlayerStats({ ...state, inventory: clearSlot(state.inventory, slot) }) : state;
+
+const saveLoadout = (state: GameState, name: string, rng: Rng): GameState => {
+  const trimmed = name.trim();
+  if (!trimmed || state.loadouts.length >= MAX_LOADOUTS) return state;
+  return { ...state, loadouts: [...state.loadouts, { id: rng.id(), name: trimmed, slots: captureLoadout(state.inventory) }] };
+};
+
+const overwriteLoadout = (state: GameState, loadoutId: string): GameState => ({
+  ...state,
+  loadouts: state.loadouts.map(loadout =>
+    loadout.id === loadoutId ? { ...loadout, slots: captureLoadout(state.inventory) } : loadout
+  ),
+});
+
+const equipLoadout = (state: GameState, loadoutId: string, events: GameEvent[]): GameState => {
+  const loadout = state.loadouts.find(saved => saved.id === loadoutId);
+  if (!loadout) return state;
+
+  events.push({ type: 'loadoutEquipped', loadout, missing: getMissingSlots(state.inventory, loadout) });
+  return withPlayerStats({ ...state, inventory: applyLoadout(state.inventory, loadout) });
+};
+
+// Equipped and locked items are skipped, so a bulk sale never takes anything the player is keeping
+const sellItems = (state: GameState, itemIds: string[]): GameState => {
+  const sold = [...new Set(itemIds)]
+    .map(id => findItem(state.inventory, id))
+    .filter((item): item is Item => !!item && canDiscardItem(state.inventory, item.id));
+  if (sold.length === 0) return state;
+
+  return {
+    ...state,
+    coins: state.coins + sold.reduce((total, item) => total + item.sellPrice, 0),
+    inventory: removeItems(state.inventory, sold.map(item => item.id)),
+  };
+};
+
+const toggleItemLock = (state: GameState, itemId: string): GameState => {
+  if (!findItem(state.inventory, itemId)) return state;
+  const { lockedItemIds } = state.inventory;
+  return {
+    ...state,
+    inventory: {
+      ...state.inventory,
+      lockedItemIds: lockedItemIds.includes(itemId)
+        ? lockedItemIds.filter(id => id !== itemId)
+        : [...lockedItemIds, itemId],
+    },
+  };
+};
+
+const buyBagExpansion = (state: GameState): GameState => {
+  const cost = getBagExpansionCost(state.inventory.bagExpansions);
+  if (!canExpandBag(state.inventory) || state.gems < cost) return state;
+  return {
+    ...state,
+    gems: state.gems - cost,
+    inventory: { ...state.inventory, bagExpansions: state.inventory.bagExpansions + 1 },
+  };
+};
+
+const claimStashItem = (state: GameState, itemId: string): GameState => {
+  const item = state.inventory.stash.find(stashed => stashed.id === itemId);
+  if (!item || getFreeSlots(state.inventory, state.research) === 0) return state;
+  return {
+    ...state,
+    inventory: {
+      ...addItems(state.inventory, [item]),
+      stash: state.inventory.stash.filter(stashed => stashed.id !== itemId),
+    },
+  };
+};
+
+const discardStashItem = (state: GameState, itemId: string, action: LootRuleAction, events: GameEvent[]): GameState => {
+  const item = state.inventory.stash.find(stashed => stashed.id === itemId);
+  if (!item) return state;
+
+  const next = { ...state, inventory: { ...state.inventory, stash: state.inventory.stash.filter(stashed => stashed !== item) } };
+  if (action === 'sell') return { ...next, coins: next.coins + item.sellPrice };
+
+  const materials = getSalvageYield(item);
+  events.push({ type: 'itemSalvaged', item, materials });
+  return { ...next, materials: addMaterials(next.materials, materials) };
+};
+
+const toggleLootRule = (state: GameState, ruleId: string): GameState => ({
+  ...state,
+  lootRules: state.lootRules.map(rule => (rule.id === ruleId ? { ...rule, enabled: !rule.enabled } : rule)),
+});
+
+const salvageItem = (state: GameState, itemId: string, events: GameEvent[]): GameState => {
+  const item = findItem(state.inventory, itemId);
+  if (!item || !canDiscardItem(state.inventory, itemId)) return state;
+
+  const materials = getSalvageYield(item);
+  events.push({ type: 'itemSalvaged', item, materials });
+  return {
+    ...state,
+    materials: addMaterials(state.materials, materials),
+    inventory: removeItems(state.inventory, [itemId]),
+  };
+};
+
+// Rerolling and ascending change an item in place, so it stays equipped if it was
+const reforgeItem = (
+  state: GameState,
+  item: Item,
+  reforged: Item,
+  recipe: CraftingRecipe,
+  events: GameEvent[]
+): GameState => {
+  events.push({ type: 'itemCrafted', recipe, item: reforged });
+  const next = discoverItem(state, reforged, events);
+  return withPlayerStats({
+    ...next,
+    materials: addMaterials(state.materials, getRecipeCost(recipe, item.rarity), -1),
+    inventory: replaceItem(next.inventory, reforged),
+  });
+};
+
+const rerollAffixes = (state: GameState, itemId: string, rng: Rng, events: GameEvent[]): GameState => {
+  const item = findItem(state.inventory, itemId);
+  if (!item || !canReroll(item) || !canAfford(state.materials, getRecipeCost('reroll', item.rarity))) return state;
+
+  const reforged = { ...item, affixes: rollAffixes(rng, getItemKind(item), item.rarity) };
+  return reforgeItem(state, item, reforged, 'reroll', events);
+};
+
+const ascendItem = (state: GameState, itemId: string, rng: Rng, events: GameEvent[]): GameState => {
+  const item = findItem(state.inventory, itemId);
+  const next = item && getNextRarity(item.rarity);
+  if (!item || !next || !canAscend(item) || !canAfford(state.materials, getRecipeCost('ascend', item.rarity))) return state;
+
+  const fresh = generateItemOfRarity(rng, getItemKind(item), next, item.name);
+  const reforged = carryOverLevel({ ...fresh, id: item.id }, item.level);
+  return reforgeItem(state, item, reforged, 'ascend', events);
+};
+
+const fuseItems = (state: GameState, itemId: string, rng: Rng, events: GameEvent[]): GameState => {
+  const item = findItem(state.inventory, itemId);
+  const next = item && getNextRarity(item.rarity);
+  const cost = item && getRecipeCost('fuse', item.rarity);
+  if (!item || !next || !cost || !canFuse(state.inventory, item) || !canAfford(state.materials, cost)) return state;
+
+  const consumed = getFusionMaterials(state.inventory, item).slice(0, FUSE_COUNT).map(material => material.id);
+  const fused = generateItemOfRarity(rng, getItemKind(item), next);
+  events.push({ type: 'itemCrafted', recipe: 'fuse', item: fused });
+
+  return collectItems({
+    ...state,
+    materials: addMaterials(state.materials, cost, -1),
+    inventory: removeItems(state.inventory, consumed),
+  }, [fused], events);
+};
+
+const craftItem = (state: GameState, name: string, rng: Rng, events: GameEvent[]): GameState => {
+  const template = getCraftTemplate(state.collectionBook, name);
+  const cost = template && getRecipeCost('craft', template.rarity);
+  if (!template || !cost || !canAfford(state.materials, cost)) return state;
+  // A crafted item must never spill over into salvage
+  if (!hasRoomForItem(state.inventory, state.research)) return state;
+
+  const crafted = generateItemOfRarity(rng, template.kind, template.rarity, template.name);
+  events.push({ type: 'itemCrafted', recipe: 'craft', item: crafted });
+  return collectItems({ ...state, materials: addMaterials(state.materials, cost, -1) }, [crafted], events);
+};
+
+const upgradeResearch = (state: GameState, events: GameEvent[]): GameState => {
+  if (state.coins < RESEARCH_COST) return state;
+
+  const newLevel = state.research.level + 1;
+  const newTier = Math.floor(newLevel / 10);
+  events.push({ type: 'researchLeveled', level: newLevel, tier: newTier, tierUnlocked: newTier > state.research.tier });
+
+  return withPlayerStats({
+    ...state,
+    coins: state.coins - RESEARCH_COST,
+    research: {
+      level: newLevel,
+      tier: newTier,
+      totalSpent: state.research.totalSpent + RESEARCH_COST,
+    },
+  });
+};
+
+const toggleQuestionPack = (state: GameState, packId: string): GameState => {
+  const disabled = state.questionPacks.disabledPackIds;
+  if (disabled.includes(packId)) {
+    return {
+      ...state,
+      questionPacks: { ...state.questionPacks, disabledPackIds: disabled.filter(id => id !== packId) },
+    };
+  }
+
+  // Keep at least one pack enabled
+  const enabledCount = getAllPacks(state.questionPacks).filter(pack => !disabled.includes(pack.id)).length;
+  if (enabledCount <= 1) return state;
+
+  return {
+    ...state,
+    questionPacks: { ...state.questionPacks, disabledPackIds: [...disabled, packId] },
+  };
+};
+
+const reduce = (state: GameState, action: GameAction, rng: Rng, now: Date, events: GameEvent[]): GameState => {
+  switch (action.type) {
+    case 'tick':
+      return {
+        ...state,
+        statistics: {
+          ...state.statistics,
+          totalPlayTime: state.statistics.totalPlayTime + action.seconds,
+        },
+      };
+    case 'startCombat': {
+      const enemy = generateEnemy(state.zone, rng);
+      events.push({ type: 'combatStarted', enemy });
+      return {
+        ...state,
+        currentEnemy: enemy,
+        inCombat: true,
+        playerStats: {
+          ...state.playerStats,
+          hp: state.gameMode.current === 'survival' ? state.playerStats.hp : state.playerStats.maxHp,
+        },
+        combatLog: enemy.isBoss
+          ? [`Boss fight! The ${enemy.name} awaits in Zone ${enemy.zone}!`]
+          : [`You encounter a ${enemy.name} in Zone ${enemy.zone}!`],
+      };
+    }
+    case 'answerQuestion':
+      return answerQuestion(state, action.hit, action.answer, now, rng, events);
+    case 'openChest':
+      return openChest(state, action.chestId, rng, events);
+    case 'equipWeapon': {
+      const weapon = state.inventory.weapons.find(w => w.id === action.weaponId);
+      return weapon ? withPlayerStats({ ...state, inventory: { ...state.inventory, currentWeapon: weapon } }) : state;
+    }
+    case 'equipArmor': {
+      const armor = state.inventory.armor.find(a => a.id === action.armorId);
+      return armor ? withPlayerStats({ ...state, inventory: { ...state.inventory, currentArmor: armor } }) : state;
+    }
+    case 'upgradeWeapon':
+      return enhanceItem(state, action.weaponId, !!action.protect, rng, events);
+    case 'upgradeArmor':
+      return enhanceItem(state, action.armorId, !!action.protect, rng, events);
+    case 'sellWeapon':
+      return sellItems(state, [action.weaponId]);
+    case 'sellArmor':
+      return sellItems(state, [action.armorId]);
+    case 'equipGear':
+      return equipGear(state, action.gearId, action.slot);
+    case 'unequip':
+      return unequip(state, action.slot);
+    case 'saveLoadout':
+      return saveLoadout(state, action.name, rng);
+    case 'overwriteLoadout':
+      return overwriteLoadout(state, action.loadoutId);
+    case 'equipLoadout':
+      return equipLoadout(state, action.loadoutId, events);
+    case 'deleteLoadout':
+      return { ...state, loadouts: state.loadouts.filter(loadout => loadout.id !== action.loadoutId) };
+    case 'upgradeGear':
+      return enhanceItem(state, action.gearId, !!action.protect, rng, events);
+    case 'buyProtectionScroll':
+      return buyProtectionScroll(state);
+    case 'sellGear':
+      return sellItems(state, [action.gearId]);
+    case 'sellItems':
+      return sellItems(state, action.itemIds);
+    case 'toggleItemLock':
+      return toggleItemLock(state, action.itemId);
+    case 'buyBagExpansion':
+      return buyBagExpansion(state);
+    case 'claimStashItem':
+      return claimStashItem(state, action.itemId);
+    case 'discardStashItem':
+      return discardStashItem(state, action.itemId, action.action, events);
+    case 'addLootRule':
+      return { ...state, lootRules: [...state.lootRules, { ...action.rule, id: rng.id(), enabled: true }] };
+    case 'removeLootRule':
+      return { ...state, lootRules: state.lootRules.filter(rule => rule.id !== action.ruleId) };
+    case 'toggleLootRule':
+      return toggleLootRule(state, action.ruleId);
+    case 'salvageItem':
+      return salvageItem(state, action.itemId, events);
+    case 'rerollAffixes':
+      return rerollAffixes(state, action.itemId, rng, events);
+    case 'ascendItem':
+      return ascendItem(state, action.itemId, rng, events);
+    case 'fuseItems':
+      return fuseItems(state, action.itemId, rng, events);
+    case 'craftItem':
+      return craftItem(state, action.name, rng, events);
+    case 'upgradeResearch':
+      return upgradeResearch(state, events);
+    case 'setGameMode':
+      return {
+        ...state,
+        gameMode: {
+          ...state.gameMode,
+          current: action.mode,
+          speedModeActive: action.mode === 'speed',
+          survivalLives: action.mode === 'survival' ? state.gameMode.maxSurvivalLives : state.gameMode.survivalLives,
+        },
+      };
+    case 'updateDifficulty':
+      return {
+        ...state,
+        difficulty: {
+          ...state.difficulty,
+          ...action.changes,
+          rules: { ...state.difficulty.rules, ...action.changes.rules },
+        },
+      };
+    case 'toggleQuestionPack':
+      return toggleQuestionPack(state, action.packId);
+    case 'addQuestionPack':
+      return {
+        ...state,
+        questionPacks: {
+          ...state.questionPacks,
+          customPacks: [...state.questionPacks.customPacks, action.pack],
+        },
+      };
+    case 'removeQuestionPack':
+      return {
+        ...state,
+        questionPacks: {
+          disabledPackIds: state.questionPacks.disabledPackIds.filter(id => id !== action.packId),
+          customPacks: state.questionPacks.customPacks.filter(pack => pack.id !== action.packId),
+        },
+      };
+  }
+};
+
+export const unlockAchievements = (state: GameState, now: Date, events: GameEvent[]): GameState => {
+  const achievements = checkAchievements(state, now);
+  const newUnlocks = achievements.filter((achievement, i) => achievement.unlocked && !state.achievements[i].unlocked);
+  if (newUnlocks.length === 0) {
+    return achievements.every((achievement, i) => achievement === state.achievements[i])
+      ? state
+      : { ...state, achievements };
+  }
+
+  let bonusCoins = 0;
+  let bonusGems = 0;
+  newUnlocks.forEach(achievement => {
+    events.push({ type: 'achievementUnlocked', achievement });
+    bonusCoins += achievement.reward?.coins || 0;
+    bonusGems += achievement.reward?.gems || 0;
+  });
+  if (bonusCoins > 0 || bonusGems > 0) {
+    events.push({ type: 'achievementRewards', coins: bonusCoins, gems: bonusGems });
+  }
+
+  return {
+    ...state,
+    coins: state.coins + bonusCoins,
+    gems: state.gems + bonusGems,
+    achievements,
+  };
+};
+
+export const runAction = (state: GameState, action: GameAction, rng: Rng, now: Date): EngineResult => {
+  const events: GameEvent[] = [];
+  let next = reduce(state, action, rng, now, events);
+  // Bookkeeping subscribes to what happened rather than being wired into each rule;
+  // an action that emitted nothing cannot have moved any achievement either
+  if (events.length > 0) {
+    next = {
+      ...next,
+      statistics: events.reduce(trackStatistics, next.statistics),
+      achievementTracking: events.reduce(
+        (tracking, event) => trackAchievementEvent(tracking, event, now.getTime()),
+        next.achievementTracking
+      ),
+    };
+    next = unlockAchievements(next, now, events);
+  }
+
+  const rngState = rng.getState();
+  if (next === state && rngState.state === state.rng.state) {
+    return { state, events };
+  }
+  return { state: { ...next, rng: rngState }, events };
+};
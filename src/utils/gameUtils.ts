@@ -1,4 +1,11 @@
-import { Weapon, Armor, Enemy } from '../types/game';
+import { Weapon, Armor, Gear, GearKind, Item, ItemKind, ItemStats, Enemy, ItemRarity } from '../types/game';
+import { Rng } from './rng';
+import { rollAffixes } from './affixes';
+import { GEAR_KINDS } from './equipment';
+import { BASE_UPGRADE_COST } from './enhancement';
+import {
+  ENEMY_ARCHETYPES, BOSS_PHASES, BOSS_NAMES, BOSS_INTERVAL, BOSS_HP_MULTIPLIER, isBossZone, getIntent,
+} from './enemies';
 
 const weaponNames = {
   common: ['Rusty Sword', 'Wooden Club', 'Stone Axe', 'Iron Dagger'],
@@ -21,137 +28,253 @@ const chromaNames = {
   armor: ['Prismatic Guard', 'Rainbow Shield', 'Spectrum Plate', 'Aurora Mail', 'Chromatic Fortress'],
 };
 
-const enemyNames = [
-  'Goblin Warrior', 'Shadow Wolf', 'Stone Golem', 'Fire Imp',
-  'Ice Troll', 'Dark Mage', 'Lightning Drake', 'Void Wraith',
-  'Crystal Beast', 'Ancient Dragon', 'Chaos Lord', 'Nightmare King',
-  'Abyssal Terror', 'Cosmic Horror', 'Reality Bender', 'Dimension Lord'
-];
+// Chroma rolls draw from the mythical names too, so the Void Walker set can drop
+const mythicalWeaponNames = [...chromaNames.weapon, ...weaponNames.mythical];
+const mythicalArmorNames = [...chromaNames.armor, ...armorNames.mythical];
+
+const gearNames: Record<GearKind, Record<Exclude<ItemRarity, 'mythical'>, string[]> & { chroma: string[] }> = {
+  helm: {
+    common: ['Leather Cap', 'Padded Hood'],
+    rare: ['Steel Visor', "Scholar's Circlet"],
+    epic: ['Dragonbone Crown', 'Storm Helm'],
+    legendary: ['Crown of Ages', 'Helm of Insight'],
+    chroma: ['Prismatic Crown', 'Spectrum Visor', 'Void Circlet'],
+  },
+  boots: {
+    common: ['Sandals', 'Leather Boots'],
+    rare: ['Swift Treads', 'Iron Greaves'],
+    epic: ['Phoenix Striders', 'Shadow Steps'],
+    legendary: ['Boots of Hermes', 'Seven-League Boots'],
+    chroma: ['Rainbow Striders', 'Aurora Treads'],
+  },
+  ring: {
+    common: ['Copper Ring', 'Bone Band'],
+    rare: ['Silver Signet', 'Ruby Ring'],
+    epic: ['Ring of Flames', 'Sapphire Loop'],
+    legendary: ['Ring of Wisdom', 'Band of Eternity'],
+    chroma: ['Spectrum Band', 'Prismatic Loop', 'Abyssal Band'],
+  },
+  amulet: {
+    common: ['Wooden Charm', 'Clay Pendant'],
+    rare: ['Jade Amulet', 'Moonstone Pendant'],
+    epic: ['Amulet of Tides', 'Starlight Locket'],
+    legendary: ['Heart of the Ancients', 'Eye of Knowledge'],
+    chroma: ['Aurora Locket', 'Rainbow Charm', 'Heart of the Void'],
+  },
+  offhand: {
+    common: ['Buckler', 'Tome of Basics'],
+    rare: ['Kite Shield', 'Spellbook'],
+    epic: ['Tower Shield', 'Grimoire of Storms'],
+    legendary: ['Aegis of Dawn', 'Codex Infinitum'],
+    chroma: ['Chromatic Codex', 'Prismatic Bulwark'],
+  },
+};
+
+// What a common piece of each kind adds; better rarities multiply it
+const gearBaseStats: Record<GearKind, ItemStats> = {
+  helm: { atk: 0, def: 4, hp: 20 },
+  boots: { atk: 2, def: 3, hp: 0 },
+  ring: { atk: 6, def: 0, hp: 0 },
+  amulet: { atk: 0, def: 0, hp: 40 },
+  offhand: { atk: 3, def: 5, hp: 0 },
+};
+
+const gearRarityMultiplier: Record<ItemRarity, number> = { common: 1, rare: 1.6, epic: 2.5, legendary: 4, mythical: 5.5 };
+
+// Relative weights of the regular rarities; mythical items only come from the chroma roll
+export type RarityWeights = Record<Exclude<ItemRarity, 'mythical'>, number>;
+
+export const BASE_RARITY_WEIGHTS: RarityWeights = { common: 45, rare: 30, epic: 20, legendary: 5 };
+
+export const RARITY_ORDER: ItemRarity[] = ['common', 'rare', 'epic', 'legendary', 'mythical'];
+
+const rollRarity = (rng: Rng, weights: RarityWeights): Exclude<ItemRarity, 'mythical'> => {
+  // A rarity a floor has weighted out can never come up, not even on a roll of exactly 0
+  const rarities = (['common', 'rare', 'epic', 'legendary'] as const).filter(rarity => weights[rarity] > 0);
+  const total = rarities.reduce((sum, rarity) => sum + weights[rarity], 0);
+  const random = rng.next() * total;
+
+  let cumulative = 0;
+  for (const rarity of rarities) {
+    cumulative += weights[rarity];
+    if (random < cumulative) return rarity;
+  }
+  return rarities[rarities.length - 1] ?? 'common';
+};
+
+const weaponBaseAtk = { common: 15, rare: 25, epic: 40, legendary: 60 };
+const armorBaseDef = { common: 8, rare: 15, epic: 25, legendary: 40 };
 
-export const generateWeapon = (forceChroma = false): Weapon => {
-  const isChroma = forceChroma || Math.random() < 0.05; // 5% chance for chroma
-  
-  if (isChroma) {
-    const name = chromaNames.weapon[Math.floor(Math.random() * chromaNames.weapon.length)];
-    const baseAtk = 80 + Math.floor(Math.random() * 20); // 80-100 base attack
-    const sellPrice = Math.floor(baseAtk * 8);
-    
+// Mythical weapons and armor are always chroma pieces with their own stat ranges
+const buildWeapon = (rng: Rng, rarity: ItemRarity, name?: string): Weapon => {
+  if (rarity === 'mythical') {
+    const chromaName = name ?? rng.pick(mythicalWeaponNames);
+    const baseAtk = 80 + rng.int(0, 19); // 80-100 base attack
     return {
-      id: Math.random().toString(36).substr(2, 9),
-      name,
-      rarity: 'mythical',
+      id: rng.id(),
+      name: chromaName,
+      rarity,
       baseAtk,
       level: 1,
-      upgradeCost: 50,
-      sellPrice,
+      upgradeCost: BASE_UPGRADE_COST.mythical,
+      sellPrice: Math.floor(baseAtk * 8),
       isChroma: true,
+      affixes: rollAffixes(rng, 'weapon', rarity),
     };
   }
 
-  const rarities = ['common', 'rare', 'epic', 'legendary'] as const;
-  const weights = [45, 30, 20, 5]; // Adjusted for mythical items
-  const random = Math.random() * 100;
-  
-  let rarity: typeof rarities[number] = 'common';
-  let cumulative = 0;
-  
-  for (let i = 0; i < weights.length; i++) {
-    cumulative += weights[i];
-    if (random <= cumulative) {
-      rarity = rarities[i];
-      break;
-    }
-  }
-
-  const names = weaponNames[rarity];
-  const name = names[Math.floor(Math.random() * names.length)];
-  
-  const baseAtkMap = { common: 15, rare: 25, epic: 40, legendary: 60 };
-  const upgradeCostMap = { common: 5, rare: 10, epic: 20, legendary: 40 };
-  const baseAtk = baseAtkMap[rarity] + Math.floor(Math.random() * 10);
-  const sellPrice = Math.floor(baseAtk * 2);
-
+  const weaponName = name ?? rng.pick(weaponNames[rarity]);
+  const baseAtk = weaponBaseAtk[rarity] + rng.int(0, 9);
   return {
-    id: Math.random().toString(36).substr(2, 9),
-    name,
+    id: rng.id(),
+    name: weaponName,
     rarity,
     baseAtk,
     level: 1,
-    upgradeCost: upgradeCostMap[rarity],
-    sellPrice,
+    upgradeCost: BASE_UPGRADE_COST[rarity],
+    sellPrice: Math.floor(baseAtk * 2),
     isChroma: false,
+    affixes: rollAffixes(rng, 'weapon', rarity),
   };
 };
 
-export const generateArmor = (forceChroma = false): Armor => {
-  const isChroma = forceChroma || Math.random() < 0.05; // 5% chance for chroma
-  
-  if (isChroma) {
-    const name = chromaNames.armor[Math.floor(Math.random() * chromaNames.armor.length)];
-    const baseDef = 50 + Math.floor(Math.random() * 15); // 50-65 base defense
-    const sellPrice = Math.floor(baseDef * 10);
-    
+const buildArmor = (rng: Rng, rarity: ItemRarity, name?: string): Armor => {
+  if (rarity === 'mythical') {
+    const chromaName = name ?? rng.pick(mythicalArmorNames);
+    const baseDef = 50 + rng.int(0, 14); // 50-65 base defense
     return {
-      id: Math.random().toString(36).substr(2, 9),
-      name,
-      rarity: 'mythical',
+      id: rng.id(),
+      name: chromaName,
+      rarity,
       baseDef,
       level: 1,
-      upgradeCost: 50,
-      sellPrice,
+      upgradeCost: BASE_UPGRADE_COST.mythical,
+      sellPrice: Math.floor(baseDef * 10),
       isChroma: true,
+      affixes: rollAffixes(rng, 'armor', rarity),
     };
   }
 
-  const rarities = ['common', 'rare', 'epic', 'legendary'] as const;
-  const weights = [45, 30, 20, 5];
-  const random = Math.random() * 100;
-  
-  let rarity: typeof rarities[number] = 'common';
-  let cumulative = 0;
-  
-  for (let i = 0; i < weights.length; i++) {
-    cumulative += weights[i];
-    if (random <= cumulative) {
-      rarity = rarities[i];
-      break;
-    }
-  }
+  const armorName = name ?? rng.pick(armorNames[rarity]);
+  const baseDef = armorBaseDef[rarity] + rng.int(0, 4);
+  return {
+    id: rng.id(),
+    name: armorName,
+    rarity,
+    baseDef,
+    level: 1,
+    upgradeCost: BASE_UPGRADE_COST[rarity],
+    sellPrice: Math.floor(baseDef * 3),
+    isChroma: false,
+    affixes: rollAffixes(rng, 'armor', rarity),
+  };
+};
+
+const buildGear = (rng: Rng, kind: GearKind, rarity: ItemRarity, name?: string): Gear => {
+  const isChroma = rarity === 'mythical';
+  const names = gearNames[kind];
+  const gearName = name ?? rng.pick(rarity === 'mythical' ? names.chroma : names[rarity]);
 
-  const names = armorNames[rarity];
-  const name = names[Math.floor(Math.random() * names.length)];
-  
-  const baseDefMap = { common: 8, rare: 15, epic: 25, legendary: 40 };
-  const upgradeCostMap = { common: 5, rare: 10, epic: 20, legendary: 40 };
-  const baseDef = baseDefMap[rarity] + Math.floor(Math.random() * 5);
-  const sellPrice = Math.floor(baseDef * 3);
+  // Each stat rolls within 10% either side of its rarity's value
+  const rollStat = (base: number) => Math.round(base * gearRarityMultiplier[rarity] * (0.9 + 0.2 * rng.next()));
+  const base = gearBaseStats[kind];
+  const baseStats = { atk: rollStat(base.atk), def: rollStat(base.def), hp: rollStat(base.hp) };
+  const sellPrice = Math.floor((baseStats.atk * 2 + baseStats.def * 3 + baseStats.hp / 2) * (isChroma ? 3 : 1));
 
   return {
-    id: Math.random().toString(36).substr(2, 9),
-    name,
+    id: rng.id(),
+    name: gearName,
+    kind,
     rarity,
-    baseDef,
+    baseStats,
     level: 1,
-    upgradeCost: upgradeCostMap[rarity],
+    upgradeCost: BASE_UPGRADE_COST[rarity],
     sellPrice,
-    isChroma: false,
+    isChroma,
+    affixes: rollAffixes(rng, kind, rarity),
   };
 };
 
-export const generateEnemy = (zone: number): Enemy => {
-  const name = enemyNames[Math.min(zone - 1, enemyNames.length - 1)];
+export const generateWeapon = (rng: Rng, forceChroma = false, weights = BASE_RARITY_WEIGHTS): Weapon => {
+  const isChroma = forceChroma || rng.chance(0.05); // 5% chance for chroma
+  return buildWeapon(rng, isChroma ? 'mythical' : rollRarity(rng, weights));
+};
+
+export const generateArmor = (rng: Rng, forceChroma = false, weights = BASE_RARITY_WEIGHTS): Armor => {
+  const isChroma = forceChroma || rng.chance(0.05); // 5% chance for chroma
+  return buildArmor(rng, isChroma ? 'mythical' : rollRarity(rng, weights));
+};
+
+export const generateGear = (rng: Rng, kind: GearKind, forceChroma = false, weights = BASE_RARITY_WEIGHTS): Gear => {
+  const isChroma = forceChroma || rng.chance(0.05); // 5% chance for chroma
+  return buildGear(rng, kind, isChroma ? 'mythical' : rollRarity(rng, weights));
+};
+
+// Crafting picks the rarity, and sometimes the name, instead of rolling them
+export const generateItemOfRarity = (rng: Rng, kind: ItemKind, rarity: ItemRarity, name?: string): Item => {
+  if (kind === 'weapon') return buildWeapon(rng, rarity, name);
+  if (kind === 'armor') return buildArmor(rng, rarity, name);
+  return buildGear(rng, kind, rarity, name);
+};
+
+export interface ItemTemplate {
+  name: string;
+  kind: ItemKind;
+  rarity: ItemRarity;
+}
+
+// Every name an item can drop with, and the kind and rarity it drops as
+export const ITEM_TEMPLATES: ItemTemplate[] = [
+  ...RARITY_ORDER.flatMap(rarity => [
+    ...(rarity === 'mythical' ? mythicalWeaponNames : weaponNames[rarity]).map(name => ({ name, kind: 'weapon' as const, rarity })),
+    ...(rarity === 'mythical' ? mythicalArmorNames : armorNames[rarity]).map(name => ({ name, kind: 'armor' as const, rarity })),
+    ...GEAR_KINDS.flatMap(kind =>
+      (rarity === 'mythical' ? gearNames[kind].chroma : gearNames[kind][rarity]).map(name => ({ name, kind, rarity }))
+    ),
+  ]),
+];
+
+export const findItemTemplate = (name: string): ItemTemplate | undefined =>
+  ITEM_TEMPLATES.find(template => template.name === name);
+
+export const generateItemOfKind = (rng: Rng, kind: ItemKind, forceChroma = false, weights = BASE_RARITY_WEIGHTS): Item => {
+  if (kind === 'weapon') return generateWeapon(rng, forceChroma, weights);
+  if (kind === 'armor') return generateArmor(rng, forceChroma, weights);
+  return generateGear(rng, kind, forceChroma, weights);
+};
+
+export const generateEnemy = (zone: number, rng: Rng): Enemy => {
+  const boss = isBossZone(zone);
+  const archetype = rng.pick(ENEMY_ARCHETYPES);
+  // Bosses take their affinities from a random archetype but fight in phases
+  const phases = boss ? BOSS_PHASES : [];
+  const abilities = boss ? phases[0].abilities : archetype.abilities;
+  const hpMultiplier = boss ? BOSS_HP_MULTIPLIER : archetype.hpMultiplier;
+
   // Made enemies much harder
-  const hp = 200 + (zone * 15); // Increased from zone * 2
-  const atk = 20 + (zone * 8); // Increased from zone * 5
-  const def = Math.floor(zone * 2); // Added defense scaling
-  
+  const hp = Math.round((200 + (zone * 15)) * hpMultiplier); // Increased from zone * 2
+  const atk = Math.round((20 + (zone * 8)) * archetype.atkMultiplier); // Increased from zone * 5
+  const def = Math.floor(zone * 2 * archetype.defMultiplier); // Added defense scaling
+
   return {
-    name,
+    id: rng.id(),
+    name: boss ? BOSS_NAMES[(zone / BOSS_INTERVAL - 1) % BOSS_NAMES.length] : rng.pick(archetype.names),
     hp,
     maxHp: hp,
     atk,
     def,
     zone,
+    archetype: boss ? 'boss' : archetype.id,
+    baseAtk: atk,
+    abilities,
+    weakness: archetype.weakness,
+    resistance: archetype.resistance,
+    turn: 1,
+    intent: getIntent(abilities, 1),
+    enraged: false,
+    isBoss: boss,
+    phases,
+    phase: 0,
   };
 };
 
@@ -0,0 +1,131 @@
+import { GameState, PlayerStats, Inventory, Research, CollectionBook, KnowledgeStreak, GameMode, Statistics, QuestionPackSettings, QuestionHistory, DifficultySettings, AchievementTracking } from '../types/game';
+import { initializeAchievements } from './achievements';
+import { DEFAULT_DIFFICULTY_RULES } from './adaptiveDifficulty';
+import { createRandomSeed, seedRng } from './rng';
+
+export const initialPlayerStats: PlayerStats = {
+  hp: 200,
+  maxHp: 200,
+  atk: 50,
+  def: 0,
+  baseAtk: 50,
+  baseDef: 0,
+  baseHp: 200,
+  bonuses: { critChance: 0, lifesteal: 0, bonusTime: 0, streakGain: 0, categoryDamage: {} },
+};
+
+export const initialInventory: Inventory = {
+  weapons: [],
+  armor: [],
+  currentWeapon: null,
+  currentArmor: null,
+  gear: [],
+  equipment: { helm: null, boots: null, ring1: null, ring2: null, amulet: null, offhand: null },
+  lockedItemIds: [],
+  stash: [],
+  bagExpansions: 0,
+};
+
+export const initialResearch: Research = {
+  level: 0,
+  tier: 0,
+  totalSpent: 0,
+};
+
+export const initialCollectionBook: CollectionBook = {
+  weapons: {},
+  armor: {},
+  affixes: {},
+  gear: {},
+  totalWeaponsFound: 0,
+  totalArmorFound: 0,
+  totalGearFound: 0,
+  rarityStats: {
+    common: 0,
+    rare: 0,
+    epic: 0,
+    legendary: 0,
+    mythical: 0,
+  },
+};
+
+export const initialKnowledgeStreak: KnowledgeStreak = {
+  current: 0,
+  best: 0,
+  multiplier: 1,
+};
+
+export const initialGameMode: GameMode = {
+  current: 'normal',
+  speedModeActive: false,
+  survivalLives: 3,
+  maxSurvivalLives: 3,
+};
+
+export const initialStatistics: Statistics = {
+  totalQuestionsAnswered: 0,
+  correctAnswers: 0,
+  totalPlayTime: 0,
+  zonesReached: 1,
+  itemsCollected: 0,
+  coinsEarned: 0,
+  gemsEarned: 0,
+  chestsOpened: 0,
+  accuracyByCategory: {},
+  sessionStartTime: new Date(),
+};
+
+export const initialQuestionPacks: QuestionPackSettings = {
+  disabledPackIds: [],
+  customPacks: [],
+};
+
+export const initialQuestionHistory: QuestionHistory = {
+  turn: 0,
+  records: {},
+};
+
+export const initialDifficulty: DifficultySettings = {
+  mode: 'adaptive',
+  lockedDifficulty: 'easy',
+  rules: DEFAULT_DIFFICULTY_RULES,
+  recentAnswers: [],
+};
+
+export const initialAchievementTracking: AchievementTracking = {
+  counts: {},
+  recent: {},
+  missesThisCombat: 0,
+};
+
+// Builds a fresh state so achievements, the session clock and the RNG seed are never shared between games
+export const createInitialGameState = (): GameState => ({
+  coins: 100,
+  gems: 0,
+  zone: 1,
+  playerStats: initialPlayerStats,
+  inventory: initialInventory,
+  currentEnemy: null,
+  inCombat: false,
+  combatLog: [],
+  research: initialResearch,
+  isPremium: false,
+  achievements: initializeAchievements(),
+  collectionBook: initialCollectionBook,
+  knowledgeStreak: initialKnowledgeStreak,
+  gameMode: initialGameMode,
+  statistics: {
+    ...initialStatistics,
+    sessionStartTime: new Date(),
+  },
+  questionPacks: initialQuestionPacks,
+  questionHistory: initialQuestionHistory,
+  difficulty: initialDifficulty,
+  rng: seedRng(createRandomSeed()),
+  achievementTracking: initialAchievementTracking,
+  lootPity: {},
+  materials: { common: 0, rare: 0, epic: 0, legendary: 0, mythical: 0 },
+  protectionScrolls: 0,
+  lootRules: [],
+  loadouts: [],
+});
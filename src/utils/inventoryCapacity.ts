@@ -0,0 +1,29 @@
+import { Inventory, Research } from '../types/game';
+import { getAllItems } from './equipment';
+
+export const BASE_CAPACITY = 30;
+export const STASH_CAPACITY = 20;
+
+export const BAG_EXPANSION_SLOTS = 5;
+export const MAX_BAG_EXPANSIONS = 10;
+export const RESEARCH_SLOTS_PER_TIER = 5;
+
+export const getBagExpansionCost = (expansions: number): number => 50 + expansions * 25;
+
+export const canExpandBag = (inventory: Inventory): boolean => inventory.bagExpansions < MAX_BAG_EXPANSIONS;
+
+export const getInventoryCapacity = (inventory: Inventory, research: Research): number =>
+  BASE_CAPACITY + inventory.bagExpansions * BAG_EXPANSION_SLOTS + research.tier * RESEARCH_SLOTS_PER_TIER;
+
+// Equipped items still take up room, so the bag holds the same count whatever is worn
+export const getBagCount = (inventory: Inventory): number => getAllItems(inventory).length;
+
+// Saves from before capacity existed can hold more than fits, so this never goes below zero
+export const getFreeSlots = (inventory: Inventory, research: Research): number =>
+  Math.max(0, getInventoryCapacity(inventory, research) - getBagCount(inventory));
+
+export const getFreeStashSlots = (inventory: Inventory): number => Math.max(0, STASH_CAPACITY - inventory.stash.length);
+
+// Whether one more item fits without spilling over into salvage
+export const hasRoomForItem = (inventory: Inventory, research: Research): boolean =>
+  getFreeSlots(inventory, research) + getFreeStashSlots(inventory) > 0;
@@ -0,0 +1,64 @@
+import { Inventory, Item, ItemRarity } from '../types/game';
+import { RARITY_ORDER } from './gameUtils';
+import { canDiscardItem, getAllItems, getItemStats } from './equipment';
+import { getItemDisplayName } from './affixes';
+
+export type ItemSortKey = 'power' | 'rarity' | 'level' | 'newest' | 'oldest';
+
+export const ITEM_SORT_LABELS: Record<ItemSortKey, string> = {
+  power: 'ATK / DEF',
+  rarity: 'Rarity',
+  level: 'Level',
+  newest: 'Newest',
+  oldest: 'Oldest',
+};
+
+export interface ItemFilter {
+  search: string;
+  rarity: ItemRarity | 'all';
+  chromaOnly: boolean;
+}
+
+export const DEFAULT_ITEM_FILTER: ItemFilter = { search: '', rarity: 'all', chromaOnly: false };
+
+// One number to rank any item by; HP is plentiful, so it counts for a fifth
+export const getItemPower = (item: Item): number => {
+  const stats = getItemStats(item);
+  return stats.atk + stats.def + stats.hp / 5;
+};
+
+const rarityRank = (rarity: ItemRarity) => RARITY_ORDER.indexOf(rarity);
+
+// Inventory lists only ever grow at the end, so list position is acquisition order
+export const filterAndSortItems = <T extends Item>(items: T[], filter: ItemFilter, sort: ItemSortKey): T[] => {
+  const search = filter.search.trim().toLowerCase();
+  const filtered = items
+    .map((item, index) => ({ item, index }))
+    .filter(({ item }) =>
+      (filter.rarity === 'all' || item.rarity === filter.rarity) &&
+      (!filter.chromaOnly || !!item.isChroma) &&
+      (!search || getItemDisplayName(item).toLowerCase().includes(search))
+    );
+
+  const compare = {
+    power: (a: T, b: T) => getItemPower(b) - getItemPower(a),
+    rarity: (a: T, b: T) => rarityRank(b.rarity) - rarityRank(a.rarity),
+    level: (a: T, b: T) => b.level - a.level,
+  };
+
+  return filtered
+    .sort((a, b) => {
+      if (sort === 'newest') return b.index - a.index;
+      if (sort === 'oldest') return a.index - b.index;
+      return compare[sort](a.item, b.item) || b.index - a.index;
+    })
+    .map(({ item }) => item);
+};
+
+// Everything a "sell all below" would take: never equipped or locked items
+export const getItemsBelowRarity = (inventory: Inventory, rarity: ItemRarity): Item[] =>
+  getAllItems(inventory).filter(item =>
+    rarityRank(item.rarity) < rarityRank(rarity) && canDiscardItem(inventory, item.id)
+  );
+
+export const getTotalSellPrice = (items: Item[]): number => items.reduce((total, item) => total + item.sellPrice, 0);
@@ -0,0 +1,115 @@
+import { AffixStat, Item, ItemStats } from '../types/game';
+import { describeAffix } from './affixes';
+
+export type SetBonusStat = keyof ItemStats | Exclude<AffixStat, 'categoryDamage'>;
+
+export interface SetBonus {
+  pieces: number; // distinct set pieces that must be equipped
+  effects: Partial<Record<SetBonusStat, number>>;
+}
+
+export interface ItemSet {
+  id: string;
+  name: string;
+  pieces: string[]; // item names from the weapon, armor and gear name tables
+  bonuses: SetBonus[];
+}
+
+export const ITEM_SETS: ItemSet[] = [
+  {
+    id: 'iron-guard',
+    name: 'Iron Guard',
+    pieces: ['Iron Dagger', 'Iron Helm', 'Iron Greaves', 'Buckler', 'Copper Ring'],
+    bonuses: [
+      { pieces: 2, effects: { def: 5 } },
+      { pieces: 4, effects: { hp: 30, bonusTime: 1 } },
+    ],
+  },
+  {
+    id: 'scholars-kit',
+    name: "Scholar's Kit",
+    pieces: ['Crystal Staff', 'Mystic Cloak', "Scholar's Circlet", 'Moonstone Pendant', 'Spellbook'],
+    bonuses: [
+      { pieces: 2, effects: { streakGain: 1 } },
+      { pieces: 4, effects: { bonusTime: 2, critChance: 0.05 } },
+    ],
+  },
+  {
+    id: 'dragonslayer',
+    name: 'Dragonslayer',
+    pieces: ['Shadow Cleaver', 'Dragon Scale', 'Dragonbone Crown', 'Shadow Steps', 'Tower Shield'],
+    bonuses: [
+      { pieces: 2, effects: { def: 15 } },
+      { pieces: 4, effects: { hp: 100, lifesteal: 0.08 } },
+    ],
+  },
+  {
+    id: 'elemental-fury',
+    name: 'Elemental Fury',
+    pieces: [
+      'Flamebrand', 'Frostbite', 'Thunder Strike', 'Phoenix Mail', 'Storm Helm',
+      'Phoenix Striders', 'Ring of Flames', 'Amulet of Tides', 'Grimoire of Storms',
+    ],
+    bonuses: [
+      { pieces: 2, effects: { atk: 20 } },
+      { pieces: 4, effects: { critChance: 0.1, streakGain: 1 } },
+    ],
+  },
+  {
+    id: 'asgardian-regalia',
+    name: 'Asgardian Regalia',
+    pieces: ['Mjolnir', 'Gungnir', 'Divine Aegis', 'Crown of Ages', 'Ring of Wisdom', 'Heart of the Ancients'],
+    bonuses: [
+      { pieces: 2, effects: { atk: 40, def: 20 } },
+      { pieces: 4, effects: { critChance: 0.15, lifesteal: 0.1 } },
+    ],
+  },
+  {
+    id: 'void-walker',
+    name: 'Void Walker',
+    pieces: ['Void Reaper', 'Reality Slicer', 'Abyssal Aegis', 'Void Circlet', 'Abyssal Band', 'Heart of the Void'],
+    bonuses: [
+      { pieces: 2, effects: { atk: 60 } },
+      { pieces: 4, effects: { hp: 200, critChance: 0.2, bonusTime: 2 } },
+    ],
+  },
+];
+
+export const getItemSet = (name: string): ItemSet | undefined =>
+  ITEM_SETS.find(set => set.pieces.includes(name));
+
+// Two copies of the same ring only count once
+export const countSetPieces = (set: ItemSet, names: string[]): number =>
+  set.pieces.filter(piece => names.includes(piece)).length;
+
+export interface ActiveSetBonus {
+  set: ItemSet;
+  bonus: SetBonus;
+}
+
+export const getActiveSetBonuses = (equippedItems: Item[]): ActiveSetBonus[] => {
+  const names = equippedItems.map(item => item.name);
+  return ITEM_SETS.flatMap(set => {
+    const equipped = countSetPieces(set, names);
+    return set.bonuses.filter(bonus => equipped >= bonus.pieces).map(bonus => ({ set, bonus }));
+  });
+};
+
+export const getSetEffects = (equippedItems: Item[]): Record<SetBonusStat, number> => {
+  const totals: Record<SetBonusStat, number> = {
+    atk: 0, def: 0, hp: 0, critChance: 0, lifesteal: 0, bonusTime: 0, streakGain: 0,
+  };
+  getActiveSetBonuses(equippedItems).forEach(({ bonus }) => {
+    (Object.entries(bonus.effects) as [SetBonusStat, number][]).forEach(([stat, value]) => {
+      totals[stat] += value;
+    });
+  });
+  return totals;
+};
+
+export const describeSetBonus = (bonus: SetBonus): string =>
+  (Object.entries(bonus.effects) as [SetBonusStat, number][])
+    .map(([stat, value]) =>
+      stat === 'atk' || stat === 'def' || stat === 'hp' ? `+${value} ${stat.toUpperCase()}` : describeAffix({ stat, value })
+    )
+    .join(', ');
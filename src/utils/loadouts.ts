@@ -0,0 +1,32 @@
+import { EquipmentSlot, Inventory, Loadout } from '../types/game';
+import { EQUIPMENT_SLOTS, clearSlot, equipItem, findItem, getEquippedItem, getItemKind, getSlotsForKind } from './equipment';
+
+export const MAX_LOADOUTS = 6;
+
+export const captureLoadout = (inventory: Inventory): Loadout['slots'] =>
+  Object.fromEntries(EQUIPMENT_SLOTS.flatMap(({ slot }) => {
+    const item = getEquippedItem(inventory, slot);
+    return item ? [[slot, item.id]] : [];
+  }));
+
+// Slots whose saved item has since been sold, salvaged or fused away
+export const getMissingSlots = (inventory: Inventory, loadout: Loadout): EquipmentSlot[] =>
+  EQUIPMENT_SLOTS
+    .map(({ slot }) => slot)
+    .filter(slot => {
+      const itemId = loadout.slots[slot];
+      return itemId !== undefined && !findItem(inventory, itemId);
+    });
+
+// A missing item leaves whatever is in its slot, so losing one piece never strips the player bare
+export const applyLoadout = (inventory: Inventory, loadout: Loadout): Inventory =>
+  EQUIPMENT_SLOTS.reduce((next, { slot }) => {
+    const itemId = loadout.slots[slot];
+    if (itemId === undefined) return clearSlot(next, slot);
+
+    const item = findItem(next, itemId);
+    return item && getSlotsForKind(getItemKind(item)).includes(slot) ? equipItem(next, item, slot) : next;
+  }, inventory);
+
+export const isLoadoutWorn = (inventory: Inventory, loadout: Loadout): boolean =>
+  EQUIPMENT_SLOTS.every(({ slot }) => getEquippedItem(inventory, slot)?.id === loadout.slots[slot]);
@@ -0,0 +1,39 @@
+import { Item, LootRule, LootRuleAction } from '../types/game';
+import { RARITY_ORDER } from './gameUtils';
+import { getItemKind } from './equipment';
+import { getItemPower } from './inventoryFilters';
+
+export const LOOT_RULE_ACTIONS: Record<LootRuleAction, string> = {
+  sell: 'Sell',
+  salvage: 'Salvage',
+};
+
+export const LOOT_RULE_CATEGORIES: Record<LootRule['category'], string> = {
+  any: 'items',
+  weapon: 'weapons',
+  armor: 'armor',
+  gear: 'gear',
+};
+
+export const getItemCategory = (item: Item): Exclude<LootRule['category'], 'any'> => {
+  const kind = getItemKind(item);
+  return kind === 'weapon' || kind === 'armor' ? kind : 'gear';
+};
+
+// Chroma items are too rare to ever throw away unseen
+export const matchesLootRule = (item: Item, rule: LootRule): boolean =>
+  rule.enabled &&
+  !item.isChroma &&
+  RARITY_ORDER.indexOf(item.rarity) <= RARITY_ORDER.indexOf(rule.maxRarity) &&
+  (rule.category === 'any' || rule.category === getItemCategory(item)) &&
+  (rule.belowPower === null || getItemPower(item) < rule.belowPower);
+
+// The first matching rule wins, so players can order rules from most to least specific
+export const findLootRule = (rules: LootRule[], item: Item): LootRule | undefined =>
+  rules.find(rule => matchesLootRule(item, rule));
+
+export const describeLootRule = (rule: LootRule): string => {
+  const rarity = rule.maxRarity === 'common' ? 'common' : `${rule.maxRarity} and lower`;
+  const power = rule.belowPower === null ? '' : ` under ${rule.belowPower} power`;
+  return `${LOOT_RULE_ACTIONS[rule.action]} ${rarity} ${LOOT_RULE_CATEGORIES[rule.category]}${power}`;
+};
@@ -0,0 +1,159 @@
+import { Enemy, Item, ItemKind, ItemRarity } from '../types/game';
+import { Rng } from './rng';
+import { generateItemOfKind, BASE_RARITY_WEIGHTS, RARITY_ORDER, RarityWeights } from './gameUtils';
+import { GEAR_KINDS } from './equipment';
+
+export interface LootEntry {
+  kind: ItemKind;
+  weight: number;
+  minRarity?: ItemRarity; // this entry never rolls below it
+}
+
+export interface LootTable {
+  id: string;
+  archetypes?: string[]; // enemy archetype ids; any enemy when omitted
+  minZone: number;
+  maxZone?: number;
+  dropChance: number; // chance that a kill rolls on the entries at all
+  guaranteedDrops?: number; // rolls that always drop, on top of the chance roll
+  entries: LootEntry[];
+  // After `threshold` kills without an item of `minRarity` or better, the next kill drops one
+  pity?: { threshold: number; minRarity: ItemRarity };
+}
+
+export const LOOT_TABLES: LootTable[] = [
+  {
+    id: 'field',
+    minZone: 1,
+    dropChance: 0.08,
+    entries: [
+      { kind: 'weapon', weight: 1 },
+      { kind: 'armor', weight: 1 },
+      ...GEAR_KINDS.map((kind): LootEntry => ({ kind, weight: 0.2 })),
+    ],
+    pity: { threshold: 20, minRarity: 'common' },
+  },
+  {
+    id: 'brute-arsenal',
+    archetypes: ['brute', 'skirmisher'],
+    minZone: 5,
+    dropChance: 0.05,
+    entries: [{ kind: 'weapon', weight: 3 }, { kind: 'armor', weight: 1 }, { kind: 'ring', weight: 1 }],
+  },
+  {
+    id: 'guardian-vault',
+    archetypes: ['guardian', 'mystic'],
+    minZone: 5,
+    dropChance: 0.05,
+    entries: [{ kind: 'weapon', weight: 1 }, { kind: 'armor', weight: 3 }, { kind: 'offhand', weight: 1 }],
+  },
+  {
+    id: 'deep-zones',
+    minZone: 25,
+    dropChance: 0.05,
+    entries: [
+      { kind: 'weapon', weight: 1, minRarity: 'epic' },
+      { kind: 'armor', weight: 1, minRarity: 'epic' },
+    ],
+    pity: { threshold: 40, minRarity: 'legendary' },
+  },
+  {
+    id: 'boss',
+    archetypes: ['boss'],
+    minZone: 1,
+    dropChance: 0,
+    guaranteedDrops: 1,
+    entries: [
+      { kind: 'weapon', weight: 1, minRarity: 'rare' },
+      { kind: 'armor', weight: 1, minRarity: 'rare' },
+      ...GEAR_KINDS.map((kind): LootEntry => ({ kind, weight: 0.25, minRarity: 'rare' })),
+    ],
+    pity: { threshold: 3, minRarity: 'legendary' },
+  },
+];
+
+// Deeper zones shift weight from common items towards epic and legendary ones
+export const getRarityWeights = (zone: number): RarityWeights => {
+  const depth = Math.min(Math.max(zone, 0), 100) / 100;
+  return {
+    common: BASE_RARITY_WEIGHTS.common - 30 * depth,
+    rare: BASE_RARITY_WEIGHTS.rare,
+    epic: BASE_RARITY_WEIGHTS.epic + 15 * depth,
+    legendary: BASE_RARITY_WEIGHTS.legendary + 15 * depth,
+  };
+};
+
+export const isAtLeastRarity = (rarity: ItemRarity, minRarity: ItemRarity): boolean =>
+  RARITY_ORDER.indexOf(rarity) >= RARITY_ORDER.indexOf(minRarity);
+
+export const getLootTables = (enemy: Enemy): LootTable[] =>
+  LOOT_TABLES.filter(table =>
+    (!table.archetypes || table.archetypes.includes(enemy.archetype)) &&
+    enemy.zone >= table.minZone &&
+    (table.maxZone === undefined || enemy.zone <= table.maxZone)
+  );
+
+const rollEntry = (entries: LootEntry[], rng: Rng): LootEntry => {
+  const total = entries.reduce((sum, entry) => sum + entry.weight, 0);
+  let random = rng.next() * total;
+  for (const entry of entries) {
+    random -= entry.weight;
+    if (random <= 0) return entry;
+  }
+  return entries[entries.length - 1];
+};
+
+const generateDrop = (entry: LootEntry, zone: number, rng: Rng, pityRarity?: ItemRarity): Item => {
+  const floors = [entry.minRarity, pityRarity].filter((rarity): rarity is ItemRarity => !!rarity);
+  const minRarity = floors.reduce<ItemRarity>(
+    (highest, rarity) => (isAtLeastRarity(rarity, highest) ? rarity : highest),
+    'common'
+  );
+  const zoneWeights = getRarityWeights(zone);
+  const weights = Object.fromEntries(
+    Object.entries(zoneWeights).map(([rarity, weight]) => [
+      rarity,
+      isAtLeastRarity(rarity as ItemRarity, minRarity) ? weight : 0,
+    ])
+  ) as RarityWeights;
+
+  const forceChroma = minRarity === 'mythical';
+  return generateItemOfKind(rng, entry.kind, forceChroma, weights);
+};
+
+export interface LootRoll {
+  items: Item[];
+  pity: Record<string, number>;
+}
+
+// Rolls every table that applies to the enemy and advances their pity counters
+export const rollLoot = (enemy: Enemy, pity: Record<string, number>, rng: Rng): LootRoll => {
+  const items: Item[] = [];
+  const nextPity = { ...pity };
+
+  getLootTables(enemy).forEach(table => {
+    const misses = pity[table.id] ?? 0;
+    const pityReady = !!table.pity && misses + 1 >= table.pity.threshold;
+    const drops: Item[] = [];
+
+    for (let i = 0; i < (table.guaranteedDrops ?? 0); i++) {
+      drops.push(generateDrop(rollEntry(table.entries, rng), enemy.zone, rng));
+    }
+    if (rng.chance(table.dropChance)) {
+      drops.push(generateDrop(rollEntry(table.entries, rng), enemy.zone, rng));
+    }
+
+    if (table.pity) {
+      const minRarity = table.pity.minRarity;
+      const paidOut = drops.some(item => isAtLeastRarity(item.rarity, minRarity));
+      if (!paidOut && pityReady) {
+        drops.push(generateDrop(rollEntry(table.entries, rng), enemy.zone, rng, minRarity));
+      }
+      nextPity[table.id] = paidOut || pityReady ? 0 : misses + 1;
+    }
+
+    items.push(...drops);
+  });
+
+  return { items, pity: nextPity };
+};
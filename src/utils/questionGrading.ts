@@ -0,0 +1,92 @@
+import {
+  TriviaQuestion, QuestionResponse, NumericQuestion, OrderingQuestion, MultiSelectQuestion,
+} from '../types/game';
+
+export interface GradeResult {
+  credit: number; // 0-1
+  correct: boolean; // full credit only
+}
+
+// Seconds added to the base timer for kinds that take longer to enter
+const EXTRA_TIME: Record<TriviaQuestion['kind'], number> = {
+  'multiple-choice': 0,
+  'true-false': 0,
+  'image': 1,
+  'numeric': 3,
+  'multi-select': 3,
+  'ordering': 5,
+};
+
+export const getTimeLimit = (question: TriviaQuestion, baseTime: number): number =>
+  baseTime + EXTRA_TIME[question.kind];
+
+const result = (credit: number): GradeResult => {
+  const clamped = Math.max(0, Math.min(1, credit));
+  return { credit: clamped, correct: clamped >= 1 };
+};
+
+// Full credit inside the tolerance, half credit inside twice the tolerance
+const gradeNumeric = (question: NumericQuestion, value: number): GradeResult => {
+  const error = Math.abs(value - question.answer);
+  if (error <= question.tolerance) return result(1);
+  if (question.tolerance > 0 && error <= question.tolerance * 2) return result(0.5);
+  return result(0);
+};
+
+// Share of items placed in their correct position
+const gradeOrdering = (question: OrderingQuestion, order: string[]): GradeResult => {
+  const inPlace = question.items.filter((item, index) => order[index] === item).length;
+  return result(inPlace / question.items.length);
+};
+
+// Each right pick earns a share, each wrong pick takes one back
+const gradeMultiSelect = (question: MultiSelectQuestion, indices: number[]): GradeResult => {
+  const picked = new Set(indices);
+  const right = question.correctAnswers.filter(index => picked.has(index)).length;
+  const wrong = picked.size - right;
+  return result((right - wrong) / question.correctAnswers.length);
+};
+
+export const gradeAnswer = (question: TriviaQuestion, response: QuestionResponse): GradeResult => {
+  if (!response) return result(0);
+
+  switch (question.kind) {
+    case 'multiple-choice':
+    case 'image':
+      return result(response.kind === 'choice' && response.index === question.correctAnswer ? 1 : 0);
+    case 'true-false':
+      return result(response.kind === 'true-false' && response.value === question.answer ? 1 : 0);
+    case 'numeric':
+      return response.kind === 'numeric' ? gradeNumeric(question, response.value) : result(0);
+    case 'ordering':
+      return response.kind === 'ordering' ? gradeOrdering(question, response.order) : result(0);
+    case 'multi-select':
+      return response.kind === 'multi-select' ? gradeMultiSelect(question, response.indices) : result(0);
+  }
+};
+
+const letter = (index: number) => String.fromCharCode(65 + index);
+
+// Shown after a wrong or partly right answer
+export const describeCorrectAnswer = (question: TriviaQuestion): string => {
+  switch (question.kind) {
+    case 'multiple-choice':
+    case 'image':
+      return `${letter(question.correctAnswer)}. ${question.options[question.correctAnswer]}`;
+    case 'true-false':
+      return question.answer ? 'True' : 'False';
+    case 'numeric': {
+      const unit = question.unit ? ` ${question.unit}` : '';
+      return question.tolerance > 0
+        ? `${question.answer}${unit} (±${question.tolerance})`
+        : `${question.answer}${unit}`;
+    }
+    case 'ordering':
+      return question.items.join(' → ');
+    case 'multi-select':
+      return [...question.correctAnswers]
+        .sort((a, b) => a - b)
+        .map(index => `${letter(index)}. ${question.options[index]}`)
+        .join(', ');
+  }
+};
@@ -0,0 +1,210 @@
+import { QuestionPack, QuestionPackSettings, TriviaQuestion } from '../types/game';
+import corePackData from '../data/questionPacks/core.json';
+import worldExplorerPackData from '../data/questionPacks/world-explorer.json';
+
+export type PackValidationResult =
+  | { valid: true; pack: QuestionPack }
+  | { valid: false; errors: string[] };
+
+const DIFFICULTIES = ['easy', 'medium', 'hard'];
+const PACK_ID_PATTERN = /^[a-z0-9][a-z0-9_-]*$/;
+
+const QUESTION_KINDS = ['multiple-choice', 'true-false', 'numeric', 'ordering', 'multi-select', 'image'];
+// Remote images must be https; bundled ones can be data URLs or site-relative paths
+const IMAGE_SRC_PATTERN = /^(https:\/\/|data:image\/|\/)/;
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === 'string' && value.trim().length > 0;
+
+const isIndexInto = (value: unknown, list: unknown[]): boolean =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 0 && value < list.length;
+
+const validateOptions = (options: unknown): string[] => {
+  if (!Array.isArray(options) || options.length < 2 || !options.every(isNonEmptyString)) {
+    return ['needs at least two non-empty options'];
+  }
+  if (new Set(options).size !== options.length) return ['has duplicate options'];
+  return [];
+};
+
+// Errors for the kind-specific answer fields, phrased to follow "question N"
+const validateAnswer = (kind: TriviaQuestion['kind'], question: Record<string, unknown>): string[] => {
+  switch (kind) {
+    case 'multiple-choice':
+    case 'image': {
+      const errors = validateOptions(question.options);
+      if (errors.length === 0 && !isIndexInto(question.correctAnswer, question.options as string[])) {
+        errors.push('has a correctAnswer outside its options');
+      }
+      if (kind === 'image') {
+        const image = question.image as Record<string, unknown> | undefined;
+        if (typeof image !== 'object' || image === null || !isNonEmptyString(image.src) || !IMAGE_SRC_PATTERN.test(image.src)) {
+          errors.push('needs an image with an https, data or site-relative src');
+        } else if (!isNonEmptyString(image.alt)) {
+          errors.push('needs alt text for its image');
+        }
+      }
+      return errors;
+    }
+    case 'true-false':
+      return typeof question.answer === 'boolean' ? [] : ['answer must be true or false'];
+    case 'numeric': {
+      const errors: string[] = [];
+      if (typeof question.answer !== 'number' || !Number.isFinite(question.answer)) errors.push('answer must be a number');
+      if (typeof question.tolerance !== 'number' || !(question.tolerance >= 0)) errors.push('tolerance must be zero or more');
+      if (question.unit !== undefined && typeof question.unit !== 'string') errors.push('unit must be text');
+      return errors;
+    }
+    case 'ordering': {
+      const items = question.items;
+      if (!Array.isArray(items) || items.length < 2 || !items.every(isNonEmptyString)) {
+        return ['needs at least two items to order'];
+      }
+      return new Set(items).size === items.length ? [] : ['has duplicate items'];
+    }
+    case 'multi-select': {
+      const errors = validateOptions(question.options);
+      if (errors.length > 0) return errors;
+      const options = question.options as string[];
+      const answers = question.correctAnswers;
+      if (!Array.isArray(answers) || answers.length === 0 || !answers.every(index => isIndexInto(index, options))) {
+        errors.push('correctAnswers must list option indexes');
+      } else if (new Set(answers).size !== answers.length) {
+        errors.push('lists a correct answer twice');
+      }
+      return errors;
+    }
+  }
+};
+
+export const validateQuestionPack = (raw: unknown): PackValidationResult => {
+  const errors: string[] = [];
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    return { valid: false, errors: ['pack must be a JSON object'] };
+  }
+  const pack = raw as Record<string, unknown>;
+
+  if (!isNonEmptyString(pack.id) || !PACK_ID_PATTERN.test(pack.id)) {
+    errors.push('id must be lowercase letters, digits, "-" or "_"');
+  }
+  if (!isNonEmptyString(pack.name)) errors.push('name is required');
+  if (pack.version !== undefined && typeof pack.version !== 'number') errors.push('version must be a number');
+  if (pack.description !== undefined && typeof pack.description !== 'string') errors.push('description must be a string');
+  if (pack.author !== undefined && typeof pack.author !== 'string') errors.push('author must be a string');
+
+  const categories = Array.isArray(pack.categories) && pack.categories.every(isNonEmptyString)
+    ? pack.categories as string[]
+    : null;
+  if (!categories || categories.length === 0) errors.push('categories must be a non-empty list of names');
+
+  if (!Array.isArray(pack.questions) || pack.questions.length === 0) {
+    errors.push('questions must be a non-empty list');
+    return { valid: false, errors };
+  }
+
+  const seenIds = new Set<string>();
+  pack.questions.forEach((entry: unknown, index) => {
+    const where = `question ${index + 1}`;
+    if (typeof entry !== 'object' || entry === null) {
+      errors.push(`${where} must be an object`);
+      return;
+    }
+    const question = entry as Record<string, unknown>;
+
+    if (!isNonEmptyString(question.id)) {
+      errors.push(`${where} is missing an id`);
+    } else if (seenIds.has(question.id)) {
+      errors.push(`${where} reuses id "${question.id}"`);
+    } else {
+      seenIds.add(question.id);
+    }
+
+    if (!isNonEmptyString(question.question)) errors.push(`${where} has no question text`);
+
+    const kind = question.kind ?? 'multiple-choice';
+    if (!QUESTION_KINDS.includes(kind as string)) {
+      errors.push(`${where} has unknown kind "${String(kind)}"`);
+    } else {
+      errors.push(...validateAnswer(kind as TriviaQuestion['kind'], question).map(error => `${where} ${error}`));
+    }
+
+    if (!isNonEmptyString(question.category) || (categories && !categories.includes(question.category))) {
+      errors.push(`${where} uses a category not listed in the pack`);
+    }
+    if (!DIFFICULTIES.includes(question.difficulty as string)) {
+      errors.push(`${where} difficulty must be easy, medium or hard`);
+    }
+    if (question.explanation !== undefined && typeof question.explanation !== 'string') {
+      errors.push(`${where} explanation must be text`);
+    }
+  });
+
+  if (errors.length > 0) return { valid: false, errors };
+  return {
+    valid: true,
+    pack: {
+      version: 1,
+      ...pack,
+      // Packs written before question kinds existed are all multiple choice
+      questions: (pack.questions as Record<string, unknown>[]).map(question => ({
+        kind: 'multiple-choice',
+        ...question,
+      })),
+    } as QuestionPack,
+  };
+};
+
+const loadBuiltInPack = (raw: unknown): QuestionPack => {
+  const result = validateQuestionPack(raw);
+  if (!result.valid) {
+    throw new Error(`Built-in question pack is invalid: ${result.errors.join('; ')}`);
+  }
+  return result.pack;
+};
+
+export const builtInPacks: QuestionPack[] = [
+  loadBuiltInPack(corePackData),
+  loadBuiltInPack(worldExplorerPackData),
+];
+
+export const isBuiltInPack = (packId: string): boolean =>
+  builtInPacks.some(pack => pack.id === packId);
+
+// Question ids are only unique within a pack, so they are namespaced by pack id
+export const getPackQuestions = (pack: QuestionPack): TriviaQuestion[] =>
+  pack.questions.map(question => ({
+    ...question,
+    id: `${pack.id}/${question.id}`,
+    packId: pack.id,
+  }));
+
+export const getAllPacks = (settings: QuestionPackSettings): QuestionPack[] =>
+  [...builtInPacks, ...settings.customPacks];
+
+export const getActiveQuestions = (settings: QuestionPackSettings): TriviaQuestion[] => {
+  const active = getAllPacks(settings)
+    .filter(pack => !settings.disabledPackIds.includes(pack.id))
+    .flatMap(getPackQuestions);
+  // Never leave combat without questions
+  return active.length > 0 ? active : builtInPacks.flatMap(getPackQuestions);
+};
+
+export const parseQuestionPackFile = (text: string, settings: QuestionPackSettings): PackValidationResult => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return { valid: false, errors: ['file is not valid JSON'] };
+  }
+
+  const result = validateQuestionPack(parsed);
+  if (!result.valid) return result;
+
+  if (isBuiltInPack(result.pack.id)) {
+    return { valid: false, errors: [`pack id "${result.pack.id}" is reserved by a built-in pack`] };
+  }
+  if (settings.customPacks.some(pack => pack.id === result.pack.id)) {
+    return { valid: false, errors: [`a pack with id "${result.pack.id}" is already installed`] };
+  }
+  return result;
+};
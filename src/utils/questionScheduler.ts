@@ -0,0 +1,101 @@
+import { QuestionDifficulty, QuestionHistory, QuestionRecord, TriviaQuestion } from '../types/game';
+import { Rng } from './rng';
+
+// Answers to wait before a question in each Leitner box is due again. A miss
+// sends the question back to box 0; each correct answer moves it up one box.
+export const LEITNER_INTERVALS = [5, 12, 30, 70, 160];
+
+// How many answers a question is kept out of rotation after being asked
+const MAX_RECENT_WINDOW = 10;
+
+export interface PickOptions {
+  difficulty?: QuestionDifficulty;
+  category?: string;
+  // Questions already on screen this fight, whose answers may not be recorded yet
+  avoidIds?: string[];
+}
+
+export const recordAnswer = (
+  history: QuestionHistory,
+  questionId: string,
+  correct: boolean,
+  now: Date
+): QuestionHistory => {
+  const turn = history.turn + 1;
+  const previous = history.records[questionId];
+  const box = correct
+    ? Math.min(previous ? previous.box + 1 : 1, LEITNER_INTERVALS.length - 1)
+    : 0;
+
+  const record: QuestionRecord = {
+    seen: (previous?.seen ?? 0) + 1,
+    correct: (previous?.correct ?? 0) + (correct ? 1 : 0),
+    lastSeenAt: now.toISOString(),
+    lastSeenTurn: turn,
+    box,
+    dueTurn: turn + LEITNER_INTERVALS[box],
+  };
+
+  return {
+    turn,
+    records: { ...history.records, [questionId]: record },
+  };
+};
+
+export const pickQuestion = (
+  pool: TriviaQuestion[],
+  history: QuestionHistory,
+  rng: Rng,
+  { difficulty, category, avoidIds = [] }: PickOptions = {}
+): TriviaQuestion => {
+  // Narrow by difficulty, then category, dropping whichever filter empties the pool
+  let candidates = difficulty ? pool.filter(q => q.difficulty === difficulty) : pool;
+  if (candidates.length === 0) candidates = pool;
+  const inCategory = category ? candidates.filter(q => q.category === category) : candidates;
+  if (inCategory.length > 0) candidates = inCategory;
+
+  const recentWindow = Math.min(MAX_RECENT_WINDOW, Math.floor(candidates.length / 2));
+  const isRecent = (question: TriviaQuestion) => {
+    if (avoidIds.includes(question.id)) return true;
+    const record = history.records[question.id];
+    return !!record && history.turn - record.lastSeenTurn < recentWindow;
+  };
+
+  const available = candidates.filter(q => !isRecent(q));
+  if (available.length === 0) {
+    // Tiny pool: fall back to whatever was asked longest ago
+    const notOnScreen = candidates.filter(q => !avoidIds.includes(q.id));
+    const fallback = notOnScreen.length > 0 ? notOnScreen : candidates;
+    return [...fallback].sort(
+      (a, b) => (history.records[a.id]?.lastSeenTurn ?? -1) - (history.records[b.id]?.lastSeenTurn ?? -1)
+    )[0];
+  }
+
+  // Due reviews first: lowest box (most recently missed), then most overdue
+  const due = available
+    .filter(q => {
+      const record = history.records[q.id];
+      return !!record && record.dueTurn <= history.turn;
+    })
+    .sort((a, b) => {
+      const ra = history.records[a.id];
+      const rb = history.records[b.id];
+      return ra.box - rb.box || ra.dueTurn - rb.dueTurn;
+    });
+  if (due.length > 0) return due[0];
+
+  const unseen = available.filter(q => !history.records[q.id]);
+  if (unseen.length > 0) return rng.pick(unseen);
+
+  // Everything has been seen and nothing is due yet: take what comes due soonest
+  return [...available].sort((a, b) => history.records[a.id].dueTurn - history.records[b.id].dueTurn)[0];
+};
+
+// Questions per Leitner box, for showing how much of the pool has been learned
+export const getMasteryByBox = (history: QuestionHistory): number[] => {
+  const counts = LEITNER_INTERVALS.map(() => 0);
+  Object.values(history.records).forEach(record => {
+    counts[record.box]++;
+  });
+  return counts;
+};
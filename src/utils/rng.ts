@@ -0,0 +1,60 @@
+import { RngState } from '../types/game';
+
+// Mulberry32: tiny, fast and good enough for game rolls. The whole generator
+// state is one 32-bit integer, so it can be saved and restored exactly.
+export interface Rng {
+  next: () => number; // [0, 1)
+  int: (min: number, max: number) => number; // inclusive on both ends
+  chance: (probability: number) => boolean;
+  pick: <T>(items: readonly T[]) => T;
+  id: () => string;
+  getState: () => RngState;
+}
+
+const step = (state: number): [number, number] => {
+  const nextState = (state + 0x6d2b79f5) | 0;
+  let t = nextState;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return [((t ^ (t >>> 14)) >>> 0) / 4294967296, nextState];
+};
+
+export const createRng = ({ seed, state }: RngState): Rng => {
+  let current = state;
+
+  const next = () => {
+    const [value, nextState] = step(current);
+    current = nextState;
+    return value;
+  };
+
+  return {
+    next,
+    int: (min, max) => min + Math.floor(next() * (max - min + 1)),
+    chance: probability => next() < probability,
+    pick: items => items[Math.floor(next() * items.length)],
+    // Same shape as the old Math.random ids, so existing saves look no different
+    id: () => Math.floor(next() * 2 ** 32).toString(36).padStart(7, '0') + Math.floor(next() * 1296).toString(36),
+    getState: () => ({ seed, state: current }),
+  };
+};
+
+// FNV-1a, so a text seed such as a date maps to the same run on every device
+export const hashSeed = (text: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+export const seedRng = (seed: number): RngState => ({ seed: seed >>> 0, state: seed >>> 0 });
+
+// Picking the seed for a brand new game is the one roll that should not be reproducible
+export const createRandomSeed = (): number => Math.floor(Math.random() * 2 ** 32);
+
+// An independent stream for rolls that cannot write state back, such as which
+// question Combat asks next. Same seed and parts always give the same stream.
+export const deriveRng = (seed: number, ...parts: (string | number)[]): Rng =>
+  createRng(seedRng(hashSeed(`${seed}:${parts.join(':')}`)));
@@ -0,0 +1,404 @@
+import { GameState, Achievement, DifficultyRules, Materials } from '../types/game';
+import { RARITY_ORDER } from './gameUtils';
+import { achievementDefinitions, createAchievement } from './achievements';
+import { createInitialGameState } from './initialState';
+import { validateQuestionPack } from './questionPacks';
+import { DIFFICULTY_LEVELS } from './adaptiveDifficulty';
+import { createRandomSeed, seedRng } from './rng';
+
+type SaveData = Record<string, unknown>;
+type Migration = (data: SaveData) => SaveData;
+
+export interface SaveEnvelope {
+  version: number;
+  savedAt: string;
+  state: SaveData;
+}
+
+export type LoadResult =
+  | { status: 'loaded'; state: GameState; migratedFrom: number | null }
+  | { status: 'invalid'; issues: string[] };
+
+const isRecord = (value: unknown): value is SaveData =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+// migrations[n] upgrades a save from version n to version n + 1. Never edit an
+// existing entry once it has shipped; append a new one and the version follows.
+const migrations: Migration[] = [
+  // 0 -> 1: saves written before the envelope existed
+  data => ({
+    ...data,
+    isPremium: data.isPremium === true || (typeof data.zone === 'number' && data.zone >= 50),
+  }),
+  // 1 -> 2: question packs
+  data => ({
+    ...data,
+    questionPacks: { disabledPackIds: [], customPacks: [] },
+  }),
+  // 2 -> 3: spaced-repetition question history
+  data => ({
+    ...data,
+    questionHistory: { turn: 0, records: {} },
+  }),
+  // 3 -> 4: adaptive difficulty; hydration fills in the default rules
+  data => ({
+    ...data,
+    difficulty: { mode: 'adaptive', recentAnswers: [] },
+  }),
+  // 4 -> 5: answer times per category
+  data => {
+    const statistics = isRecord(data.statistics) ? data.statistics : {};
+    const byCategory = isRecord(statistics.accuracyByCategory) ? statistics.accuracyByCategory : {};
+    return {
+      ...data,
+      statistics: {
+        ...statistics,
+        accuracyByCategory: Object.fromEntries(
+          Object.entries(byCategory).map(([category, entry]) => [
+            category,
+            { ...(isRecord(entry) ? entry : {}), answerTime: 0, timedAnswers: 0 },
+          ])
+        ),
+      },
+    };
+  },
+  // 5 -> 6: seeded RNG; older saves never had a seed, so they get a new one
+  data => ({
+    ...data,
+    rng: seedRng(createRandomSeed()),
+  }),
+  // 6 -> 7: event counters for achievements; every zone past the first was a won battle
+  data => {
+    const statistics = isRecord(data.statistics) ? data.statistics : {};
+    const zonesReached = isFiniteNumber(statistics.zonesReached) ? statistics.zonesReached : 1;
+    return {
+      ...data,
+      achievementTracking: { counts: { victories: Math.max(0, zonesReached - 1) }, recent: {}, missesThisCombat: 0 },
+    };
+  },
+  // 7 -> 8: pity counters for combat loot tables
+  data => ({
+    ...data,
+    lootPity: {},
+  }),
+  // 8 -> 9: item affixes; existing items simply have none
+  data => {
+    if (!isRecord(data.inventory)) return data;
+    const withAffixes = (item: unknown) => (isRecord(item) ? { ...item, affixes: [] } : item);
+    const inventory = Object.fromEntries(Object.entries(data.inventory).map(([key, value]) => [
+      key,
+      Array.isArray(value) ? value.map(withAffixes) : withAffixes(value),
+    ]));
+    return { ...data, inventory };
+  },
+  // 9 -> 10: helm, boots, ring, amulet and off-hand slots; hydration fills in the empty slots
+  data => ({
+    ...data,
+    inventory: isRecord(data.inventory) ? { ...data.inventory, gear: [] } : data.inventory,
+    collectionBook: isRecord(data.collectionBook)
+      ? { ...data.collectionBook, gear: {}, totalGearFound: 0 }
+      : data.collectionBook,
+  }),
+  // 10 -> 11: crafting materials
+  data => ({
+    ...data,
+    materials: { common: 0, rare: 0, epic: 0, legendary: 0, mythical: 0 },
+  }),
+  // 11 -> 12: enhancement protection scrolls
+  data => ({
+    ...data,
+    protectionScrolls: 0,
+  }),
+  // 12 -> 13: item locking
+  data => ({
+    ...data,
+    inventory: isRecord(data.inventory) ? { ...data.inventory, lockedItemIds: [] } : data.inventory,
+  }),
+  // 13 -> 14: bag capacity, the overflow stash and loot rules
+  data => ({
+    ...data,
+    inventory: isRecord(data.inventory) ? { ...data.inventory, stash: [], bagExpansions: 0 } : data.inventory,
+    lootRules: [],
+  }),
+  // 14 -> 15: equipment loadouts
+  data => ({
+    ...data,
+    loadouts: [],
+  }),
+];
+
+export const SAVE_VERSION = migrations.length;
+
+const DIFFICULTY_MODES = ['adaptive', 'zone', 'locked'];
+const LOOT_RULE_ACTIONS = ['sell', 'salvage'];
+const LOOT_RULE_CATEGORIES = ['weapon', 'armor', 'gear', 'any'];
+
+const reviveDate = (value: unknown): Date | undefined => {
+  if (typeof value !== 'string' && !(value instanceof Date)) return undefined;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? undefined : date;
+};
+
+export const validateSaveData = (data: SaveData): string[] => {
+  const issues: string[] = [];
+
+  (['coins', 'gems', 'zone', 'protectionScrolls'] as const).forEach(key => {
+    if (!isFiniteNumber(data[key])) issues.push(`${key} must be a number`);
+  });
+  if (isFiniteNumber(data.zone) && data.zone < 1) issues.push('zone must be at least 1');
+
+  const sections = ['playerStats', 'inventory', 'research', 'collectionBook', 'knowledgeStreak', 'gameMode', 'statistics', 'questionPacks', 'questionHistory', 'difficulty', 'rng', 'achievementTracking', 'lootPity', 'materials'];
+  sections.forEach(key => {
+    if (data[key] !== undefined && !isRecord(data[key])) issues.push(`${key} must be an object`);
+  });
+
+  if (isRecord(data.inventory)) {
+    (['weapons', 'armor', 'gear', 'stash'] as const).forEach(key => {
+      const items = (data.inventory as SaveData)[key];
+      if (items !== undefined && !Array.isArray(items)) {
+        issues.push(`inventory.${key} must be an array`);
+      } else if (Array.isArray(items) && items.some(item => !isRecord(item) || typeof item.id !== 'string')) {
+        issues.push(`inventory.${key} contains an item without an id`);
+      } else if (Array.isArray(items) && items.some(item => !Array.isArray(item.affixes))) {
+        issues.push(`inventory.${key} contains an item without affixes`);
+      }
+    });
+    const equipment = (data.inventory as SaveData).equipment;
+    if (equipment !== undefined && !isRecord(equipment)) issues.push('inventory.equipment must be an object');
+    const locked = (data.inventory as SaveData).lockedItemIds;
+    if (locked !== undefined && !(Array.isArray(locked) && locked.every(id => typeof id === 'string'))) {
+      issues.push('inventory.lockedItemIds must be a list of item ids');
+    }
+    const bagExpansions = (data.inventory as SaveData).bagExpansions;
+    if (bagExpansions !== undefined && !isFiniteNumber(bagExpansions)) issues.push('inventory.bagExpansions must be a number');
+  }
+
+  if (data.lootRules !== undefined && !Array.isArray(data.lootRules)) issues.push('lootRules must be an array');
+  if (data.loadouts !== undefined && !Array.isArray(data.loadouts)) issues.push('loadouts must be an array');
+
+  if (isRecord(data.questionPacks)) {
+    (['disabledPackIds', 'customPacks'] as const).forEach(key => {
+      if (!Array.isArray((data.questionPacks as SaveData)[key])) issues.push(`questionPacks.${key} must be an array`);
+    });
+  }
+
+  if (isRecord(data.questionHistory)) {
+    const history = data.questionHistory as SaveData;
+    if (!isFiniteNumber(history.turn)) issues.push('questionHistory.turn must be a number');
+    if (!isRecord(history.records)) issues.push('questionHistory.records must be an object');
+  }
+
+  if (isRecord(data.difficulty)) {
+    const difficulty = data.difficulty as SaveData;
+    if (difficulty.mode !== undefined && !DIFFICULTY_MODES.includes(difficulty.mode as string)) {
+      issues.push('difficulty.mode must be adaptive, zone or locked');
+    }
+    if (difficulty.rules !== undefined && !isRecord(difficulty.rules)) issues.push('difficulty.rules must be an object');
+    if (!Array.isArray(difficulty.recentAnswers)) issues.push('difficulty.recentAnswers must be an array');
+  }
+
+  if (isRecord(data.achievementTracking)) {
+    const tracking = data.achievementTracking as SaveData;
+    (['counts', 'recent'] as const).forEach(key => {
+      if (!isRecord(tracking[key])) issues.push(`achievementTracking.${key} must be an object`);
+    });
+  }
+
+  if (isRecord(data.rng)) {
+    (['seed', 'state'] as const).forEach(key => {
+      if (!isFiniteNumber((data.rng as SaveData)[key])) issues.push(`rng.${key} must be a number`);
+    });
+  }
+
+  if (data.achievements !== undefined && !Array.isArray(data.achievements)) {
+    issues.push('achievements must be an array');
+  }
+
+  return issues;
+};
+
+// Saved achievements only contribute progress; names, rewards and thresholds always
+// come from the current definitions so balance changes reach existing players.
+const reconcileAchievements = (saved: unknown): Achievement[] => {
+  const savedById = new Map<string, SaveData>();
+  if (Array.isArray(saved)) {
+    saved.forEach(entry => {
+      if (isRecord(entry) && typeof entry.id === 'string') savedById.set(entry.id, entry);
+    });
+  }
+
+  return achievementDefinitions.map(def => {
+    const achievement = createAchievement(def);
+    const entry = savedById.get(def.id);
+    const unlocked = entry?.unlocked === true;
+    return {
+      ...achievement,
+      unlocked,
+      unlockedAt: unlocked ? reviveDate(entry?.unlockedAt) : undefined,
+      progress: unlocked
+        ? achievement.maxProgress
+        : Math.min(isFiniteNumber(entry?.progress) ? entry.progress : 0, achievement.maxProgress),
+    };
+  });
+};
+
+const section = <T extends object>(defaults: T, saved: unknown): T =>
+  isRecord(saved) ? { ...defaults, ...saved } : defaults;
+
+// Non-numeric rules would silently switch adaptation off, so each falls back on its own
+const hydrateDifficultyRules = (defaults: DifficultyRules, saved: unknown): DifficultyRules => {
+  const rules = { ...defaults };
+  if (isRecord(saved)) {
+    (Object.keys(rules) as (keyof DifficultyRules)[]).forEach(key => {
+      const value = saved[key];
+      if (isFiniteNumber(value)) rules[key] = value;
+    });
+  }
+  return rules;
+};
+
+export const hydrateGameState = (data: SaveData): GameState => {
+  const defaults = createInitialGameState();
+  const knowledgeStreak = section(defaults.knowledgeStreak, data.knowledgeStreak);
+  const questionPacks = section(defaults.questionPacks, data.questionPacks);
+  const difficulty = section(defaults.difficulty, data.difficulty);
+  const achievementTracking = section(defaults.achievementTracking, data.achievementTracking);
+  const inventory = section(defaults.inventory, data.inventory);
+
+  return {
+    ...defaults,
+    ...data,
+    currentEnemy: null,
+    inCombat: false,
+    combatLog: [],
+    playerStats: section(defaults.playerStats, data.playerStats),
+    inventory: {
+      ...inventory,
+      equipment: section(defaults.inventory.equipment, inventory.equipment),
+    },
+    research: section(defaults.research, data.research),
+    collectionBook: section(defaults.collectionBook, data.collectionBook),
+    gameMode: section(defaults.gameMode, data.gameMode),
+    questionHistory: section(defaults.questionHistory, data.questionHistory),
+    rng: section(defaults.rng, data.rng),
+    achievementTracking: {
+      counts: Object.fromEntries(Object.entries(achievementTracking.counts).filter(([, count]) => isFiniteNumber(count))),
+      recent: Object.fromEntries(Object.entries(achievementTracking.recent).filter(
+        ([, times]) => Array.isArray(times) && times.every(isFiniteNumber)
+      )),
+      // Saves never hold a fight in progress
+      missesThisCombat: 0,
+    },
+    // A rule the engine cannot read would match nothing or everything, so it is dropped
+    lootRules: (Array.isArray(data.lootRules) ? data.lootRules : []).filter(rule =>
+      isRecord(rule) &&
+      typeof rule.id === 'string' &&
+      LOOT_RULE_ACTIONS.includes(rule.action as string) &&
+      LOOT_RULE_CATEGORIES.includes(rule.category as string) &&
+      (RARITY_ORDER as string[]).includes(rule.maxRarity as string) &&
+      (rule.belowPower === null || isFiniteNumber(rule.belowPower)) &&
+      typeof rule.enabled === 'boolean'
+    ),
+    loadouts: (Array.isArray(data.loadouts) ? data.loadouts : []).filter(loadout =>
+      isRecord(loadout) &&
+      typeof loadout.id === 'string' &&
+      typeof loadout.name === 'string' &&
+      isRecord(loadout.slots) &&
+      Object.values(loadout.slots).every(itemId => typeof itemId === 'string')
+    ),
+    lootPity: Object.fromEntries(
+      Object.entries(section(defaults.lootPity, data.lootPity)).filter(([, misses]) => isFiniteNumber(misses))
+    ),
+    materials: Object.fromEntries(
+      Object.entries(section(defaults.materials, data.materials)).map(([tier, amount]) => [tier, isFiniteNumber(amount) ? amount : 0])
+    ) as Materials,
+    knowledgeStreak: {
+      ...knowledgeStreak,
+      lastCorrectTime: reviveDate(knowledgeStreak.lastCorrectTime),
+    },
+    statistics: {
+      ...section(defaults.statistics, data.statistics),
+      sessionStartTime: new Date(),
+    },
+    achievements: reconcileAchievements(data.achievements),
+    questionPacks: {
+      ...questionPacks,
+      // A hand-edited save must not smuggle in a pack the importer would reject;
+      // validation also fills in the kind on packs saved before question kinds
+      customPacks: questionPacks.customPacks.flatMap(pack => {
+        const result = validateQuestionPack(pack);
+        return result.valid ? [result.pack] : [];
+      }),
+    },
+    difficulty: {
+      ...difficulty,
+      lockedDifficulty: DIFFICULTY_LEVELS.includes(difficulty.lockedDifficulty)
+        ? difficulty.lockedDifficulty
+        : defaults.difficulty.lockedDifficulty,
+      rules: hydrateDifficultyRules(defaults.difficulty.rules, difficulty.rules),
+      recentAnswers: difficulty.recentAnswers.filter(
+        sample => isRecord(sample) && typeof sample.category === 'string' && isFiniteNumber(sample.responseTime)
+      ),
+    },
+  } as GameState;
+};
+
+export const createSaveEnvelope = (state: GameState): SaveEnvelope => ({
+  version: SAVE_VERSION,
+  savedAt: new Date().toISOString(),
+  state: {
+    ...state,
+    currentEnemy: null,
+    inCombat: false,
+    combatLog: [],
+  } as unknown as SaveData,
+});
+
+export const serializeGameState = (state: GameState): string =>
+  JSON.stringify(createSaveEnvelope(state));
+
+export const readSaveData = (parsed: unknown): LoadResult => {
+  if (!isRecord(parsed)) {
+    return { status: 'invalid', issues: ['save data is not an object'] };
+  }
+
+  // Unversioned saves are the bare state object
+  const isEnvelope = isFiniteNumber(parsed.version) && isRecord(parsed.state);
+  const version = isEnvelope ? parsed.version as number : 0;
+  let data = isEnvelope ? parsed.state as SaveData : parsed;
+
+  if (!Number.isInteger(version) || version < 0) {
+    return { status: 'invalid', issues: [`unknown save version ${version}`] };
+  }
+  if (version > SAVE_VERSION) {
+    return { status: 'invalid', issues: [`save version ${version} is newer than supported version ${SAVE_VERSION}`] };
+  }
+
+  for (let v = version; v < SAVE_VERSION; v++) {
+    data = migrations[v](data);
+  }
+
+  const issues = validateSaveData(data);
+  if (issues.length > 0) {
+    return { status: 'invalid', issues };
+  }
+
+  return {
+    status: 'loaded',
+    state: hydrateGameState(data),
+    migratedFrom: version < SAVE_VERSION ? version : null,
+  };
+};
+
+export const deserializeGameState = (raw: string): LoadResult => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    return { status: 'invalid', issues: ['save data is not valid JSON'] };
+  }
+  return readSaveData(parsed);
+};
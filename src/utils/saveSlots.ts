@@ -0,0 +1,190 @@
+import { GameState } from '../types/game';
+import { createSaveEnvelope, readSaveData, SaveEnvelope, LoadResult } from './saveFormat';
+import AsyncStorage, { StorageCorruptError } from './storage';
+
+// Single save written by builds that predate slots
+export const LEGACY_STORAGE_KEY = 'hugoland_game_state';
+const SLOT_INDEX_KEY = 'hugoland_save_slots';
+const SAVE_FILE_KIND = 'hugoland-save';
+
+export interface SaveSlotMeta {
+  id: string;
+  name: string;
+  zone: number;
+  playTime: number; // in seconds
+  lastPlayed: string;
+  createdAt: string;
+}
+
+export interface SaveSlotIndex {
+  activeSlotId: string;
+  slots: SaveSlotMeta[];
+}
+
+export interface SaveFile {
+  kind: typeof SAVE_FILE_KIND;
+  exportedAt: string;
+  slot: Pick<SaveSlotMeta, 'name' | 'zone' | 'playTime' | 'lastPlayed'>;
+  save: SaveEnvelope;
+}
+
+export const getSlotStorageKey = (slotId: string): string => `hugoland_slot_${slotId}`;
+
+const createSlotId = (): string =>
+  Date.now().toString(36) + Math.random().toString(36).substr(2, 5);
+
+export const createSlotMeta = (name: string, state: GameState): SaveSlotMeta => {
+  const now = new Date().toISOString();
+  return {
+    id: createSlotId(),
+    name,
+    zone: state.zone,
+    playTime: state.statistics.totalPlayTime,
+    lastPlayed: now,
+    createdAt: now,
+  };
+};
+
+export const copySlotMeta = (source: SaveSlotMeta): SaveSlotMeta => ({
+  ...source,
+  id: createSlotId(),
+  name: `${source.name} (Copy)`,
+  createdAt: new Date().toISOString(),
+});
+
+export const updateSlotMeta = (index: SaveSlotIndex, slotId: string, state: GameState): SaveSlotIndex => ({
+  ...index,
+  slots: index.slots.map(slot =>
+    slot.id === slotId
+      ? { ...slot, zone: state.zone, playTime: state.statistics.totalPlayTime, lastPlayed: new Date().toISOString() }
+      : slot
+  ),
+});
+
+// Lowest free number, so deleting a slot never leads to two with the same default name
+export const getNextSlotName = (index: SaveSlotIndex | null): string => {
+  const taken = new Set(index?.slots.map(slot => slot.name) ?? []);
+  let number = 1;
+  while (taken.has(`Slot ${number}`)) number++;
+  return `Slot ${number}`;
+};
+
+const isSlotIndex = (value: unknown): value is SaveSlotIndex => {
+  if (typeof value !== 'object' || value === null) return false;
+  const index = value as SaveSlotIndex;
+  return typeof index.activeSlotId === 'string' && Array.isArray(index.slots);
+};
+
+const parseSlotIndex = (raw: string): SaveSlotIndex | null => {
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    return isSlotIndex(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+};
+
+// Returns null when no slots exist yet. A legacy single save is adopted as the
+// first slot so players upgrading from older builds keep their progress.
+// Throws StorageCorruptError when the index itself is unreadable; the raw index
+// is backed up first and rebuildSlotIndex can recover the slots it pointed to.
+export const loadSlotIndex = async (): Promise<SaveSlotIndex | null> => {
+  const rawIndex = await AsyncStorage.getItem(SLOT_INDEX_KEY);
+  if (rawIndex) {
+    const index = parseSlotIndex(rawIndex);
+    if (!index) {
+      const backupKey = `${SLOT_INDEX_KEY}_backup_${Date.now()}`;
+      await AsyncStorage.setItem(backupKey, rawIndex);
+      throw new StorageCorruptError('The save slot list is corrupt', backupKey);
+    }
+    if (index.slots.length > 0) return index;
+  }
+
+  const legacySave = await AsyncStorage.getItem(LEGACY_STORAGE_KEY);
+  if (!legacySave) return null;
+
+  const now = new Date().toISOString();
+  const slot: SaveSlotMeta = { id: createSlotId(), name: 'Slot 1', zone: 1, playTime: 0, lastPlayed: now, createdAt: now };
+  await AsyncStorage.setItem(getSlotStorageKey(slot.id), legacySave);
+  await AsyncStorage.removeItem(LEGACY_STORAGE_KEY);
+
+  const index = { activeSlotId: slot.id, slots: [slot] };
+  await saveSlotIndex(index);
+  return index;
+};
+
+// Recreates the index from the slot data still in storage. Names and play time
+// are lost, zones are refreshed by the next save of each slot.
+export const rebuildSlotIndex = async (): Promise<SaveSlotIndex | null> => {
+  const slotPrefix = getSlotStorageKey('');
+  const slotIds = (await AsyncStorage.keys())
+    .filter(key => key.startsWith(slotPrefix) && !key.includes('_backup_'))
+    .map(key => key.slice(slotPrefix.length));
+  if (slotIds.length === 0) return null;
+
+  const now = new Date().toISOString();
+  const slots = slotIds.map((id, i): SaveSlotMeta => ({
+    id,
+    name: `Recovered Slot ${i + 1}`,
+    zone: 1,
+    playTime: 0,
+    lastPlayed: now,
+    createdAt: now,
+  }));
+
+  const index = { activeSlotId: slots[0].id, slots };
+  await saveSlotIndex(index);
+  return index;
+};
+
+export const saveSlotIndex = async (index: SaveSlotIndex): Promise<void> => {
+  await AsyncStorage.setItem(SLOT_INDEX_KEY, JSON.stringify(index));
+};
+
+export const readSlot = (slotId: string): Promise<string | null> =>
+  AsyncStorage.getItem(getSlotStorageKey(slotId));
+
+export const writeSlot = (slotId: string, raw: string): Promise<void> =>
+  AsyncStorage.setItem(getSlotStorageKey(slotId), raw);
+
+export const removeSlot = (slotId: string): Promise<void> =>
+  AsyncStorage.removeItem(getSlotStorageKey(slotId));
+
+export const createSaveFile = (slot: SaveSlotMeta, state: GameState): SaveFile => ({
+  kind: SAVE_FILE_KIND,
+  exportedAt: new Date().toISOString(),
+  slot: {
+    name: slot.name,
+    zone: slot.zone,
+    playTime: slot.playTime,
+    lastPlayed: slot.lastPlayed,
+  },
+  save: createSaveEnvelope(state),
+});
+
+export const getSaveFileName = (slot: SaveSlotMeta): string =>
+  `hugoland-${slot.name.replace(/[^a-z0-9]+/gi, '-').toLowerCase()}-zone${slot.zone}.json`;
+
+export type SaveFileResult =
+  | { status: 'loaded'; name: string; state: GameState }
+  | { status: 'invalid'; issues: string[] };
+
+export const parseSaveFile = (text: string): SaveFileResult => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return { status: 'invalid', issues: ['file is not valid JSON'] };
+  }
+
+  const file = parsed as Partial<SaveFile>;
+  if (typeof parsed !== 'object' || parsed === null || file.kind !== SAVE_FILE_KIND) {
+    return { status: 'invalid', issues: ['file is not a Hugoland save'] };
+  }
+
+  const result: LoadResult = readSaveData(file.save);
+  if (result.status === 'invalid') return result;
+
+  const name = typeof file.slot?.name === 'string' && file.slot.name.trim() ? file.slot.name.trim() : 'Imported Save';
+  return { status: 'loaded', name, state: result.state };
+};
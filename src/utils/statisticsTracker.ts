@@ -0,0 +1,43 @@
+import { GameEvent, Statistics } from '../types/game';
+
+// Folds engine events into the lifetime statistics shown on the Statistics screen
+export const trackStatistics = (statistics: Statistics, event: GameEvent): Statistics => {
+  switch (event.type) {
+    case 'answerGraded': {
+      const { category, responseTime } = event.answer;
+      const previous = statistics.accuracyByCategory[category];
+      return {
+        ...statistics,
+        totalQuestionsAnswered: statistics.totalQuestionsAnswered + 1,
+        correctAnswers: statistics.correctAnswers + (event.correct ? 1 : 0),
+        accuracyByCategory: {
+          ...statistics.accuracyByCategory,
+          [category]: {
+            correct: (previous?.correct || 0) + (event.correct ? 1 : 0),
+            total: (previous?.total || 0) + 1,
+            answerTime: (previous?.answerTime || 0) + responseTime,
+            timedAnswers: (previous?.timedAnswers || 0) + 1,
+          },
+        },
+      };
+    }
+    case 'enemyDefeated':
+      return {
+        ...statistics,
+        coinsEarned: statistics.coinsEarned + event.coins,
+        gemsEarned: statistics.gemsEarned + event.gems,
+      };
+    case 'zoneEntered':
+      return { ...statistics, zonesReached: Math.max(statistics.zonesReached, event.zone) };
+    case 'chestOpened':
+      return {
+        ...statistics,
+        chestsOpened: statistics.chestsOpened + 1,
+        gemsEarned: statistics.gemsEarned + (event.reward.gems ?? 0),
+      };
+    case 'itemDiscovered':
+      return { ...statistics, itemsCollected: statistics.itemsCollected + 1 };
+    default:
+      return statistics;
+  }
+};
@@ -1,37 +1,115 @@
-// Browser-based AsyncStorage implementation
+import { StorageDriver, IndexedDBDriver, LocalStorageDriver, MemoryStorageDriver } from './storageDrivers';
+import { StorageUnavailableError, toStorageError } from './storageErrors';
+
+export type { StorageDriver } from './storageDrivers';
+export * from './storageErrors';
+
+// Keys owned by the game; only these are moved between drivers
+const KEY_PREFIX = 'hugoland_';
+
+// Browser storage facade. Every method rejects with a StorageError instead of
+// swallowing failures, so callers decide how to surface them.
 class AsyncStorage {
+  private static driver: StorageDriver = new MemoryStorageDriver();
+
+  static get driverName(): string {
+    return AsyncStorage.driver.name;
+  }
+
+  static useDriver(driver: StorageDriver): void {
+    AsyncStorage.driver = driver;
+  }
+
+  // Picks the best available driver. Saves written to localStorage by older
+  // builds are copied into IndexedDB the first time it is used; if that copy
+  // fails the game stays on localStorage rather than losing them.
+  static async init(): Promise<StorageDriver> {
+    const local = new LocalStorageDriver();
+    const localAvailable = await local.isAvailable();
+
+    const indexedDB = new IndexedDBDriver();
+    if (await indexedDB.isAvailable()) {
+      const copied = !localAvailable || await AsyncStorage.copyKeys(local, indexedDB);
+      AsyncStorage.driver = copied ? indexedDB : local;
+    } else if (localAvailable) {
+      AsyncStorage.driver = local;
+    } else {
+      AsyncStorage.driver = new MemoryStorageDriver();
+      throw new StorageUnavailableError('No persistent storage is available; progress will be lost when the page closes');
+    }
+
+    return AsyncStorage.driver;
+  }
+
+  // Resolves false when any key could not be copied. The source is only cleared
+  // once every write has landed, so a partial copy leaves it untouched.
+  private static async copyKeys(from: StorageDriver, to: StorageDriver): Promise<boolean> {
+    let legacyKeys: string[];
+    try {
+      legacyKeys = (await from.keys()).filter(key => key.startsWith(KEY_PREFIX));
+      if (legacyKeys.length === 0) return true;
+
+      const existingKeys = await to.keys();
+      for (const key of legacyKeys) {
+        const value = await from.getItem(key);
+        if (value !== null && !existingKeys.includes(key)) {
+          await to.setItem(key, value);
+        }
+      }
+    } catch {
+      return false;
+    }
+
+    try {
+      for (const key of legacyKeys) {
+        await from.removeItem(key);
+      }
+    } catch {
+      // Every save is in the new driver by now, and a leftover legacy key is
+      // skipped on the next copy because the new driver already has it
+    }
+    return true;
+  }
+
   static async getItem(key: string): Promise<string | null> {
     try {
-      return localStorage.getItem(key);
+      return await AsyncStorage.driver.getItem(key);
     } catch (error) {
-      console.error('Error getting item from storage:', error);
-      return null;
+      throw toStorageError(error, `read "${key}"`);
     }
   }
 
   static async setItem(key: string, value: string): Promise<void> {
     try {
-      localStorage.setItem(key, value);
+      await AsyncStorage.driver.setItem(key, value);
     } catch (error) {
-      console.error('Error setting item in storage:', error);
+      throw toStorageError(error, `write "${key}"`);
     }
   }
 
   static async removeItem(key: string): Promise<void> {
     try {
-      localStorage.removeItem(key);
+      await AsyncStorage.driver.removeItem(key);
+    } catch (error) {
+      throw toStorageError(error, `remove "${key}"`);
+    }
+  }
+
+  static async keys(): Promise<string[]> {
+    try {
+      return await AsyncStorage.driver.keys();
     } catch (error) {
-      console.error('Error removing item from storage:', error);
+      throw toStorageError(error, 'list keys');
     }
   }
 
   static async clear(): Promise<void> {
     try {
-      localStorage.clear();
+      await AsyncStorage.driver.clear();
     } catch (error) {
-      console.error('Error clearing storage:', error);
+      throw toStorageError(error, 'clear storage');
     }
   }
 }
 
-export default AsyncStorage;
\ No newline at end of file
+export default AsyncStorage;
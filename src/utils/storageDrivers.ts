@@ -0,0 +1,165 @@
+import { StorageCorruptError, StorageUnavailableError } from './storageErrors';
+
+export interface StorageDriver {
+  readonly name: string;
+  isAvailable(): Promise<boolean>;
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+  removeItem(key: string): Promise<void>;
+  keys(): Promise<string[]>;
+  clear(): Promise<void>;
+}
+
+export class LocalStorageDriver implements StorageDriver {
+  readonly name = 'localStorage';
+
+  async isAvailable(): Promise<boolean> {
+    try {
+      const probeKey = '__hugoland_probe__';
+      localStorage.setItem(probeKey, probeKey);
+      localStorage.removeItem(probeKey);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async getItem(key: string): Promise<string | null> {
+    return localStorage.getItem(key);
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    localStorage.setItem(key, value);
+  }
+
+  async removeItem(key: string): Promise<void> {
+    localStorage.removeItem(key);
+  }
+
+  async keys(): Promise<string[]> {
+    return Object.keys(localStorage);
+  }
+
+  async clear(): Promise<void> {
+    localStorage.clear();
+  }
+}
+
+const DB_NAME = 'hugoland';
+const STORE_NAME = 'keyval';
+
+const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Key-value store on top of a single IndexedDB object store. Much larger quota
+// than localStorage, which matters once inventories and histories grow.
+export class IndexedDBDriver implements StorageDriver {
+  readonly name = 'indexedDB';
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        if (typeof indexedDB === 'undefined') {
+          reject(new StorageUnavailableError('IndexedDB is not supported'));
+          return;
+        }
+        const request = indexedDB.open(DB_NAME, 1);
+        request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME);
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+        request.onblocked = () => reject(new StorageUnavailableError('IndexedDB is blocked by another tab'));
+      });
+      // Allow a later call to retry after a failed open
+      this.dbPromise.catch(() => {
+        this.dbPromise = null;
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async run<T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    const db = await this.open();
+    const transaction = db.transaction(STORE_NAME, mode);
+    // Writes only count once the transaction commits, not when the request succeeds
+    const committed = new Promise<void>((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+    // A failed request already rejects below; don't also report the abort as unhandled
+    committed.catch(() => undefined);
+    const result = await promisifyRequest(action(transaction.objectStore(STORE_NAME)));
+    await committed;
+    return result;
+  }
+
+  async isAvailable(): Promise<boolean> {
+    try {
+      await this.open();
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async getItem(key: string): Promise<string | null> {
+    const value: unknown = await this.run('readonly', store => store.get(key));
+    if (value === undefined) return null;
+    if (typeof value !== 'string') {
+      throw new StorageCorruptError(`Value stored under "${key}" is not a string`);
+    }
+    return value;
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    await this.run('readwrite', store => store.put(value, key));
+  }
+
+  async removeItem(key: string): Promise<void> {
+    await this.run('readwrite', store => store.delete(key));
+  }
+
+  async keys(): Promise<string[]> {
+    const keys = await this.run('readonly', store => store.getAllKeys());
+    return keys.map(String);
+  }
+
+  async clear(): Promise<void> {
+    await this.run('readwrite', store => store.clear());
+  }
+}
+
+// Non-persistent driver used in tests and as a last resort when the browser
+// blocks every persistent storage API (private mode, disabled cookies).
+export class MemoryStorageDriver implements StorageDriver {
+  readonly name = 'memory';
+  private readonly items = new Map<string, string>();
+
+  async isAvailable(): Promise<boolean> {
+    return true;
+  }
+
+  async getItem(key: string): Promise<string | null> {
+    return this.items.get(key) ?? null;
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    this.items.set(key, value);
+  }
+
+  async removeItem(key: string): Promise<void> {
+    this.items.delete(key);
+  }
+
+  async keys(): Promise<string[]> {
+    return [...this.items.keys()];
+  }
+
+  async clear(): Promise<void> {
+    this.items.clear();
+  }
+}
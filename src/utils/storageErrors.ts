@@ -0,0 +1,51 @@
+export type StorageErrorCode = 'quota_exceeded' | 'unavailable' | 'corrupt';
+
+export class StorageError extends Error {
+  readonly code: StorageErrorCode;
+  readonly cause?: unknown;
+
+  constructor(code: StorageErrorCode, message: string, cause?: unknown) {
+    super(message);
+    this.name = 'StorageError';
+    this.code = code;
+    this.cause = cause;
+  }
+}
+
+export class StorageQuotaError extends StorageError {
+  constructor(message = 'Storage is full', cause?: unknown) {
+    super('quota_exceeded', message, cause);
+    this.name = 'StorageQuotaError';
+  }
+}
+
+export class StorageUnavailableError extends StorageError {
+  constructor(message = 'Storage is not available', cause?: unknown) {
+    super('unavailable', message, cause);
+    this.name = 'StorageUnavailableError';
+  }
+}
+
+export class StorageCorruptError extends StorageError {
+  readonly backupKey?: string;
+
+  constructor(message = 'Stored data is corrupt', backupKey?: string, cause?: unknown) {
+    super('corrupt', message, cause);
+    this.name = 'StorageCorruptError';
+    this.backupKey = backupKey;
+  }
+}
+
+const isQuotaError = (error: unknown): boolean =>
+  error instanceof DOMException && (
+    error.name === 'QuotaExceededError' ||
+    error.name === 'NS_ERROR_DOM_QUOTA_REACHED' ||
+    error.code === 22
+  );
+
+// Normalizes whatever a browser storage API threw into one of the typed errors above
+export const toStorageError = (error: unknown, action: string): StorageError => {
+  if (error instanceof StorageError) return error;
+  if (isQuotaError(error)) return new StorageQuotaError(`Storage is full while trying to ${action}`, error);
+  return new StorageUnavailableError(`Storage failed while trying to ${action}`, error);
+};